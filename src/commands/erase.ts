@@ -0,0 +1,152 @@
+import { Flags } from '@oclif/core';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadProvidersConfig } from '../providers/config.js';
+import { createDefaultRegistry } from '../providers/registry.js';
+import { listSubjectIdentifiers } from '../providers/subject.js';
+import { ArchiveCreator } from '../utils/archive.js';
+import {
+    ErasureEvidenceBuilder,
+    ErasurePlan,
+    buildErasurePlan,
+    describeErasureAction,
+    executeErasurePlan,
+    unconfirmedMatches
+} from '../utils/erasure.js';
+import { SubjectCommand, encryptedConfig, providerFlags, subjectFlags } from '../subjectCommand.js';
+
+export default class Erase extends SubjectCommand {
+    static description = 'Erase a data subject\'s personal data (GDPR Art. 17) after reviewing the deletion plan';
+
+    static flags = {
+        ...subjectFlags,
+        ...providerFlags,
+        dryRun: Flags.boolean({ description: 'Show the deletion plan without deleting anything' }),
+        confirm: Flags.string({ description: 'Confirm the erasure non-interactively by passing the subject\'s primary email' }),
+    };
+
+    async run() {
+        const { flags } = await this.parse(Erase);
+        const subject = this.buildSubject(flags);
+
+        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
+        if (!archivePassword && !flags.dryRun) {
+            this.log('❌ Archive password not found!');
+            this.log('💡 Run: autopv login');
+            this.log('   Or set ARCHIVE_PW environment variable');
+            throw new Error('Archive password required to protect the erasure evidence record');
+        }
+
+        this.log(`👉  Planning erasure for ${subject.email}`);
+        const subjectIdentifiers = listSubjectIdentifiers(subject);
+        if (subjectIdentifiers.length > 1) {
+            this.log(`🪪  Identifiers: ${subjectIdentifiers.map(({ kind, value }) => `${kind} ${value}`).join(', ')}`);
+        }
+
+        const attachmentDir = mkdtempSync(join(tmpdir(), 'autopv-attachments-'));
+        try {
+            const selection = createDefaultRegistry().createProviders({
+                env: process.env,
+                config: loadProvidersConfig(flags.config, process.env),
+                attachmentDir,
+                githubOrgs: flags.githubOrg,
+                githubAllOrgs: flags.githubAllOrgs,
+                stripeConnect: flags.stripeConnect,
+                stripeAccounts: flags.stripeAccount,
+                stripeMetadata: this.parseKeyValueFlags('stripeMetadata', flags.stripeMetadata)
+            });
+
+            for (const factory of selection.missingRequired) {
+                this.log(`❌ ${factory.displayName} credentials not found!`);
+                for (const hint of factory.setupHint || []) {
+                    this.log(`💡 ${hint}`);
+                }
+                throw new Error(`${factory.displayName} credentials required for erasure`);
+            }
+            for (const factory of selection.skipped) {
+                this.log(`⏭️  Skipping ${factory.displayName} (not configured)`);
+            }
+
+            const plan = await buildErasurePlan(selection.providers, subject);
+            this.logPlan(plan);
+
+            if (flags.dryRun) {
+                this.log('\n🧪 Dry run: nothing was deleted');
+                return;
+            }
+            if (!plan.providers.some(provider => provider.actions.some(action => action.type === 'delete'))) {
+                this.log('\n✅ Nothing to delete');
+                return;
+            }
+
+            await this.confirmSubject(subject.email, flags.confirm, 'This cannot be undone. Type {email} to erase');
+
+            this.log('\n🗑️  Erasing...');
+            const report = await executeErasurePlan(plan, selection.providers, (action, outcome) => {
+                if (outcome.status === 'deleted') {
+                    this.log(`   ✅ ${action.target}`);
+                } else if (outcome.status === 'failed') {
+                    this.log(`   ❌ ${action.target}: ${outcome.error}`);
+                }
+            });
+
+            // The record names the subject and what was kept, so it is delivered encrypted like evidence packs
+            const evidence = await new ErasureEvidenceBuilder().generate(report);
+            const timestamp = report.executedAt.replace(/[:.]/g, '-');
+            const emailSafe = subject.email.replace(/[^a-zA-Z0-9]/g, '_');
+            const archiver = new ArchiveCreator('.', archivePassword!);
+            let archive;
+            try {
+                archive = await archiver.createEncryptedArchive(evidence.filesCreated, `erasure_record_${emailSafe}_${timestamp}.zip`);
+            } finally {
+                // The unencrypted record must not be left behind, even when archiving fails
+                archiver.cleanupOriginalFiles(evidence.filesCreated);
+            }
+            if (!archive.success) {
+                throw new Error(`Archive creation failed: ${archive.error}`);
+            }
+
+            this.log(`\n📊 Deleted ${report.summary.deleted}, retained ${report.summary.retained}, failed ${report.summary.failed}`);
+            this.log(`🔒 Erasure record: ${archive.archivePath}`);
+
+            if (report.summary.failed > 0) {
+                this.log('⚠️  Some deletions failed; rerun erase once the errors above are resolved');
+                this.exit(1);
+            }
+            this.log('🎉 Erasure complete!');
+        } finally {
+            rmSync(attachmentDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Print what each provider would delete and keep
+     */
+    private logPlan(plan: ErasurePlan): void {
+        this.log('\n📋 Deletion plan:');
+        for (const provider of plan.providers) {
+            this.log(`\n   ${provider.displayName}`);
+            if (provider.actions.length === 0) {
+                this.log('      No data found for the subject');
+            }
+            for (const action of provider.actions) {
+                if (action.type === 'delete') {
+                    this.log(`      🗑️  Delete ${describeErasureAction(action)}`);
+                    if (action.match) {
+                        this.log(`         Matched by: ${action.match.method} (${action.match.confidence} confidence)`);
+                    }
+                } else {
+                    this.log(`      📦 Keep ${describeErasureAction(action)}`);
+                    this.log(`         Reason: ${action.reason}`);
+                }
+            }
+            for (const match of unconfirmedMatches(provider)) {
+                this.log(`      ⚠️  Not deleted: ${match.identifier} matched by ${match.method} (${match.confidence} confidence); supply it as a known identifier to erase it`);
+            }
+        }
+        for (const name of plan.unsupported) {
+            this.log(`\n   ⚠️  ${name}: no automated erasure; erase its data manually`);
+        }
+    }
+}
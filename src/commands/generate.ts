@@ -1,185 +1,283 @@
-import { Command, Flags } from '@oclif/core';
-import { GitHubProvider } from '../providers/github.js';
-import { StripeProvider } from '../providers/stripe.js';
-import { scrubPII } from '../utils/scrub.js';
-import { GDPRClassifier } from '../utils/classify.js';
-import { EvidencePackBuilder } from '../utils/pack.js';
-import { ArchiveCreator } from '../utils/archive.js';
+import { Flags } from '@oclif/core';
+import { loadProvidersConfig } from '../providers/config.js';
+import { createDefaultRegistry } from '../providers/registry.js';
+import { SubjectDefinition, listSubjectIdentifiers, loadSubjectQueue } from '../providers/subject.js';
+import { DataSubject, ProviderFactory, ProviderOptions } from '../providers/types.js';
+import { runBatch, writeBatchSummary } from '../utils/batch.js';
+import { CheckpointStore } from '../utils/checkpoint.js';
+import { EvidencePipeline } from '../utils/pipeline.js';
 import { FileCleanup } from '../utils/cleanup.js';
 import { PerformanceMonitor } from '../utils/performance.js';
-import Login from './login.js';
-import { config } from 'dotenv';
+import { DsarRequest, RequestStore, dueDate } from '../utils/requests.js';
+import { SubjectCommand, encryptedConfig, providerFlags, subjectFlags } from '../subjectCommand.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
 
-// Load environment variables
-config();
+// Provider options recorded with a run's checkpoints so --resume rebuilds the same providers
+type RunOptions = Omit<ProviderOptions, 'env' | 'config' | 'attachmentDir'>;
 
-// Load encrypted config as fallback
-const encryptedConfig = Login.loadConfigAsEnv();
-for (const [key, value] of Object.entries(encryptedConfig)) {
-    if (!process.env[key]) {
-        process.env[key] = value as string;
-    }
-}
-
-export default class Generate extends Command {
+export default class Generate extends SubjectCommand {
     static description = 'Generate DSAR evidence pack';
 
     static flags = {
-        email: Flags.string({ char: 'e', required: true, description: 'User email' }),
-        githubOrg: Flags.string({ char: 'g', required: true, description: 'GitHub org' }),
+        ...subjectFlags,
+        ...providerFlags,
+        githubCommits: Flags.boolean({ description: 'Walk org repositories for commits authored, committed or co-authored by the subject' }),
+        since: Flags.string({ description: 'Only export activity on or after this date (ISO 8601)' }),
+        until: Flags.string({ description: 'Only export activity on or before this date (ISO 8601)' }),
+        batch: Flags.string({
+            char: 'b',
+            description: 'CSV or JSON queue of subjects to process, writing one evidence pack per subject',
+            exclusive: ['email', 'subject', 'githubLogin', 'userId', 'stripeCustomer', 'subjectId']
+        }),
+        concurrency: Flags.integer({ default: 2, min: 1, description: 'Subjects processed at the same time in --batch mode' }),
+        providerConcurrency: Flags.integer({ default: 1, min: 1, description: 'Subjects each provider exports at the same time, sharing its API rate limit' }),
+        resume: Flags.string({
+            char: 'r',
+            description: 'Continue a failed run from its last completed stage, using the subject and options it started with',
+            exclusive: ['batch', 'email', 'subject', 'githubLogin', 'userId', 'stripeCustomer', 'subjectId']
+        }),
+        portability: Flags.boolean({ description: 'Also export the data for Art. 20 portability: one NDJSON file per provider with a versioned schema and README' }),
+        request: Flags.string({
+            description: 'Tracked request ID to link the evidence pack to (see autopv requests open); its subject is used when no --email is given',
+            exclusive: ['batch']
+        }),
+        providerTimeout: Flags.integer({ default: 0, min: 0, description: 'Seconds each provider export may take before the run fails (0 for no limit; config "timeouts" overrides per provider)' }),
     };
 
     async run() {
         const { flags } = await this.parse(Generate);
+        const queue = flags.batch ? this.loadQueue(flags.batch) : undefined;
 
         // Initialize performance monitoring
         const perfMonitor = new PerformanceMonitor();
-        perfMonitor.updateProgress('initialization', 0, 7);
+        perfMonitor.updateProgress('initialization', 0);
 
         // Initialize cleanup system
         const cleanup = new FileCleanup();
         await cleanup.cleanupOldFiles();
+        CheckpointStore.prune();
+
+        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
+        if (!archivePassword) {
+            this.log('❌ Archive password not found!');
+            this.log('💡 Run: autopv login');
+            this.log('   Or set ARCHIVE_PW environment variable');
+            throw new Error('Archive password required for secure delivery');
+        }
+
+        const request = flags.request ? this.openRequest(flags.request, archivePassword, flags.portability) : undefined;
 
-        this.log(`👉  Starting export for ${flags.email}`);
-        this.log(`🏢  GitHub organization: ${flags.githubOrg}`);
+        // A resumed run keeps the subject and provider options it was started with
+        let checkpoints: CheckpointStore | undefined;
+        let subject: DataSubject | undefined;
+        let runOptions: RunOptions;
+        if (flags.resume) {
+            checkpoints = this.openCheckpoints(flags.resume, archivePassword);
+            subject = checkpoints.subject;
+            runOptions = checkpoints.options as RunOptions;
+        } else {
+            subject = queue ? undefined : this.buildSubject(request && !flags.email && !flags.subject
+                ? { ...flags, email: [request.subject] }
+                : flags);
+            runOptions = {
+                githubOrgs: flags.githubOrg,
+                githubAllOrgs: flags.githubAllOrgs,
+                githubCommits: flags.githubCommits,
+                stripeConnect: flags.stripeConnect,
+                stripeAccounts: flags.stripeAccount,
+                stripeMetadata: this.parseKeyValueFlags('stripeMetadata', flags.stripeMetadata),
+                since: this.parseDateFlag('since', flags.since),
+                until: this.parseDateFlag('until', flags.until)
+            };
+            checkpoints = subject ? CheckpointStore.create(subject, runOptions, archivePassword) : undefined;
+        }
+        const { since, until } = runOptions;
+
+        if (request) {
+            const emails = [subject!.email, ...(subject!.emails || [])].map(email => email.toLowerCase());
+            if (!emails.includes(request.subject.toLowerCase())) {
+                this.error(`Request ${request.id} is for ${request.subject}, not ${subject!.email}`);
+            }
+            this.log(`📝  Request ${request.id}: ${request.type}, due ${dueDate(request)}`);
+            if (request.verification.status !== 'verified') {
+                this.log(`⚠️  Identity for request ${request.id} is ${request.verification.status}; verify it before delivering the pack`);
+            }
+        }
+
+        if (subject) {
+            const subjectIdentifiers = listSubjectIdentifiers(subject);
+            this.log(flags.resume
+                ? `👉  Resuming run ${checkpoints!.runId} for ${subject.email}`
+                : `👉  Starting export for ${subject.email}`);
+            if (subjectIdentifiers.length > 1) {
+                this.log(`🪪  Identifiers: ${subjectIdentifiers.map(({ kind, value }) => `${kind} ${value}`).join(', ')}`);
+            }
+        } else {
+            this.log(`👉  Starting batch export for ${queue!.length} subjects (${flags.concurrency} at a time)`);
+        }
+        this.log(runOptions.githubAllOrgs
+            ? '🏢  GitHub organizations: every org the credentials can access'
+            : `🏢  GitHub organizations: ${runOptions.githubOrgs?.join(', ') || 'none (public activity only)'}`);
+        if (since || until) {
+            this.log(`📅  Date range: ${since || 'beginning'} → ${until || 'now'}`);
+        }
         this.log(`⏰  Export timestamp: ${new Date().toISOString()}`);
+        if (checkpoints) {
+            this.log(`🧾  Run ID: ${checkpoints.runId}`);
+        }
         this.log(`📊  Memory limit: 300MB (current: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB)\n`);
 
-        // Step 1: GitHub Export
-        perfMonitor.updateProgress('github-export', 1, 7);
-        this.log('📁 Step 1: Exporting GitHub data...');
-        const githubToken = process.env.GITHUB_TOKEN || encryptedConfig.GITHUB_TOKEN;
-        if (!githubToken) {
-            this.log('❌ GitHub token not found!');
-            this.log('💡 Run: autopv login');
-            this.log('   Or set GITHUB_TOKEN environment variable');
-            throw new Error('GitHub token required for data export');
+        // Resolve configured data source providers once; batch subjects share their clients
+        const attachmentDir = mkdtempSync(join(tmpdir(), 'autopv-attachments-'));
+        const config = loadProvidersConfig(flags.config, process.env);
+        const registry = createDefaultRegistry();
+        const selection = registry.createProviders({
+            env: process.env,
+            config,
+            attachmentDir,
+            ...runOptions
+        });
+
+        for (const factory of selection.missingRequired) {
+            this.log(`❌ ${factory.displayName} credentials not found!`);
+            for (const hint of factory.setupHint || []) {
+                this.log(`💡 ${hint}`);
+            }
+            throw new Error(`${factory.displayName} credentials required for data export`);
         }
 
-        const githubProvider = new GitHubProvider(githubToken);
-        const githubData = await githubProvider.exportUserData(flags.email, flags.githubOrg);
-        this.log(`   ✅ GitHub: ${githubData.events.length} events, ${githubData.audit.length} audit entries`);
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
+        const pipeline = new EvidencePipeline({
+            providers: selection.providers,
+            skipped: queue ? [] : selection.skipped,
+            archivePassword,
+            openaiApiKey: process.env.OPENAI_API_KEY,
+            providerConcurrency: flags.providerConcurrency,
+            providerTimeout: flags.providerTimeout,
+            providerTimeouts: config.timeouts,
+            attachmentDir,
+            portability: flags.portability,
+            perfMonitor: queue ? undefined : perfMonitor,
+            // Step-by-step output from parallel subjects would interleave, so batches only report outcomes
+            log: queue ? undefined : message => this.log(message)
+        });
 
-        perfMonitor.forceGarbageCollection();
+        try {
+            if (queue) {
+                await this.runBatch(pipeline, queue, flags.concurrency, selection.skipped);
+            } else {
+                let result;
+                try {
+                    result = await pipeline.run(subject!, checkpoints);
+                } catch (error) {
+                    this.logResumeHint(checkpoints!);
+                    throw error;
+                }
+                this.log(`   📊 Final memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
 
-        // Step 2: Stripe Export
-        perfMonitor.updateProgress('stripe-export', 2, 7);
-        this.log('💳 Step 2: Exporting Stripe data...');
-        let stripeData = { customers: [], charges: [], methods: [] };
+                // Final performance summary
+                perfMonitor.stop();
 
-        const stripeKey = process.env.STRIPE_SECRET_KEY;
-        if (stripeKey) {
-            const stripeProvider = new StripeProvider(stripeKey);
-            stripeData = await stripeProvider.exportCustomerData(flags.email);
-            this.log(`   ✅ Stripe: ${stripeData.customers.length} customers, ${stripeData.charges.length} charges, ${stripeData.methods.length} methods`);
-        } else {
-            this.log('   ⏭️  Stripe: No API key provided, skipping Stripe export');
+                if (!result.archive.success) {
+                    this.logResumeHint(checkpoints!);
+                    throw new Error(`Archive creation failed: ${result.archive.error}`);
+                }
+                // Intermediate results hold the subject's unredacted data; drop them once delivered
+                checkpoints!.remove();
+
+                this.log('🎉 DSAR evidence generation complete!');
+                this.log(`📧 Deliverable ready for: ${subject!.email}`);
+                this.log(`🔒 Archive: ${result.archive.archivePath}`);
+                if (request) {
+                    // Reopened so requests tracked while the export ran are kept
+                    RequestStore.open(archivePassword).linkOutput(request.id, 'generate', resolve(result.archive.archivePath));
+                    this.log(`📝 Linked to request ${request.id}`);
+                }
+            }
+        } finally {
+            rmSync(attachmentDir, { recursive: true, force: true });
         }
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
-
-        perfMonitor.forceGarbageCollection();
-
-        // Step 3: Merge data
-        perfMonitor.updateProgress('data-merge', 3, 7);
-        this.log('🔗 Step 3: Merging data sources...');
-        const mergedData = {
-            email: flags.email,
-            githubOrg: flags.githubOrg,
-            exportTimestamp: new Date().toISOString(),
-            github: githubData,
-            stripe: stripeData
-        };
-
-        const dataSize = JSON.stringify(mergedData).length;
-        this.log(`   ✅ Merged data: ${dataSize} bytes total`);
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
-
-        // Step 4: PII Scrubbing
-        perfMonitor.updateProgress('pii-scrubbing', 4, 7);
-        this.log('🧹 Step 4: Scrubbing PII...');
-        const scrubResult = scrubPII(mergedData);
-        this.log(`   ✅ PII scrubbing: ${scrubResult.stats.itemsFound} items found, ${scrubResult.stats.bytesReduced} bytes reduced`);
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
-
-        perfMonitor.forceGarbageCollection();
-
-        // Step 5: GDPR Classification
-        perfMonitor.updateProgress('gdpr-classification', 5, 7);
-        this.log('⚖️  Step 5: GDPR classification...');
-        let gdprAnalysis = null;
-
-        const openaiApiKey = process.env.OPENAI_API_KEY;
-        if (openaiApiKey) {
-            const classifier = new GDPRClassifier(openaiApiKey);
-            gdprAnalysis = await classifier.classifyData(scrubResult.scrubbedData);
-            this.log(`   ✅ GDPR analysis: ${gdprAnalysis.classifications.length} fields classified`);
-        } else {
-            this.log('   ⏭️  GDPR: No OpenAI API key provided, skipping GDPR classification');
+    }
+
+    /**
+     * Process a subject queue and write the batch summary report
+     */
+    private async runBatch(
+        pipeline: EvidencePipeline,
+        queue: SubjectDefinition[],
+        concurrency: number,
+        skipped: ProviderFactory[]
+    ): Promise<void> {
+        for (const factory of skipped) {
+            this.log(`⏭️  ${factory.displayName}: Not configured, skipping ${factory.displayName} export`);
         }
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
-
-        perfMonitor.forceGarbageCollection();
-
-        // Step 6: Evidence Pack Generation
-        perfMonitor.updateProgress('evidence-generation', 6, 7);
-        this.log('📄 Step 6: Building evidence pack...');
-        const packBuilder = new EvidencePackBuilder();
-        const evidenceData = {
-            email: flags.email,
-            githubOrg: flags.githubOrg,
-            exportTimestamp: new Date().toISOString(),
-            original: {
-                email: flags.email,
-                githubOrg: flags.githubOrg,
-                exportTimestamp: new Date().toISOString(),
-                github: githubData,
-                stripe: stripeData
-            },
-            scrubbed: scrubResult.scrubbedData,
-            scrubStats: scrubResult.stats,
-            gdprClassification: gdprAnalysis
-        };
-        const evidenceFiles = await packBuilder.generateEvidencePack(evidenceData);
-        this.log(`   ✅ Evidence pack: ${evidenceFiles.pdfPath} (${evidenceFiles.summary.pdfSize} bytes)`);
-        this.log(`   ✅ CSV mapping: ${evidenceFiles.csvPath} (${evidenceFiles.summary.csvSize} bytes)`);
-        this.log(`   📊 Memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
-
-        perfMonitor.forceGarbageCollection();
-
-        // Step 7: Encrypted Archive
-        perfMonitor.updateProgress('archive-creation', 7, 7);
-        this.log('🔐 Step 7: Creating encrypted archive...');
-        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
-        if (!archivePassword) {
-            this.log('❌ Archive password not found!');
-            this.log('💡 Run: autopv login');
-            this.log('   Or set ARCHIVE_PW environment variable');
-            throw new Error('Archive password required for secure delivery');
+
+        const summary = await runBatch(pipeline, queue, {
+            concurrency,
+            onResult: (result, completed, total) => this.log(result.status === 'succeeded'
+                ? `✅ [${completed}/${total}] ${result.email}: ${result.records} records → ${result.archivePath}`
+                : `❌ [${completed}/${total}] ${result.email}: ${result.error}`)
+        });
+        const summaryPath = writeBatchSummary(summary);
+
+        this.log(`\n🎉 Batch complete: ${summary.succeeded} succeeded, ${summary.failed} failed`);
+        this.log(`📋 Summary report: ${summaryPath}`);
+        if (summary.failed > 0) {
+            this.exit(1);
         }
+    }
 
-        const archiveCreator = new ArchiveCreator('.', archivePassword);
-        const archiveResult = await archiveCreator.createEncryptedArchive(
-            evidenceFiles.filesCreated,
-            `evidence_pack_${flags.email.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().replace(/[:.]/g, '-')}.zip`
-        );
+    /**
+     * Open the checkpoints of the run being resumed
+     */
+    private openCheckpoints(runId: string, archivePassword: string): CheckpointStore {
+        try {
+            const checkpoints = CheckpointStore.open(runId, archivePassword);
+            this.log(`♻️  Completed stages: ${checkpoints.completedStages.join(', ') || 'none'}`);
+            return checkpoints;
+        } catch (error: any) {
+            this.error(error.message);
+        }
+    }
 
-        if (archiveResult.success) {
-            this.log(`   ✅ Archive created: ${archiveResult.archivePath}`);
-            this.log(`   📦 Archive size: ${Math.round(archiveResult.archiveSize / 1024)} KB`);
-            this.log(`   🧹 Cleanup: ${archiveResult.filesArchived.length} files archived`);
-        } else {
-            this.log(`   ❌ Archive creation failed: ${archiveResult.error}`);
+    /**
+     * Open the tracked request the evidence pack is for; only access requests, and
+     * portability requests exported with --portability, are answered by a pack
+     */
+    private openRequest(id: string, archivePassword: string, portability: boolean): DsarRequest {
+        let request: DsarRequest;
+        try {
+            request = RequestStore.open(archivePassword).getOpen(id);
+        } catch (error: any) {
+            this.error(error.message);
         }
-        this.log(`   📊 Final memory: ${perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
 
-        // Final performance summary
-        perfMonitor.stop();
+        if (request.type === 'portability' && !portability) {
+            this.error(`Request ${request.id} is a portability request; add --portability to export the data for it`);
+        }
+        if (request.type !== 'access' && request.type !== 'portability') {
+            this.error(`Request ${request.id} is a ${request.type} request, which an evidence pack does not answer`);
+        }
+        return request;
+    }
+
+    private logResumeHint(checkpoints: CheckpointStore): void {
+        this.log(`\n💾 Completed stages are saved; continue with: autopv generate --resume ${checkpoints.runId}`);
+    }
 
-        this.log('🎉 DSAR evidence generation complete!');
-        this.log(`📧 Deliverable ready for: ${flags.email}`);
-        if (archiveResult.success) {
-            this.log(`🔒 Archive: ${archiveResult.archivePath}`);
+    /**
+     * Load the batch queue, rejecting flags that describe a single subject
+     */
+    private loadQueue(path: string): SubjectDefinition[] {
+        try {
+            const queue = loadSubjectQueue(path);
+            if (queue.length === 0) {
+                this.error(`Subject queue ${path} is empty`);
+            }
+            return queue;
+        } catch (error: any) {
+            this.error(error.message);
         }
     }
 }
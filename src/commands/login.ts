@@ -7,9 +7,20 @@ import * as readline from 'readline';
 
 interface AutoPVConfig {
   githubToken?: string;
+  githubApiUrl?: string;
+  githubAppId?: string;
+  githubAppPrivateKey?: string;
+  githubAppInstallationId?: string;
   stripeSecretKey?: string;
+  zendeskSubdomain?: string;
+  zendeskEmail?: string;
+  zendeskApiToken?: string;
+  auth0Domain?: string;
+  auth0ClientId?: string;
+  auth0ClientSecret?: string;
   openaiApiKey?: string;
   archivePassword?: string;
+  secrets?: Record<string, string>;
   createdAt: string;
   lastUpdated: string;
 }
@@ -20,6 +31,11 @@ export default class Login extends Command {
   static examples = [
     '$ autopv login',
     '$ autopv login --github-token ghp_your_token_here',
+    '$ autopv login --github-api-url https://github.example.com --github-token ghp_your_token_here',
+    '$ autopv login --github-app-id 12345 --github-app-installation-id 67890 --github-app-private-key ./app.pem',
+    '$ autopv login --zendesk-subdomain acme --zendesk-email agent@acme.com --zendesk-token your_api_token',
+    '$ autopv login --auth0-domain acme.eu.auth0.com --auth0-client-id your_client_id --auth0-client-secret your_client_secret',
+    '$ autopv login --secret HELPDESK_TOKEN=abc123',
     '$ autopv login --reset'
   ];
 
@@ -28,10 +44,49 @@ export default class Login extends Command {
       char: 'g',
       description: 'GitHub Personal Access Token (repo:read, admin:org scopes)'
     }),
+    'github-api-url': Flags.string({
+      description: 'GitHub Enterprise Server URL (e.g. https://github.example.com)'
+    }),
+    'github-app-id': Flags.string({
+      description: 'GitHub App ID (use instead of a personal access token)',
+      dependsOn: ['github-app-installation-id', 'github-app-private-key']
+    }),
+    'github-app-installation-id': Flags.string({
+      description: 'GitHub App installation ID for the organization',
+      dependsOn: ['github-app-id']
+    }),
+    'github-app-private-key': Flags.string({
+      description: 'Path to the GitHub App private key (.pem)',
+      dependsOn: ['github-app-id']
+    }),
     'stripe-key': Flags.string({
       char: 's', 
       description: 'Stripe Secret Key (optional, for payment data export)'
     }),
+    'zendesk-subdomain': Flags.string({
+      description: 'Zendesk subdomain (optional, for support ticket export)',
+      dependsOn: ['zendesk-email', 'zendesk-token']
+    }),
+    'zendesk-email': Flags.string({
+      description: 'Zendesk agent email the API token belongs to',
+      dependsOn: ['zendesk-subdomain']
+    }),
+    'zendesk-token': Flags.string({
+      description: 'Zendesk API token',
+      dependsOn: ['zendesk-subdomain']
+    }),
+    'auth0-domain': Flags.string({
+      description: 'Auth0 tenant domain (optional, for identity provider export)',
+      dependsOn: ['auth0-client-id', 'auth0-client-secret']
+    }),
+    'auth0-client-id': Flags.string({
+      description: 'Auth0 machine-to-machine application client ID (read:users, read:logs, read:roles, read:sessions)',
+      dependsOn: ['auth0-domain']
+    }),
+    'auth0-client-secret': Flags.string({
+      description: 'Auth0 machine-to-machine application client secret',
+      dependsOn: ['auth0-domain']
+    }),
     'openai-key': Flags.string({
       char: 'o',
       description: 'OpenAI API Key (for GDPR classification)'
@@ -40,6 +95,10 @@ export default class Login extends Command {
       char: 'p',
       description: 'Password for encrypted evidence archives'
     }),
+    secret: Flags.string({
+      multiple: true,
+      description: 'Named secret for provider configs, as NAME=VALUE (referenced as ${NAME}, repeatable)'
+    }),
     reset: Flags.boolean({
       char: 'r',
       description: 'Reset all stored credentials'
@@ -79,13 +138,32 @@ export default class Login extends Command {
 
     let config = this.loadConfig();
 
+    // GitHub Enterprise Server
+    if (flags['github-api-url']) {
+      config.githubApiUrl = flags['github-api-url'];
+      this.log('✅ GitHub Enterprise Server URL updated');
+    }
+
+    // GitHub App
+    if (flags['github-app-id']) {
+      const keyPath = flags['github-app-private-key'];
+      if (!existsSync(keyPath)) {
+        this.error(`GitHub App private key not found: ${keyPath}`);
+      }
+      config.githubAppId = flags['github-app-id'];
+      config.githubAppInstallationId = flags['github-app-installation-id'];
+      config.githubAppPrivateKey = readFileSync(keyPath, 'utf8');
+      this.log('✅ GitHub App credentials updated');
+    }
+
     // GitHub Token
     if (flags['github-token']) {
       config.githubToken = flags['github-token'];
       this.log('✅ GitHub token updated');
-    } else if (!config.githubToken) {
+    } else if (!config.githubToken && !config.githubAppId) {
+      const githubHost = config.githubApiUrl ? config.githubApiUrl.replace(/\/api\/v3\/?$/, '').replace(/\/+$/, '') : 'https://github.com';
       this.log('📋 GitHub Personal Access Token Setup:');
-      this.log('   1. Go to: https://github.com/settings/tokens');
+      this.log(`   1. Go to: ${githubHost}/settings/tokens`);
       this.log('   2. Click "Generate new token (classic)"');
       this.log('   3. Select scopes: repo:read, admin:org');
       this.log('   4. Copy the token and paste below');
@@ -138,6 +216,22 @@ export default class Login extends Command {
       }
     }
 
+    // Zendesk (optional, flag-only)
+    if (flags['zendesk-subdomain']) {
+      config.zendeskSubdomain = flags['zendesk-subdomain'];
+      config.zendeskEmail = flags['zendesk-email'];
+      config.zendeskApiToken = flags['zendesk-token'];
+      this.log('✅ Zendesk credentials updated');
+    }
+
+    // Auth0 (optional, flag-only)
+    if (flags['auth0-domain']) {
+      config.auth0Domain = flags['auth0-domain'];
+      config.auth0ClientId = flags['auth0-client-id'];
+      config.auth0ClientSecret = flags['auth0-client-secret'];
+      this.log('✅ Auth0 credentials updated');
+    }
+
     // Archive Password
     if (flags['archive-password']) {
       config.archivePassword = flags['archive-password'];
@@ -156,6 +250,17 @@ export default class Login extends Command {
       }
     }
 
+    // Provider secrets
+    for (const entry of flags.secret || []) {
+      const separator = entry.indexOf('=');
+      const name = separator > 0 ? entry.slice(0, separator) : '';
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        this.error(`Invalid --secret "${entry}"; expected NAME=VALUE`);
+      }
+      config.secrets = { ...config.secrets, [name]: entry.slice(separator + 1) };
+      this.log(`✅ Secret ${name} updated`);
+    }
+
     // Save encrypted configuration
     config.lastUpdated = new Date().toISOString();
     if (!config.createdAt) {
@@ -270,10 +375,15 @@ export default class Login extends Command {
     
     this.log('🔐 AutoPrivacy CLI Configuration');
     this.log('');
-    this.log('GitHub Token:', config.githubToken ? '✅ Configured (ghp_***...)' : '❌ Not configured');
+    this.log('GitHub Token:', config.githubToken ? '✅ Configured (ghp_***...)' : config.githubAppId ? '⏭️  Not configured (using GitHub App)' : '❌ Not configured');
+    this.log('GitHub App:', config.githubAppId ? `✅ Configured (app ${config.githubAppId}, installation ${config.githubAppInstallationId})` : '⏭️  Not configured (optional)');
+    this.log('GitHub API URL:', config.githubApiUrl || 'https://api.github.com');
     this.log('OpenAI API Key:', config.openaiApiKey ? '✅ Configured (sk-***...)' : '❌ Not configured');
     this.log('Stripe Secret Key:', config.stripeSecretKey ? '✅ Configured (sk_***...)' : '⏭️  Not configured (optional)');
+    this.log('Zendesk:', config.zendeskSubdomain ? `✅ Configured (${config.zendeskSubdomain}.zendesk.com as ${config.zendeskEmail})` : '⏭️  Not configured (optional)');
+    this.log('Auth0:', config.auth0Domain ? `✅ Configured (${config.auth0Domain}, client ${config.auth0ClientId})` : '⏭️  Not configured (optional)');
     this.log('Archive Password:', config.archivePassword ? '✅ Configured' : '❌ Not configured');
+    this.log('Provider Secrets:', config.secrets && Object.keys(config.secrets).length ? Object.keys(config.secrets).join(', ') : '⏭️  None (optional)');
     this.log('');
     this.log('Created:', config.createdAt);
     this.log('Last Updated:', config.lastUpdated);
@@ -319,9 +429,20 @@ export default class Login extends Command {
       
       const env: { [key: string]: string } = {};
       if (config.githubToken) env.GITHUB_TOKEN = config.githubToken;
+      if (config.githubApiUrl) env.GITHUB_API_URL = config.githubApiUrl;
+      if (config.githubAppId) env.GITHUB_APP_ID = config.githubAppId;
+      if (config.githubAppInstallationId) env.GITHUB_APP_INSTALLATION_ID = config.githubAppInstallationId;
+      if (config.githubAppPrivateKey) env.GITHUB_APP_PRIVATE_KEY = config.githubAppPrivateKey;
       if (config.openaiApiKey) env.OPENAI_API_KEY = config.openaiApiKey;
       if (config.stripeSecretKey) env.STRIPE_SECRET_KEY = config.stripeSecretKey;
+      if (config.zendeskSubdomain) env.ZENDESK_SUBDOMAIN = config.zendeskSubdomain;
+      if (config.zendeskEmail) env.ZENDESK_EMAIL = config.zendeskEmail;
+      if (config.zendeskApiToken) env.ZENDESK_API_TOKEN = config.zendeskApiToken;
+      if (config.auth0Domain) env.AUTH0_DOMAIN = config.auth0Domain;
+      if (config.auth0ClientId) env.AUTH0_CLIENT_ID = config.auth0ClientId;
+      if (config.auth0ClientSecret) env.AUTH0_CLIENT_SECRET = config.auth0ClientSecret;
       if (config.archivePassword) env.ARCHIVE_PW = config.archivePassword;
+      Object.assign(env, config.secrets);
       
       return env;
     } catch (error) {
@@ -0,0 +1,143 @@
+import { Flags } from '@oclif/core';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadProvidersConfig } from '../providers/config.js';
+import { createDefaultRegistry } from '../providers/registry.js';
+import { ArchiveCreator } from '../utils/archive.js';
+import {
+    RECTIFIABLE_FIELDS,
+    RectificationEvidenceBuilder,
+    RectificationPlan,
+    buildRectificationPlan,
+    describeRectificationChange,
+    executeRectificationPlan,
+    validateCorrections
+} from '../utils/rectification.js';
+import { SubjectCommand, encryptedConfig, providerFlags, subjectFlags } from '../subjectCommand.js';
+
+export default class Rectify extends SubjectCommand {
+    static description = 'Correct a data subject\'s records (GDPR Art. 16) after reviewing their current values';
+
+    static flags = {
+        ...subjectFlags,
+        ...providerFlags,
+        set: Flags.string({ multiple: true, required: true, description: `Corrected value as field=value (repeatable); fields: ${RECTIFIABLE_FIELDS.join(', ')}` }),
+        dryRun: Flags.boolean({ description: 'Show the current and corrected values without changing anything' }),
+        confirm: Flags.string({ description: 'Confirm the changes non-interactively by passing the subject\'s primary email' }),
+    };
+
+    async run() {
+        const { flags } = await this.parse(Rectify);
+        const subject = this.buildSubject(flags);
+
+        let corrections: Record<string, string>;
+        try {
+            corrections = validateCorrections(this.parseKeyValueFlags('set', flags.set)!);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+
+        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
+        if (!archivePassword && !flags.dryRun) {
+            this.log('❌ Archive password not found!');
+            this.log('💡 Run: autopv login');
+            this.log('   Or set ARCHIVE_PW environment variable');
+            throw new Error('Archive password required to protect the rectification evidence record');
+        }
+
+        this.log(`👉  Planning rectification for ${subject.email}`);
+
+        const attachmentDir = mkdtempSync(join(tmpdir(), 'autopv-attachments-'));
+        try {
+            const selection = createDefaultRegistry().createProviders({
+                env: process.env,
+                config: loadProvidersConfig(flags.config, process.env),
+                attachmentDir,
+                githubOrgs: flags.githubOrg,
+                githubAllOrgs: flags.githubAllOrgs,
+                stripeConnect: flags.stripeConnect,
+                stripeAccounts: flags.stripeAccount,
+                stripeMetadata: this.parseKeyValueFlags('stripeMetadata', flags.stripeMetadata)
+            });
+
+            for (const factory of selection.missingRequired) {
+                this.log(`❌ ${factory.displayName} credentials not found!`);
+                for (const hint of factory.setupHint || []) {
+                    this.log(`💡 ${hint}`);
+                }
+                throw new Error(`${factory.displayName} credentials required for rectification`);
+            }
+
+            const plan = await buildRectificationPlan(selection.providers, subject, corrections);
+            this.logPlan(plan);
+
+            if (flags.dryRun) {
+                this.log('\n🧪 Dry run: nothing was changed');
+                return;
+            }
+            if (!plan.providers.some(provider => provider.changes.length > 0)) {
+                this.log('\n✅ Nothing to change');
+                return;
+            }
+
+            await this.confirmSubject(subject.email, flags.confirm, 'Type {email} to apply these changes');
+
+            this.log('\n✏️  Applying changes...');
+            const report = await executeRectificationPlan(plan, selection.providers, (change, outcome) => {
+                this.log(outcome.status === 'updated'
+                    ? `   ✅ ${change.target} ${change.field}`
+                    : `   ❌ ${change.target} ${change.field}: ${outcome.error}`);
+            });
+
+            // Before and after values are personal data, so the record is delivered encrypted like evidence packs
+            const evidence = await new RectificationEvidenceBuilder().generate(report);
+            const timestamp = report.executedAt.replace(/[:.]/g, '-');
+            const emailSafe = subject.email.replace(/[^a-zA-Z0-9]/g, '_');
+            const archiver = new ArchiveCreator('.', archivePassword!);
+            let archive;
+            try {
+                archive = await archiver.createEncryptedArchive(evidence.filesCreated, `rectification_record_${emailSafe}_${timestamp}.zip`);
+            } finally {
+                // The unencrypted record must not be left behind, even when archiving fails
+                archiver.cleanupOriginalFiles(evidence.filesCreated);
+            }
+            if (!archive.success) {
+                throw new Error(`Archive creation failed: ${archive.error}`);
+            }
+
+            this.log(`\n📊 Updated ${report.summary.updated}, failed ${report.summary.failed}`);
+            this.log(`🔒 Rectification record: ${archive.archivePath}`);
+
+            if (report.summary.failed > 0) {
+                this.log('⚠️  Some changes failed; rerun rectify once the errors above are resolved');
+                this.exit(1);
+            }
+            this.log('🎉 Rectification complete!');
+        } finally {
+            rmSync(attachmentDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Print each record's current and corrected values
+     */
+    private logPlan(plan: RectificationPlan): void {
+        this.log('\n📋 Changes:');
+        for (const provider of plan.providers) {
+            this.log(`\n   ${provider.displayName}`);
+            if (provider.changes.length === 0) {
+                this.log('      No records to change');
+            }
+            for (const change of provider.changes) {
+                this.log(`      ✏️  ${describeRectificationChange(change)}`);
+            }
+        }
+        for (const field of plan.unchanged) {
+            this.log(`\n   ℹ️  ${field}: no record holds a different value`);
+        }
+        for (const name of plan.unsupported) {
+            this.log(`\n   ⚠️  ${name}: no automated updates; correct its records manually`);
+        }
+    }
+}
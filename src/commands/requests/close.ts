@@ -0,0 +1,32 @@
+import { Args, Flags } from '@oclif/core';
+import { CLOSE_OUTCOMES, CloseOutcome } from '../../utils/requests.js';
+import { RequestCommand } from '../../requestCommand.js';
+
+export default class RequestsClose extends RequestCommand {
+    static description = 'Close a request, recording its outcome and whether it was answered on time';
+
+    static args = {
+        id: Args.string({ required: true, description: 'Request ID, such as DSAR-2026-0001' }),
+    };
+
+    static flags = {
+        outcome: Flags.string({ required: true, options: [...CLOSE_OUTCOMES], description: 'How the request ended' }),
+        note: Flags.string({ description: 'Note kept with the closed request, such as the grounds for a refusal' }),
+    };
+
+    async run() {
+        const { args, flags } = await this.parse(RequestsClose);
+
+        let request;
+        try {
+            request = this.openStore().close(args.id, flags.outcome as CloseOutcome, flags.note);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+
+        this.log(request.closure!.onTime
+            ? `✅ Closed request ${request.id} on time\n`
+            : `⚠️  Closed request ${request.id} after its deadline\n`);
+        this.logRequest(request);
+    }
+}
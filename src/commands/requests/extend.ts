@@ -0,0 +1,28 @@
+import { Args, Flags } from '@oclif/core';
+import { RequestCommand } from '../../requestCommand.js';
+
+export default class RequestsExtend extends RequestCommand {
+    static description = 'Extend a request\'s deadline by two further months (Art. 12(3)); the subject must be told why within the first month';
+
+    static args = {
+        id: Args.string({ required: true, description: 'Request ID, such as DSAR-2026-0001' }),
+    };
+
+    static flags = {
+        reason: Flags.string({ required: true, description: 'Reason for the extension, as given to the data subject' }),
+    };
+
+    async run() {
+        const { args, flags } = await this.parse(RequestsExtend);
+
+        let request;
+        try {
+            request = this.openStore().extend(args.id, flags.reason);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+
+        this.log(`📅 Extended request ${request.id} to ${request.extension!.deadline}\n`);
+        this.logRequest(request);
+    }
+}
@@ -0,0 +1,37 @@
+import { Flags } from '@oclif/core';
+import { daysRemaining } from '../../utils/requests.js';
+import { RequestCommand } from '../../requestCommand.js';
+
+export default class RequestsList extends RequestCommand {
+    static description = 'List tracked data subject requests by deadline, flagging overdue ones';
+
+    static flags = {
+        all: Flags.boolean({ char: 'a', description: 'Include closed requests' }),
+        email: Flags.string({ char: 'e', description: 'Only requests from this data subject' }),
+        failOnOverdue: Flags.boolean({ description: 'Exit with 1 when any listed request is overdue, for scheduled checks' }),
+    };
+
+    async run() {
+        const { flags } = await this.parse(RequestsList);
+
+        const requests = this.openStore().list()
+            .filter(request => flags.all || request.status === 'open')
+            .filter(request => !flags.email || request.subject.toLowerCase() === flags.email.toLowerCase());
+        if (requests.length === 0) {
+            this.log(flags.all ? 'No requests tracked yet' : 'No open requests');
+            return;
+        }
+
+        for (const request of requests) {
+            this.logRequest(request);
+            this.log('');
+        }
+
+        const open = requests.filter(request => request.status === 'open');
+        const overdue = open.filter(request => daysRemaining(request) < 0);
+        this.log(`📊 ${open.length} open, ${overdue.length} overdue`);
+        if (flags.failOnOverdue && overdue.length > 0) {
+            this.exit(1);
+        }
+    }
+}
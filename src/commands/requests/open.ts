@@ -0,0 +1,51 @@
+import { Flags } from '@oclif/core';
+import { REQUEST_TYPES, RequestType, VERIFICATION_STATUSES, VerificationStatus } from '../../utils/requests.js';
+import { RequestCommand } from '../../requestCommand.js';
+
+export default class RequestsOpen extends RequestCommand {
+    static description = 'Start tracking a data subject request and its Art. 12(3) response deadline';
+
+    static examples = [
+        '$ autopv requests open --type access --email jane@company.com',
+        '$ autopv requests open --type erasure --email jane@company.com --received 2026-10-01 --verification verified --method "Signed-in account"'
+    ];
+
+    static flags = {
+        type: Flags.string({ char: 't', required: true, options: [...REQUEST_TYPES], description: 'Right the subject is exercising' }),
+        email: Flags.string({ char: 'e', required: true, description: 'Primary email of the data subject' }),
+        received: Flags.string({ description: 'Date the request was received (ISO 8601, defaults to today)' }),
+        verification: Flags.string({ options: [...VERIFICATION_STATUSES], default: 'pending', description: 'Identity verification status' }),
+        method: Flags.string({ description: 'How the identity was verified' }),
+        notes: Flags.string({ description: 'Free-text notes, such as the channel the request arrived through' }),
+    };
+
+    async run() {
+        const { flags } = await this.parse(RequestsOpen);
+
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(flags.email)) {
+            this.error(`Invalid email: ${flags.email}`);
+        }
+        const receivedAt = flags.received ? new Date(flags.received) : new Date();
+        if (isNaN(receivedAt.getTime())) {
+            this.error(`Invalid --received date: ${flags.received}`);
+        }
+
+        let request;
+        try {
+            request = this.openStore().create({
+                type: flags.type as RequestType,
+                subject: flags.email,
+                receivedAt,
+                verification: flags.verification as VerificationStatus,
+                verificationMethod: flags.method,
+                notes: flags.notes
+            });
+        } catch (error: any) {
+            this.error(error.message);
+        }
+
+        this.log(`📝 Opened request ${request.id}\n`);
+        this.logRequest(request);
+        this.log(`\n💡 Attach the evidence pack with: autopv generate --request ${request.id}`);
+    }
+}
@@ -0,0 +1,29 @@
+import { Args, Flags } from '@oclif/core';
+import { RequestCommand } from '../../requestCommand.js';
+
+export default class RequestsVerify extends RequestCommand {
+    static description = 'Record the outcome of the identity check for a request';
+
+    static args = {
+        id: Args.string({ required: true, description: 'Request ID, such as DSAR-2026-0001' }),
+    };
+
+    static flags = {
+        failed: Flags.boolean({ description: 'The identity could not be verified' }),
+        method: Flags.string({ char: 'm', required: true, description: 'How the identity was checked, or why the check failed' }),
+    };
+
+    async run() {
+        const { args, flags } = await this.parse(RequestsVerify);
+
+        let request;
+        try {
+            request = this.openStore().verify(args.id, flags.failed ? 'failed' : 'verified', flags.method);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+
+        this.log(`🪪  Identity ${request.verification.status} for request ${request.id}\n`);
+        this.logRequest(request);
+    }
+}
@@ -0,0 +1,119 @@
+import { Flags } from '@oclif/core';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadProvidersConfig } from '../providers/config.js';
+import { createDefaultRegistry } from '../providers/registry.js';
+import { ArchiveCreator } from '../utils/archive.js';
+import { SourceVerification, loadErasureRecord, verifyErasure } from '../utils/erasureVerification.js';
+import { DEFAULT_SIGNING_KEY_PATH, loadSigningKey, signReport } from '../utils/signing.js';
+import { SubjectCommand, encryptedConfig, providerFlags } from '../subjectCommand.js';
+
+export default class VerifyErasure extends SubjectCommand {
+    static description = 'Verify an erasure by looking the subject up again and writing a signed verification report';
+
+    static flags = {
+        ...providerFlags,
+        record: Flags.string({ char: 'r', required: true, description: 'Erasure report (.json from the erasure record archive) to verify' }),
+        signingKey: Flags.string({ default: DEFAULT_SIGNING_KEY_PATH, description: 'Ed25519 private key (PEM, encrypted with the archive password) used to sign the report; created if missing' }),
+    };
+
+    async run() {
+        const { flags } = await this.parse(VerifyErasure);
+
+        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
+        if (!archivePassword) {
+            this.log('❌ Archive password not found!');
+            this.log('💡 Run: autopv login');
+            this.log('   Or set ARCHIVE_PW environment variable');
+            throw new Error('Archive password required to sign and protect the verification report');
+        }
+
+        let record;
+        try {
+            record = loadErasureRecord(flags.record);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+        const subject = record.plan.subject;
+        this.log(`👉  Verifying erasure for ${subject.email} (erased ${record.executedAt})`);
+
+        const attachmentDir = mkdtempSync(join(tmpdir(), 'autopv-attachments-'));
+        try {
+            const selection = createDefaultRegistry().createProviders({
+                env: process.env,
+                config: loadProvidersConfig(flags.config, process.env),
+                attachmentDir,
+                githubOrgs: flags.githubOrg,
+                githubAllOrgs: flags.githubAllOrgs,
+                stripeConnect: flags.stripeConnect,
+                stripeAccounts: flags.stripeAccount,
+                stripeMetadata: this.parseKeyValueFlags('stripeMetadata', flags.stripeMetadata)
+            });
+
+            for (const factory of selection.missingRequired) {
+                this.log(`❌ ${factory.displayName} credentials not found!`);
+                for (const hint of factory.setupHint || []) {
+                    this.log(`💡 ${hint}`);
+                }
+                throw new Error(`${factory.displayName} credentials required for verification`);
+            }
+
+            const report = await verifyErasure(selection.providers, record);
+
+            this.log('\n🔎 Sources:');
+            for (const source of report.sources) {
+                this.logSource(source);
+            }
+            for (const name of report.unchecked) {
+                this.log(`   ⚠️  ${name}: erased but not configured for this verification`);
+            }
+
+            const signed = signReport(report, loadSigningKey(archivePassword, flags.signingKey));
+            const timestamp = report.verifiedAt.replace(/[:.]/g, '-');
+            const emailSafe = subject.email.replace(/[^a-zA-Z0-9]/g, '_');
+            const reportPath = join(attachmentDir, `erasure_verification_${emailSafe}_${timestamp}.json`);
+            writeFileSync(reportPath, JSON.stringify(signed, null, 2));
+
+            const archive = await new ArchiveCreator('.', archivePassword)
+                .createEncryptedArchive([reportPath], `erasure_verification_${emailSafe}_${timestamp}.zip`);
+            if (!archive.success) {
+                throw new Error(`Archive creation failed: ${archive.error}`);
+            }
+
+            this.log(`\n📊 Empty ${report.summary.empty}, retained ${report.summary.retained}, holding data ${report.summary['holding-data']}, failed ${report.summary.failed}`);
+            this.log(`✍️  Signed with Ed25519 key ${signed.signature.keyFingerprint}`);
+            this.log(`🔒 Verification report: ${archive.archivePath}`);
+
+            if (!report.verified) {
+                this.log('⚠️  Subject data remains outside a stated exemption, or a source could not be checked; resolve it and verify again');
+                this.exit(1);
+            }
+            this.log('🎉 Erasure verified!');
+        } finally {
+            rmSync(attachmentDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Print a source's verification status
+     */
+    private logSource(source: SourceVerification): void {
+        if (source.status === 'empty') {
+            this.log(`   ✅ ${source.displayName}: no data found`);
+        } else if (source.status === 'retained') {
+            this.log(`   📦 ${source.displayName}: retained under exemption`);
+            for (const exemption of source.exemptions) {
+                this.log(`      ${exemption.target}: ${exemption.reason}`);
+            }
+        } else if (source.status === 'failed') {
+            this.log(`   ❌ ${source.displayName}: could not be checked: ${source.error}`);
+        } else {
+            const counts = source.uncovered.map(target => `${target} (${source.remaining[target]}${target in source.before ? ` of ${source.before[target]}` : ''})`);
+            this.log(`   ❌ ${source.displayName}: still holding ${counts.join(', ')}`);
+        }
+        for (const target of source.failedDeletions) {
+            this.log(`      ⚠️  Deletion of ${target} failed during the erasure`);
+        }
+    }
+}
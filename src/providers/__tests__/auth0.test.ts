@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Auth0Provider } from '../auth0.js';
+
+const user = {
+  user_id: 'auth0|abc',
+  email: 'jane@company.com',
+  email_verified: true,
+  name: 'Jane Doe',
+  identities: [
+    { provider: 'auth0', user_id: 'abc', connection: 'Username-Password-Authentication' },
+    { provider: 'google-oauth2', user_id: '1234', connection: 'google-oauth2' }
+  ]
+};
+
+function route(url: URL): any {
+  const path = decodeURIComponent(url.pathname);
+  if (path === '/api/v2/users-by-email') {
+    const email = url.searchParams.get('email');
+    if (email === 'Joe.Doe@Company.com') return [{ user_id: 'auth0|joe', email }];
+    return email === 'jane@company.com' ? [user] : [];
+  }
+  if (path === '/api/v2/users/auth0|abc/roles') {
+    return { roles: [{ id: 'rol_1', name: 'Admin' }], total: 1 };
+  }
+  if (path === '/api/v2/users/auth0|abc/authentication-methods') {
+    return { authenticators: [{ id: 'totp|dev_1', type: 'totp', confirmed: true }], total: 1 };
+  }
+  if (path === '/api/v2/users/auth0|abc/logs') {
+    const page = Number(url.searchParams.get('page'));
+    const logs = page === 0
+      ? Array.from({ length: 100 }, (_, i) => ({ log_id: `l${i}`, type: i % 2 ? 's' : 'sapi' }))
+      : [{ log_id: 'l100', type: 'f' }];
+    return { logs, total: 101 };
+  }
+  if (path === '/api/v2/users/auth0|abc/sessions') {
+    return url.searchParams.get('from')
+      ? { sessions: [{ id: 's2' }] }
+      : { sessions: [{ id: 's1', device: { initial_user_agent: 'Firefox' } }], next: 'cp1' };
+  }
+  return undefined;
+}
+
+describe('Auth0Provider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+      const url = new URL(input);
+      if (url.pathname === '/oauth/token') {
+        return Response.json({ access_token: 'mgmt-token', token_type: 'Bearer' });
+      }
+      const body = route(url);
+      return body === undefined
+        ? new Response('{}', { status: 404, statusText: 'Not Found' })
+        : Response.json(body);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createProvider = () => new Auth0Provider({ domain: 'https://acme.eu.auth0.com/', clientId: 'id', clientSecret: 'secret' });
+
+  it('should resolve the user by email with a management token', async () => {
+    const matches = await createProvider().identifySubject({ email: 'Jane@Company.com' });
+
+    expect(matches).toEqual([expect.objectContaining({ identifier: 'auth0|abc', confidence: 'high' })]);
+    const [tokenUrl, tokenInit] = fetchMock.mock.calls[0];
+    expect(tokenUrl).toBe('https://acme.eu.auth0.com/oauth/token');
+    expect(JSON.parse(tokenInit.body).audience).toBe('https://acme.eu.auth0.com/api/v2/');
+    expect(fetchMock.mock.calls[1][1].headers.authorization).toBe('Bearer mgmt-token');
+  });
+
+  it('should look up the email as given and lowercased, keeping each user once', async () => {
+    const matches = await createProvider().identifySubject({ email: 'Jane@Company.com', emails: ['Joe.Doe@Company.com'] });
+
+    expect(matches.map(match => match.identifier)).toEqual(['auth0|abc', 'auth0|joe']);
+    const lookups = fetchMock.mock.calls
+      .map(([input]) => new URL(input))
+      .filter(url => url.pathname === '/api/v2/users-by-email')
+      .map(url => url.searchParams.get('email'));
+    expect(lookups).toEqual(['Jane@Company.com', 'jane@company.com', 'Joe.Doe@Company.com', 'joe.doe@company.com']);
+  });
+
+  it('should export identities, roles, MFA, logs and sessions', async () => {
+    const provider = createProvider();
+    const subject = { email: 'jane@company.com' };
+
+    await provider.identifySubject(subject);
+    const result = await provider.exportData(subject);
+
+    expect(result.identities.map(identity => identity.provider)).toEqual(['auth0', 'google-oauth2']);
+    expect(result.roles).toEqual([{ id: 'rol_1', name: 'Admin' }]);
+    expect(result.authenticationMethods).toHaveLength(1);
+    expect(result.loginEvents).toHaveLength(51);
+    expect(result.auditEvents).toHaveLength(50);
+    expect(result.sessions.map(session => session.id)).toEqual(['s1', 's2']);
+    expect(provider.countRecords(result)).toEqual({
+      users: 1, identities: 2, roles: 1, authenticationMethods: 1, loginEvents: 51, auditEvents: 50, sessions: 2
+    });
+    // The token is requested once and reused
+    expect(fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/oauth/token'))).toHaveLength(1);
+  });
+
+  it('should renew the token before it expires and after a 401', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      let issued = 0;
+      let revoked = false;
+      fetchMock.mockImplementation(async (input: string, init?: RequestInit) => {
+        const url = new URL(input);
+        if (url.pathname === '/oauth/token') {
+          issued++;
+          return Response.json({ access_token: `token-${issued}`, expires_in: 3600 });
+        }
+        if (revoked && (init?.headers as any).authorization === 'Bearer token-2') {
+          return new Response('{}', { status: 401, statusText: 'Unauthorized' });
+        }
+        return Response.json(route(url));
+      });
+      const provider = createProvider();
+
+      await provider.identifySubject({ email: 'jane@company.com' });
+      await provider.identifySubject({ email: 'jane@company.com' });
+      expect(issued).toBe(1);
+
+      vi.setSystemTime(Date.now() + 3600 * 1000);
+      await provider.identifySubject({ email: 'jane@company.com' });
+      expect(issued).toBe(2);
+
+      revoked = true;
+      expect(await provider.identifySubject({ email: 'jane@company.com' })).toHaveLength(1);
+      expect(issued).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report unknown subjects and unavailable endpoints', async () => {
+    const missing = await createProvider().exportData({ email: 'nobody@company.com' });
+    expect(missing.notices).toEqual(['No Auth0 user found with email: nobody@company.com']);
+
+    fetchMock.mockImplementation(async (input: string) => {
+      const url = new URL(input);
+      if (url.pathname === '/oauth/token') return Response.json({ access_token: 'mgmt-token' });
+      if (url.pathname.endsWith('/sessions')) return new Response('{}', { status: 403, statusText: 'Forbidden' });
+      return Response.json(route(url));
+    });
+    const result = await createProvider().exportData({ email: 'jane@company.com' });
+    expect(result.notices).toEqual(['Auth0 sessions for auth0|abc could not be listed: Auth0 API error: 403 Forbidden (/api/v2/users/auth0%7Cabc/sessions)']);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { FileProvider, expandGlob, globToRegExp, needlePattern, parseCsvLine } from '../files.js';
+
+const subject = { email: 'jane@company.com' };
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), 'autopv-files-'));
+  mkdirSync(join(directory, 'logs', '2024'), { recursive: true });
+
+  writeFileSync(join(directory, 'logs', 'app.log'), [
+    '2024-01-02T10:00:00Z INFO login ok user=Jane@Company.com',
+    '2024-01-02T10:05:00Z INFO login ok user=bob@company.com',
+    '2024-03-01T08:00:00Z WARN password reset user=jane@company.com'
+  ].join('\n'));
+  writeFileSync(join(directory, 'logs', '2024', 'events.ndjson.gz'), gzipSync([
+    JSON.stringify({ ts: 1704189600, email: 'jane@company.com', event: 'signup' }),
+    JSON.stringify({ ts: 1704189700, email: 'bob@company.com', event: 'signup' })
+  ].join('\n')));
+  writeFileSync(join(directory, 'export.csv'), 'id,email,note\n1,jane@company.com,"likes ""tea"", coffee"\n2,bob@company.com,\n');
+  writeFileSync(join(directory, 'users.json'), JSON.stringify([{ email: 'bob@company.com' }, { email: 'jane@company.com', created_at: '2023-12-01' }]));
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('globToRegExp', () => {
+  it('should translate globstars, wildcards and alternatives', () => {
+    const matcher = globToRegExp('/var/log/**/*.{log,log.gz}');
+
+    expect(matcher.test('/var/log/app.log')).toBe(true);
+    expect(matcher.test('/var/log/a/b/app.log.gz')).toBe(true);
+    expect(matcher.test('/var/log/app.txt')).toBe(false);
+  });
+});
+
+describe('parseCsvLine', () => {
+  it('should handle quoted fields with commas and escaped quotes', () => {
+    expect(parseCsvLine('1,"a, ""b""",')).toEqual(['1', 'a, "b"', '']);
+  });
+});
+
+describe('needlePattern', () => {
+  it('should only match identifiers as whole tokens', () => {
+    const pattern = needlePattern(['an@x.com', 'u-42'])!;
+
+    expect(pattern.test('login user=AN@x.com ok')).toBe(true);
+    expect(pattern.test('{"id":"u-42"}')).toBe(true);
+    expect(pattern.test('login user=dan@x.com')).toBe(false);
+    expect(pattern.test('login user=jo.an@x.com')).toBe(false);
+    expect(pattern.test('login user=an@x.community')).toBe(false);
+    expect(pattern.test('{"id":"u-421"}')).toBe(false);
+    expect(needlePattern([])).toBeNull();
+  });
+});
+
+describe('expandGlob', () => {
+  it('should only descend as deep as the pattern without a globstar', async () => {
+    expect(await expandGlob(join(directory, 'logs', '*'))).toEqual([`${directory}/logs/app.log`]);
+    expect(await expandGlob(join(directory, 'logs', '**', '*'))).toHaveLength(2);
+  });
+});
+
+describe('FileProvider', () => {
+  it('should return matching records with file, line and timestamp', async () => {
+    const provider = new FileProvider([
+      { name: 'logs', paths: [join(directory, 'logs', '**', '*')] },
+      { name: 'exports', paths: [join(directory, '*.csv'), join(directory, '*.json')] }
+    ]);
+
+    const result = await provider.exportData(subject);
+
+    expect(result.records.logs).toEqual([
+      expect.objectContaining({ file: `${directory}/logs/2024/events.ndjson.gz`, line: 1, timestamp: '2024-01-02T10:00:00.000Z' }),
+      expect.objectContaining({ file: `${directory}/logs/app.log`, line: 1, timestamp: '2024-01-02T10:00:00Z' }),
+      expect.objectContaining({ file: `${directory}/logs/app.log`, line: 3, timestamp: '2024-03-01T08:00:00Z' })
+    ]);
+    expect(result.records.exports).toEqual([
+      { file: `${directory}/export.csv`, line: 2, timestamp: null, record: { id: '1', email: 'jane@company.com', note: 'likes "tea", coffee' } },
+      { file: `${directory}/users.json`, line: null, index: 1, timestamp: '2023-12-01', record: { email: 'jane@company.com', created_at: '2023-12-01' } }
+    ]);
+    expect(provider.countRecords(result)).toEqual({ logs: 3, exports: 2 });
+    expect(result.filesScanned).toBe(4);
+  });
+
+  it('should apply the date range and match limit', async () => {
+    const provider = new FileProvider(
+      [{ name: 'logs', paths: [join(directory, 'logs', '*.log')], maxMatches: 1 }],
+      { since: '2024-01-01T00:00:00Z' }
+    );
+
+    const result = await provider.exportData(subject);
+    expect(result.records.logs).toHaveLength(1);
+    expect(result.notices).toEqual(['File source logs stopped after 1 matching records']);
+
+    const ranged = await new FileProvider(
+      [{ name: 'logs', paths: [join(directory, 'logs', '*.log')] }],
+      { since: '2024-02-01T00:00:00Z' }
+    ).exportData(subject);
+    expect(ranged.records.logs.map(match => match.line)).toEqual([3]);
+  });
+
+  it('should search alias emails and opted-in identifiers', async () => {
+    const provider = new FileProvider([
+      { name: 'logs', paths: [join(directory, 'logs', '*.log')], identifiers: ['userId'] }
+    ]);
+    const aliases = { email: 'nobody@company.com', emails: ['nobody@company.com', 'bob@company.com'], userIds: ['reset'] };
+
+    const result = await provider.exportData(aliases);
+    expect(result.records.logs.map(match => match.line)).toEqual([2, 3]);
+  });
+
+  it('should only report identifiers that records mention', async () => {
+    const provider = new FileProvider([
+      { name: 'logs', paths: [join(directory, 'logs', '*.log')], identifiers: ['userId'] }
+    ]);
+    const aliases = { email: 'nobody@company.com', emails: ['nobody@company.com', 'bob@company.com'], userIds: ['reset', 'u-404'] };
+
+    const matches = await provider.identifySubject(aliases);
+    expect(matches.map(match => `${match.kind}:${match.identifier}`)).toEqual(['email:bob@company.com', 'userId:reset']);
+    expect(matches[0].evidence).toBe(`Mentioned in ${directory}/logs/app.log line 2`);
+    expect((await provider.exportData(aliases)).records.logs.map(match => match.line)).toEqual([2, 3]);
+  });
+
+  it('should not return records of nearby addresses', async () => {
+    writeFileSync(join(directory, 'nearby.log'), 'login user=dan@company.com\nlogin user=an@company.com\n');
+    const provider = new FileProvider([{ name: 'nearby', paths: [join(directory, 'nearby.log')] }]);
+
+    const result = await provider.exportData({ email: 'an@company.com' });
+    expect(result.records.nearby.map(match => match.line)).toEqual([2]);
+  });
+
+  it('should skip gzipped JSON documents that inflate past the size limit', async () => {
+    const file = join(directory, 'huge.json.gz');
+    writeFileSync(file, gzipSync(Buffer.alloc(51 * 1024 * 1024, ' ')));
+    const provider = new FileProvider([{ name: 'huge', paths: [file] }]);
+
+    const result = await provider.exportData(subject);
+    expect(result.records.huge).toEqual([]);
+    expect(result.notices).toEqual([`File ${file} is too large to parse as a JSON document; store it as NDJSON instead`]);
+  });
+
+  it('should report sources that match no files', async () => {
+    const provider = new FileProvider([{ name: 'missing', paths: [join(directory, 'nope', '*.log')] }]);
+
+    const result = await provider.exportData(subject);
+    expect(result.notices).toEqual(['File source missing matched no files']);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitHubProvider } from '../github.js';
+
+function emptyActivity(repository?: string) {
+  return {
+    issues: repository ? [{ repository, url: '', createdAt: '', number: 1, title: 'Bug', state: 'open', body: null, labels: [], closedAt: null }] : [],
+    pullRequests: [],
+    issueComments: [],
+    reviews: [],
+    reviewComments: [],
+    discussions: [],
+    discussionComments: [],
+    reactions: [],
+    notices: repository ? [] : ['Discussions are disabled']
+  };
+}
+
+function createProvider(options: any, octokit: any = {}) {
+  const provider = new GitHubProvider('ghp_test', options);
+  (provider as any).octokit = {
+    paginate: Object.assign(vi.fn(), { iterator: () => (async function* () { yield { data: [{ id: 'evt_1' }] }; })() }),
+    rest: { activity: { listPublicEventsForUser: vi.fn() } },
+    ...octokit
+  };
+  (provider as any).auditExporter = {
+    exportAuditLog: vi.fn(async (org: string) => ({
+      entries: [{ org, action: 'org.add_member' }],
+      auditLog: { status: 'exported', phrases: [], entries: 1 }
+    }))
+  };
+  (provider as any).activityExporter = {
+    exportActivity: vi.fn(async (_login: string, org: string) => emptyActivity(org === 'acme' ? 'acme/api' : undefined))
+  };
+  (provider as any).identityResolver = {
+    resolve: vi.fn(async (email: string, org?: string) => ({
+      email,
+      org,
+      login: 'jdoe',
+      confidence: 'high',
+      matches: [{ login: 'jdoe', method: 'verified-domain-email', confidence: 'high', evidence: `Member of ${org}` }],
+      attempts: []
+    }))
+  };
+  return provider;
+}
+
+describe('GitHubProvider', () => {
+  it('should export audit log and activity per organization', async () => {
+    const provider = createProvider({ orgs: ['acme', 'acme-oss'] });
+    const subject = { email: 'jane@acme.com' };
+
+    const matches = await provider.identifySubject(subject);
+    const result = await provider.exportData(subject, matches);
+
+    expect(Object.keys(result.organizations)).toEqual(['acme', 'acme-oss']);
+    expect(result.organizations.acme.audit).toEqual([{ org: 'acme', action: 'org.add_member' }]);
+    expect(result.organizations.acme.issues).toHaveLength(1);
+    expect(result.organizations['acme-oss'].issues).toHaveLength(0);
+    expect(result.events).toEqual([{ id: 'evt_1' }]);
+    expect(result.notices).toEqual(['acme-oss: Discussions are disabled']);
+    expect(provider.countRecords(result)).toMatchObject({ events: 1, audit: 2, issues: 1 });
+  });
+
+  it('should stop resolving an email once one organization matches it', async () => {
+    const provider = createProvider({ orgs: ['acme', 'acme-oss'] });
+    await provider.identifySubject({ email: 'jane@acme.com' });
+
+    expect((provider as any).identityResolver.resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should export public activity only without an organization', async () => {
+    const provider = createProvider({});
+    const subject = { email: 'jane@acme.com' };
+
+    const result = await provider.exportData(subject, await provider.identifySubject(subject));
+
+    expect(result.organizations).toEqual({});
+    expect(result.events).toHaveLength(1);
+    expect(result.notices).toContain('No GitHub organization was given or discovered; only public activity was exported');
+    expect((provider as any).identityResolver.resolve).toHaveBeenCalledWith('jane@acme.com', undefined);
+  });
+
+  it('should discover organizations, falling back to installation repositories', async () => {
+    const listForAuthenticatedUser = vi.fn();
+    const listReposAccessibleToInstallation = vi.fn();
+    const paginate = vi.fn(async (route: any) => {
+      if (route === listForAuthenticatedUser) throw Object.assign(new Error('Forbidden'), { status: 403 });
+      return [
+        { owner: { login: 'acme', type: 'Organization' } },
+        { owner: { login: 'acme', type: 'Organization' } },
+        { owner: { login: 'jdoe', type: 'User' } }
+      ];
+    });
+    const provider = createProvider({ orgs: ['acme-oss'], discoverOrgs: true }, {
+      paginate,
+      rest: { orgs: { listForAuthenticatedUser }, apps: { listReposAccessibleToInstallation } }
+    });
+
+    expect(await provider.getOrganizations()).toEqual(['acme-oss', 'acme']);
+    expect(paginate).toHaveBeenCalledWith(listReposAccessibleToInstallation, { per_page: 100 });
+  });
+
+  describe('erasure', () => {
+    function membershipOctokit(memberships: Record<string, any>) {
+      return {
+        rest: {
+          activity: { listPublicEventsForUser: vi.fn() },
+          orgs: {
+            getMembershipForUser: vi.fn(async ({ org }: any) => {
+              if (!memberships[org]) throw Object.assign(new Error('Not Found'), { status: 404 });
+              return { data: memberships[org] };
+            }),
+            removeMembershipForUser: vi.fn(async ({ org }: any) => {
+              if (org === 'acme-oss') throw Object.assign(new Error('Must have admin rights'), { status: 403 });
+            })
+          }
+        }
+      };
+    }
+
+    it('should plan membership removals and retain audit logs and contributions', async () => {
+      const provider = createProvider({ orgs: ['acme', 'acme-oss', 'other'] }, membershipOctokit({
+        acme: { state: 'active', role: 'member' },
+        'acme-oss': { state: 'pending', role: 'member' }
+      }));
+      const subject = { email: 'jane@acme.com' };
+
+      const actions = await provider.planErasure(subject, await provider.identifySubject(subject));
+
+      expect(actions.filter(action => action.type === 'delete').map(action => action.description)).toEqual([
+        'Remove jdoe (member) from acme, ending their access to its repositories',
+        'Cancel the pending invitation of jdoe to acme-oss'
+      ]);
+      expect(actions.filter(action => action.type === 'retain').map(action => action.target)).toEqual([
+        'acme audit log', 'acme-oss audit log', 'other audit log', 'Contributions by jdoe'
+      ]);
+      expect(actions.every(action => action.type === 'delete' || action.reason)).toBe(true);
+    });
+
+    it('should only remove memberships of supplied or high-confidence logins', async () => {
+      const provider = createProvider({ orgs: ['acme'] }, membershipOctokit({ acme: { state: 'active', role: 'member' } }));
+      (provider as any).identityResolver.resolve = vi.fn(async (email: string, org?: string) => ({
+        email,
+        org,
+        login: 'jane-dev',
+        confidence: 'medium',
+        matches: [{ login: 'jane-dev', method: 'commit-author', confidence: 'medium', evidence: 'Authored commits as jane@acme.com' }],
+        attempts: []
+      }));
+      const subject = { email: 'jane@acme.com', githubLogins: ['jdoe'] };
+
+      const actions = await provider.planErasure(subject, await provider.identifySubject(subject));
+
+      const deletions = actions.filter(action => action.type === 'delete');
+      expect(deletions.map(action => action.target)).toEqual(['jdoe in acme']);
+      expect(deletions[0].match).toEqual({ method: 'supplied', confidence: 'high' });
+      expect(actions.filter(action => action.type === 'retain').map(action => action.target)).toEqual([
+        'acme audit log', 'Contributions by jdoe', 'Contributions by jane-dev'
+      ]);
+    });
+
+    it('should report each membership removal separately', async () => {
+      const octokit = membershipOctokit({});
+      const provider = createProvider({ orgs: ['acme', 'acme-oss'] }, octokit);
+      const actions = ['acme', 'acme-oss'].map(org => ({
+        id: `github:membership:${org}:jdoe`,
+        providerId: 'github',
+        type: 'delete' as const,
+        target: `jdoe in ${org}`,
+        description: '',
+        params: { org, login: 'jdoe' }
+      }));
+
+      const outcomes = await provider.executeErasure({ email: 'jane@acme.com' }, [], actions);
+
+      expect(octokit.rest.orgs.removeMembershipForUser).toHaveBeenCalledWith({ org: 'acme', username: 'jdoe' });
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['deleted', 'failed']);
+      expect(outcomes[1].error).toBe('Must have admin rights');
+    });
+  });
+});
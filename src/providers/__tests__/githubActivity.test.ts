@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitHubActivityExporter, groupActivityByRepository } from '../githubActivity.js';
+
+function searchItem(repo: string, number: number, pull = false) {
+  return {
+    number,
+    title: `Item ${number}`,
+    state: 'open',
+    body: 'body',
+    labels: [{ name: 'bug' }],
+    html_url: `https://github.com/${repo}/issues/${number}`,
+    repository_url: `https://api.github.com/repos/${repo}`,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-02T00:00:00Z',
+    closed_at: null,
+    pull_request: pull ? { merged_at: '2025-01-03T00:00:00Z' } : undefined
+  };
+}
+
+function createOctokit() {
+  const search = vi.fn();
+  const listComments = vi.fn();
+  const listReviews = vi.fn();
+  const listReviewComments = vi.fn();
+  const listForIssue = vi.fn();
+
+  const responses = new Map<any, (params: any) => any[]>([
+    [listComments, () => [
+      { user: { login: 'jdoe' }, html_url: 'https://github.com/acme/api/issues/2#c1', created_at: '2025-01-05T00:00:00Z', updated_at: '2025-01-05T00:00:00Z', body: 'mine' },
+      { user: { login: 'other' }, html_url: 'https://github.com/acme/api/issues/2#c2', created_at: '2025-01-05T00:00:00Z', updated_at: '2025-01-05T00:00:00Z', body: 'theirs' }
+    ]],
+    [listReviews, () => [{ user: { login: 'jdoe' }, html_url: 'r1', submitted_at: '2025-01-06T00:00:00Z', state: 'APPROVED', body: '' }]],
+    [listReviewComments, () => [{ user: { login: 'jdoe' }, html_url: 'rc1', created_at: '2025-01-06T00:00:00Z', updated_at: '2025-01-06T00:00:00Z', path: 'src/a.ts', line: 3, body: 'nit' }]],
+    [listForIssue, () => [{ user: { login: 'jdoe' }, content: '+1', created_at: '2025-01-07T00:00:00Z' }]]
+  ]);
+
+  const searchResults: Record<string, any[]> = {
+    'org:acme author:jdoe': [searchItem('acme/api', 1), searchItem('acme/web', 5, true)],
+    'org:acme commenter:jdoe': [searchItem('acme/api', 2)],
+    'org:acme is:pr reviewed-by:jdoe': [searchItem('acme/web', 9, true)]
+  };
+
+  return {
+    rest: {
+      search: { issuesAndPullRequests: search },
+      issues: { listComments },
+      pulls: { listReviews, listReviewComments },
+      reactions: { listForIssue }
+    },
+    paginate: Object.assign(
+      vi.fn(async (method: any, params: any) => responses.get(method)!(params)),
+      {
+        iterator: (_method: any, params: any) => (async function* () {
+          const data: any = [...(searchResults[params.q] || [])];
+          data.total_count = data.length;
+          yield { data };
+        })()
+      }
+    ),
+    graphql: vi.fn(async () => ({
+      search: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] }
+    }))
+  } as any;
+}
+
+describe('GitHubActivityExporter', () => {
+  it('should export authored issues, pull requests, comments, reviews and reactions', async () => {
+    const exporter = new GitHubActivityExporter(createOctokit());
+    const activity = await exporter.exportActivity('jdoe', 'acme');
+
+    expect(activity.issues).toHaveLength(1);
+    expect(activity.issues[0]).toMatchObject({ repository: 'acme/api', number: 1, labels: ['bug'] });
+    expect(activity.pullRequests).toHaveLength(1);
+    expect(activity.pullRequests[0].mergedAt).toBe('2025-01-03T00:00:00Z');
+    expect(activity.issueComments).toHaveLength(1);
+    expect(activity.issueComments[0].body).toBe('mine');
+    expect(activity.reviews[0]).toMatchObject({ repository: 'acme/web', pullNumber: 9, state: 'APPROVED' });
+    expect(activity.reviewComments[0].path).toBe('src/a.ts');
+    // One reaction per distinct thread the user took part in
+    expect(activity.reactions).toHaveLength(4);
+  });
+
+  it('should page through long discussions and their replies', async () => {
+    const comment = (id: string, author: string, replies: any = { pageInfo: { hasNextPage: false }, nodes: [] }) => ({
+      id, body: id, url: `https://github.com/acme/api/discussions/3#${id}`, createdAt: '2025-01-08T00:00:00Z', updatedAt: '2025-01-08T00:00:00Z', author: { login: author }, replies
+    });
+    const octokit = createOctokit();
+    octokit.graphql = vi.fn(async (_query: string, variables: any) => {
+      if (variables.query === 'org:acme commenter:jdoe') {
+        return { search: { pageInfo: { hasNextPage: false }, nodes: [{
+          id: 'D_3', number: 3, title: 'Roadmap', body: '', url: 'https://github.com/acme/api/discussions/3',
+          author: { login: 'other' }, category: null, repository: { nameWithOwner: 'acme/api' },
+          comments: { pageInfo: { hasNextPage: true, endCursor: 'c1' }, nodes: [comment('c1', 'other', {
+            pageInfo: { hasNextPage: true, endCursor: 'r1' },
+            nodes: [comment('r1', 'other')]
+          })] }
+        }] } };
+      }
+      if (variables.id === 'D_3') {
+        return { node: { comments: { pageInfo: { hasNextPage: false }, nodes: [comment('c2', 'jdoe')] } } };
+      }
+      if (variables.id === 'c1') {
+        return { node: { replies: { pageInfo: { hasNextPage: false }, nodes: [comment('r2', 'jdoe')] } } };
+      }
+      return { search: { pageInfo: { hasNextPage: false }, nodes: [] } };
+    });
+
+    const activity = await new GitHubActivityExporter(octokit).exportActivity('jdoe', 'acme');
+
+    expect(activity.discussionComments.map(({ body, replyTo }) => ({ body, replyTo }))).toEqual([
+      { body: 'c2', replyTo: undefined },
+      { body: 'r2', replyTo: 'https://github.com/acme/api/discussions/3#c1' }
+    ]);
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('replies(first: 100'), { id: 'c1', cursor: 'r1' });
+  });
+
+  it('should record every item with repository, URL and timestamp', async () => {
+    const exporter = new GitHubActivityExporter(createOctokit());
+    const activity = await exporter.exportActivity('jdoe', 'acme');
+
+    for (const record of [...activity.issues, ...activity.issueComments, ...activity.reviews]) {
+      expect(record.repository).toMatch(/^acme\//);
+      expect(record.url).toBeTruthy();
+      expect(record.createdAt).toBeTruthy();
+    }
+  });
+});
+
+describe('groupActivityByRepository', () => {
+  it('should count records per repository and section', () => {
+    const groups = groupActivityByRepository({
+      issues: [{ repository: 'acme/api' }, { repository: 'acme/web' }],
+      issueComments: [{ repository: 'acme/api' }, { repository: 'acme/api' }],
+      events: [{ type: 'PushEvent' }],
+      notices: ['ignored']
+    });
+
+    expect(groups).toEqual({
+      'acme/api': { issues: 1, issueComments: 2 },
+      'acme/web': { issues: 1 }
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitHubAuditExporter, buildAuditPhrases } from '../githubAudit.js';
+
+describe('buildAuditPhrases', () => {
+  it('should query the user as actor and as affected user', () => {
+    expect(buildAuditPhrases({ login: 'jdoe' })).toEqual(['actor:jdoe', 'user:jdoe']);
+  });
+
+  it('should add a created range', () => {
+    expect(buildAuditPhrases({
+      login: 'jdoe',
+      since: '2024-01-01T00:00:00.000Z',
+      until: '2024-06-30T00:00:00.000Z'
+    })).toEqual(['actor:jdoe created:2024-01-01..2024-06-30', 'user:jdoe created:2024-01-01..2024-06-30']);
+
+    expect(buildAuditPhrases({ login: 'jdoe', since: '2024-01-01T00:00:00.000Z' })[0]).toBe('actor:jdoe created:>=2024-01-01');
+    expect(buildAuditPhrases({ login: 'jdoe', until: '2024-01-01T00:00:00.000Z' })[0]).toBe('actor:jdoe created:<=2024-01-01');
+  });
+});
+
+describe('GitHubAuditExporter', () => {
+  it('should page through every matching entry without a cap and dedupe', async () => {
+    const pages: Record<string, any[][]> = {
+      'actor:jdoe': Array.from({ length: 8 }, (_, page) =>
+        Array.from({ length: 100 }, (_, i) => ({ _document_id: `a-${page}-${i}`, '@timestamp': page * 100 + i }))
+      ),
+      'user:jdoe': [[{ _document_id: 'a-0-0', '@timestamp': 0 }, { _document_id: 'u-1', '@timestamp': 5000 }]]
+    };
+    const octokit = {
+      paginate: {
+        iterator: (_route: string, params: any) => (async function* () {
+          for (const data of pages[params.phrase]) yield { data };
+        })()
+      }
+    } as any;
+
+    const result = await new GitHubAuditExporter(octokit).exportAuditLog('acme', { login: 'jdoe' });
+
+    expect(result.entries).toHaveLength(801);
+    expect(result.auditLog).toMatchObject({ status: 'exported', entries: 801 });
+  });
+
+  it('should record a missing admin:org scope instead of failing', async () => {
+    const octokit = {
+      paginate: {
+        iterator: vi.fn(() => (async function* () {
+          throw Object.assign(new Error('Resource not accessible by integration'), { status: 403 });
+        })())
+      }
+    } as any;
+
+    const result = await new GitHubAuditExporter(octokit).exportAuditLog('acme', { login: 'jdoe' });
+
+    expect(result.entries).toEqual([]);
+    expect(result.auditLog.status).toBe('unavailable');
+    expect(result.auditLog.reason).toContain('admin:org');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitHubCommitExporter, matchCommitRoles } from '../githubCommits.js';
+
+const emails = new Set(['jane@company.com', 'jane@users.noreply.github.com']);
+
+describe('matchCommitRoles', () => {
+  it('should match author and committer emails case-insensitively', () => {
+    const roles = matchCommitRoles({
+      author: { email: 'Jane@Company.com' },
+      committer: { email: 'jane@users.noreply.github.com' },
+      message: 'Fix bug'
+    }, emails);
+
+    expect(roles).toEqual(['author', 'committer']);
+  });
+
+  it('should match co-author trailers', () => {
+    const roles = matchCommitRoles({
+      author: { email: 'bob@company.com' },
+      committer: { email: 'noreply@github.com' },
+      message: 'Pair on feature\n\nCo-authored-by: Jane Doe <jane@company.com>\nCo-Authored-By: Eve <eve@company.com>'
+    }, emails);
+
+    expect(roles).toEqual(['co-author']);
+  });
+
+  it('should return no roles for unrelated commits', () => {
+    const roles = matchCommitRoles({
+      author: { email: 'bob@company.com' },
+      committer: null,
+      message: 'Unrelated'
+    }, emails);
+
+    expect(roles).toEqual([]);
+  });
+});
+
+describe('GitHubCommitExporter', () => {
+  it('should walk every branch of the org repositories within the date range', async () => {
+    const listForOrg = vi.fn();
+    const listBranches = vi.fn();
+    const listCommits = vi.fn();
+    const commit = (sha: string, email: string, message: string) => ({
+      sha, html_url: `https://github.com/acme/api/commit/${sha}`, commit: { author: { email, date: '2025-02-01T00:00:00Z' }, committer: null, message }
+    });
+    const iterator = vi.fn((_method: any, params: any) => (async function* () {
+      if (params.repo === 'empty') {
+        throw Object.assign(new Error('Git Repository is empty.'), { status: 409 });
+      }
+      yield {
+        data: params.sha === 'main'
+          ? [commit('abc', 'jane@company.com', 'Add API'), commit('def', 'bob@company.com', 'Other')]
+          : [commit('123', 'jane@company.com', 'Try caching'), commit('abc', 'jane@company.com', 'Add API')]
+      };
+    })());
+
+    const octokit = {
+      rest: { repos: { listForOrg, listBranches, listCommits } },
+      paginate: Object.assign(
+        vi.fn(async (method: any) => method === listBranches
+          ? [{ name: 'main' }, { name: 'feature/cache' }]
+          : [
+            { name: 'api', full_name: 'acme/api', owner: { login: 'acme' } },
+            { name: 'empty', full_name: 'acme/empty', owner: { login: 'acme' } }
+          ]),
+        { iterator }
+      )
+    } as any;
+
+    const result = await new GitHubCommitExporter(octokit).exportCommits('acme', {
+      emails: ['jane@company.com'],
+      since: '2025-01-01T00:00:00.000Z'
+    });
+
+    expect(result.repositoriesScanned).toBe(2);
+    expect(result.commits).toEqual([{
+      repository: 'acme/api',
+      url: 'https://github.com/acme/api/commit/abc',
+      createdAt: '2025-02-01T00:00:00Z',
+      sha: 'abc',
+      message: 'Add API',
+      roles: ['author']
+    }, {
+      repository: 'acme/api',
+      url: 'https://github.com/acme/api/commit/123',
+      createdAt: '2025-02-01T00:00:00Z',
+      sha: '123',
+      message: 'Try caching',
+      roles: ['author']
+    }]);
+    expect(result.notices).toEqual([]);
+    expect(iterator.mock.calls[0][1]).toMatchObject({ sha: 'main', since: '2025-01-01T00:00:00.000Z', until: undefined });
+    expect(iterator.mock.calls[1][1]).toMatchObject({ sha: 'feature/cache' });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitHubIdentityResolver } from '../githubIdentity.js';
+
+function createOctokit(overrides: {
+  externalIdentities?: any[] | null;
+  members?: any[];
+  commits?: any[];
+  users?: any[];
+} = {}) {
+  const graphql = vi.fn(async (query: string) => {
+    if (query.includes('samlIdentityProvider')) {
+      if (overrides.externalIdentities === null) {
+        return { organization: { samlIdentityProvider: null } };
+      }
+      return {
+        organization: {
+          samlIdentityProvider: {
+            externalIdentities: {
+              pageInfo: { hasNextPage: false, endCursor: null },
+              nodes: overrides.externalIdentities || []
+            }
+          }
+        }
+      };
+    }
+    return {
+      organization: {
+        membersWithRole: {
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: overrides.members || []
+        }
+      }
+    };
+  });
+
+  return {
+    graphql,
+    rest: {
+      search: {
+        commits: vi.fn(async () => ({ data: { items: overrides.commits || [] } })),
+        users: vi.fn(async () => ({ data: { items: overrides.users || [] } }))
+      }
+    }
+  } as any;
+}
+
+describe('GitHubIdentityResolver', () => {
+  it('should match a SAML identity with high confidence', async () => {
+    const octokit = createOctokit({
+      externalIdentities: [{
+        samlIdentity: { nameId: 'Jane@Company.com', emails: [] },
+        scimIdentity: null,
+        user: { login: 'jane-doe' }
+      }]
+    });
+
+    const resolution = await new GitHubIdentityResolver(octokit).resolve('jane@company.com', 'acme');
+
+    expect(resolution.login).toBe('jane-doe');
+    expect(resolution.confidence).toBe('high');
+    expect(resolution.matches[0].method).toBe('saml-identity');
+    expect(octokit.rest.search.commits).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to verified-domain emails when the org has no SAML provider', async () => {
+    const octokit = createOctokit({
+      externalIdentities: null,
+      members: [
+        { login: 'someone-else', email: null, organizationVerifiedDomainEmails: ['other@company.com'] },
+        { login: 'jane-doe', email: null, organizationVerifiedDomainEmails: ['jane@company.com'] }
+      ]
+    });
+
+    const resolution = await new GitHubIdentityResolver(octokit).resolve('jane@company.com', 'acme');
+
+    expect(resolution.login).toBe('jane-doe');
+    expect(resolution.matches[0].method).toBe('verified-domain-email');
+    expect(resolution.attempts.find(a => a.method === 'saml-identity')?.status).toBe('unavailable');
+  });
+
+  it('should use commit authorship as a medium confidence match', async () => {
+    const octokit = createOctokit({
+      commits: [{ author: { login: 'jdoe' } }, { author: { login: 'jdoe' } }, { author: null }]
+    });
+
+    const resolution = await new GitHubIdentityResolver(octokit).resolve('jane@company.com', 'acme');
+
+    expect(resolution.login).toBe('jdoe');
+    expect(resolution.confidence).toBe('medium');
+    expect(resolution.matches[0].evidence).toContain('2 commit(s)');
+  });
+
+  it('should skip org strategies without an organization', async () => {
+    const octokit = createOctokit({ users: [{ login: 'janedoe' }] });
+
+    const resolution = await new GitHubIdentityResolver(octokit).resolve('jane@example.com');
+
+    expect(octokit.graphql).not.toHaveBeenCalled();
+    expect(resolution.attempts.filter(a => a.status === 'skipped')).toHaveLength(4);
+    expect(resolution.login).toBe('janedoe');
+    expect(resolution.confidence).toBe('low');
+  });
+
+  it('should not treat an ambiguous user search as a match', async () => {
+    const octokit = createOctokit({ users: [{ login: 'a' }, { login: 'b' }] });
+
+    const resolution = await new GitHubIdentityResolver(octokit).resolve('jane@example.com');
+
+    expect(resolution.login).toBeNull();
+    expect(resolution.matches).toHaveLength(0);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpProvider, HttpSourceConfig, parseNextLink } from '../http.js';
+
+const requests: IncomingMessage[] = [];
+
+function route(request: IncomingMessage): { status: number; body?: unknown; headers?: Record<string, string> } {
+  const url = new URL(request.url!, 'http://localhost');
+
+  if (url.pathname === '/users/search') {
+    return url.searchParams.get('email') === 'jane@company.com'
+      ? { status: 200, body: { users: [{ id: 42 }] } }
+      : { status: 200, body: { users: [] } };
+  }
+  if (url.pathname === '/users/42/tickets') {
+    const cursor = url.searchParams.get('cursor');
+    return cursor === 'c2'
+      ? { status: 200, body: { tickets: [{ id: 3 }], meta: { next: null } } }
+      : { status: 200, body: { tickets: [{ id: 1 }, { id: 2 }], meta: { next: 'c2' } } };
+  }
+  if (url.pathname === '/users/42/events') {
+    const page = Number(url.searchParams.get('page'));
+    return { status: 200, body: page <= 2 ? [{ page }] : [] };
+  }
+  if (url.pathname === '/users/42/files') {
+    return { status: 200, body: { files: ['a.txt'] }, headers: { link: `<${baseUrl.replace('127.0.0.1', 'localhost')}/users/42/files?after=1>; rel="next"` } };
+  }
+  if (url.pathname === '/broken/search') {
+    return { status: 400 };
+  }
+  if (url.pathname === '/users/42/notes') {
+    return url.searchParams.get('after') === '1'
+      ? { status: 200, body: { notes: ['second'] } }
+      : { status: 200, body: { notes: ['first'] }, headers: { link: `<${baseUrl}/users/42/notes?after=1>; rel="next"` } };
+  }
+  return { status: 404 };
+}
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(request);
+    const { status, body, headers } = route(request);
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(body === undefined ? '{}' : JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function createSource(): HttpSourceConfig {
+  return {
+    name: 'helpdesk',
+    baseUrl,
+    auth: { type: 'bearer', token: 'secret-token' },
+    identify: [{ name: 'userId', url: '/users/search', query: { email: '{email}' }, path: '$.users[*].id' }],
+    endpoints: [
+      {
+        name: 'tickets',
+        url: '/users/{userId}/tickets',
+        pagination: { type: 'cursor', cursorPath: '$.meta.next', param: 'cursor' },
+        records: [{ name: 'tickets', label: 'Helpdesk Tickets', path: '$.tickets[*]' }]
+      },
+      {
+        name: 'events',
+        url: '/users/{userId}/events',
+        pagination: { type: 'page', param: 'page', start: 1 },
+        records: [{ name: 'events', path: '$[*]' }]
+      },
+      {
+        name: 'notes',
+        url: '/users/{userId}/notes',
+        pagination: { type: 'link' },
+        records: [{ name: 'notes', path: '$.notes[*]' }]
+      }
+    ]
+  };
+}
+
+describe('parseNextLink', () => {
+  it('should extract the next URL from a Link header', () => {
+    expect(parseNextLink('<https://api.example.com/x?page=1>; rel="prev", <https://api.example.com/x?page=3>; rel="next"'))
+      .toBe('https://api.example.com/x?page=3');
+    expect(parseNextLink(null)).toBeUndefined();
+  });
+});
+
+describe('HttpProvider', () => {
+  it('should identify the subject and follow every pagination strategy', async () => {
+    const provider = new HttpProvider([createSource()]);
+    const subject = { email: 'jane@company.com' };
+
+    const matches = await provider.identifySubject(subject);
+    expect(matches).toEqual([expect.objectContaining({ identifier: '42', kind: 'userId', method: 'http:helpdesk' })]);
+
+    const result = await provider.exportData(subject, matches);
+    expect(result.records['helpdesk.tickets']).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(result.records['helpdesk.events']).toEqual([{ page: 1 }, { page: 2 }]);
+    expect(result.records['helpdesk.notes']).toEqual(['first', 'second']);
+    expect(provider.countRecords(result)).toEqual({ 'helpdesk.tickets': 3, 'helpdesk.events': 2, 'helpdesk.notes': 2 });
+    expect(requests.every(request => request.headers.authorization === 'Bearer secret-token')).toBe(true);
+  });
+
+  it('should export nothing when the subject is unknown', async () => {
+    const provider = new HttpProvider([createSource()]);
+    const subject = { email: 'nobody@company.com' };
+
+    const result = await provider.exportData(subject, await provider.identifySubject(subject));
+    expect(provider.countRecords(result)).toEqual({ 'helpdesk.tickets': 0, 'helpdesk.events': 0, 'helpdesk.notes': 0 });
+  });
+
+  it('should stop at maxPages and report it', async () => {
+    const source = createSource();
+    source.endpoints = [{ ...source.endpoints[1], maxPages: 1 }];
+    const provider = new HttpProvider([source]);
+
+    const result = await provider.exportData({ email: 'jane@company.com' }, [
+      { providerId: 'http', identifier: '42', kind: 'userId', method: 'http:helpdesk', confidence: 'high' }
+    ]);
+    expect(result.records['helpdesk.events']).toEqual([{ page: 1 }]);
+    expect(result.notices).toEqual(['HTTP endpoint helpdesk.events stopped after 1 pages']);
+  });
+
+  it('should not follow next page URLs to another host', async () => {
+    const source = createSource();
+    source.endpoints = [{ name: 'files', url: '/users/{userId}/files', pagination: { type: 'link' }, records: [{ name: 'files', path: '$.files[*]' }] }];
+    const provider = new HttpProvider([source]);
+    requests.length = 0;
+
+    const result = await provider.exportData({ email: 'jane@company.com' }, [
+      { providerId: 'http', identifier: '42', kind: 'userId', method: 'http:helpdesk', confidence: 'high' }
+    ]);
+    expect(result.records['helpdesk.files']).toEqual(['a.txt']);
+    expect(result.notices).toEqual([expect.stringMatching(/^HTTP endpoint helpdesk\.files stopped: the next page is on another host \(http:\/\/localhost:\d+\)$/)]);
+    expect(requests.map(request => request.url)).toEqual(['/users/42/files']);
+  });
+
+  it('should report failed identify requests as notices, like failed endpoints', async () => {
+    const source = createSource();
+    source.identify = [{ name: 'userId', url: '/broken/search', query: { email: '{email}' }, path: '$.users[*].id' }];
+    const provider = new HttpProvider([source]);
+    const subject = { email: 'jane@company.com' };
+
+    const matches = await provider.identifySubject(subject);
+    expect(matches).toEqual([]);
+
+    const result = await provider.exportData(subject, matches);
+    expect(result.notices).toEqual(['HTTP source helpdesk identify "userId" failed: 400 Bad Request']);
+    expect(provider.countRecords(result)).toEqual({ 'helpdesk.tickets': 0, 'helpdesk.events': 0, 'helpdesk.notes': 0 });
+  });
+
+  it('should report unknown template variables as notices', async () => {
+    const provider = new HttpProvider([{
+      name: 'crm',
+      baseUrl,
+      endpoints: [{ name: 'contacts', url: '/contacts', query: { owner: '{accountId}' }, records: [{ name: 'contacts', path: '$[*]' }] }]
+    }]);
+
+    const result = await provider.exportData({ email: 'jane@company.com' }, []);
+    expect(result.notices).toEqual(['HTTP endpoint crm.contacts references unknown variables: accountId']);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ProviderRegistry, createDefaultRegistry, runProviderExport } from '../registry.js';
+import { DataSourceProvider, ProviderFactory } from '../types.js';
+
+const fakeProvider: DataSourceProvider<{ tickets: string[] }> = {
+  id: 'helpdesk',
+  displayName: 'Helpdesk',
+  identifySubject: async (subject) => [{
+    providerId: 'helpdesk',
+    identifier: subject.email,
+    kind: 'email',
+    method: 'lookup',
+    confidence: 'high'
+  }],
+  exportData: async () => ({ tickets: ['T-1', 'T-2'] }),
+  describeDataCategories: () => [
+    { key: 'tickets', label: 'Helpdesk Tickets', description: 'Support tickets' }
+  ],
+  countRecords: (result) => ({ tickets: result.tickets.length })
+};
+
+const fakeFactory: ProviderFactory = {
+  id: 'helpdesk',
+  displayName: 'Helpdesk',
+  icon: '🎫',
+  isConfigured: (options) => Boolean(options.env.HELPDESK_TOKEN),
+  create: () => fakeProvider
+};
+
+describe('ProviderRegistry', () => {
+  it('should register the built-in providers by default', () => {
+    const registry = createDefaultRegistry();
+
+    expect(registry.list().map(f => f.id)).toEqual(['github', 'stripe', 'zendesk', 'auth0', 'sql', 'http', 'files', 's3']);
+  });
+
+  it('should create only configured providers', () => {
+    const registry = new ProviderRegistry().register(fakeFactory);
+
+    expect(registry.createProviders({ env: {} }).providers).toHaveLength(0);
+    expect(registry.createProviders({ env: {} }).skipped).toEqual([fakeFactory]);
+    expect(registry.createProviders({ env: { HELPDESK_TOKEN: 'x' } }).providers).toHaveLength(1);
+  });
+
+  it('should report required providers that are not configured', () => {
+    const registry = createDefaultRegistry();
+    const selection = registry.createProviders({ env: {} });
+
+    expect(selection.missingRequired.map(f => f.id)).toEqual(['github']);
+    expect(selection.skipped.map(f => f.id)).toEqual(['stripe', 'zendesk', 'auth0', 'sql', 'http', 'files', 's3']);
+  });
+
+  it('should replace a factory registered with the same id', () => {
+    const registry = createDefaultRegistry().register({ ...fakeFactory, id: 'stripe' });
+
+    expect(registry.list()).toHaveLength(8);
+    expect(registry.get('stripe')?.displayName).toBe('Helpdesk');
+  });
+});
+
+describe('runProviderExport', () => {
+  it('should identify the subject, export and count records', async () => {
+    const result = await runProviderExport(fakeProvider, { email: 'user@example.com' });
+
+    expect(result.providerId).toBe('helpdesk');
+    expect(result.matches[0].identifier).toBe('user@example.com');
+    expect(result.counts).toEqual({ tickets: 2 });
+    expect(result.data.tickets).toEqual(['T-1', 'T-2']);
+  });
+
+  it('should only pass on attachments with a downloaded file', async () => {
+    const result = await runProviderExport({
+      ...fakeProvider,
+      exportData: async () => ({
+        tickets: [],
+        notices: ['Ticket T-3 could not be read'],
+        attachments: [
+          { name: 'helpdesk/screenshot.png', path: '/tmp/screenshot.png', size: 10 },
+          { id: 42, fileName: 'invoice.pdf', url: 'https://helpdesk.example.com/files/42' }
+        ]
+      }) as any
+    }, { email: 'user@example.com' });
+
+    expect(result.attachments).toEqual([{ name: 'helpdesk/screenshot.png', path: '/tmp/screenshot.png', size: 10 }]);
+    expect(result.notices).toEqual([
+      'Ticket T-3 could not be read',
+      '1 attachments without a downloaded file were left out of the archive'
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import {
+  CreateBucketCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { S3Provider, S3SourceConfig, renderPrefixes } from '../s3.js';
+
+const subject = { email: 'jane@company.com', identifiers: { userId: ['42'] } };
+
+const stored: Record<string, { body: string; metadata: Record<string, string> }> = {
+  'users/42/avatar.png': { body: 'png-bytes', metadata: {} },
+  'users/42/exports/': { body: '', metadata: {} },
+  'users/42/exports/2024.csv': { body: 'id,total\n1,10\n', metadata: { source: 'billing' } },
+  'users/7/avatar.png': { body: 'other', metadata: {} },
+  'users/421/avatar.png': { body: 'other', metadata: {} },
+  'shared/contract.pdf': { body: 'pdf-bytes', metadata: { owner: 'Jane@Company.com' } }
+};
+
+function createClient(): any {
+  return {
+    send: vi.fn(async (command: any) => {
+      const input = command.input;
+      if (command instanceof ListObjectsV2Command) {
+        const keys = Object.keys(stored).filter(key => key.startsWith(input.Prefix));
+        return {
+          Contents: keys.map(key => ({ Key: key, Size: stored[key].body.length, ETag: '"abc"', LastModified: new Date('2024-01-01T00:00:00Z') })),
+          IsTruncated: false
+        };
+      }
+      if (command instanceof HeadObjectCommand) {
+        return { ContentType: 'application/octet-stream', Metadata: stored[input.Key].metadata };
+      }
+      if (command instanceof GetObjectCommand) {
+        return { Body: Readable.from([stored[input.Key].body]) };
+      }
+      throw new Error(`Unexpected command ${command.constructor.name}`);
+    })
+  };
+}
+
+describe('renderPrefixes', () => {
+  it('should expand a template once per identifier value', () => {
+    expect(renderPrefixes('users/{userId}/', { userId: ['1', '2'] })).toEqual(['users/1/', 'users/2/']);
+    expect(renderPrefixes('tenants/{tenantId}/', { userId: ['1'] })).toEqual([]);
+  });
+});
+
+describe('S3Provider', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'autopv-s3-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should list, describe and download the subject objects', async () => {
+    const source: S3SourceConfig = {
+      name: 'uploads',
+      bucket: 'customer-uploads',
+      prefixes: ['users/{userId}/'],
+      metadataSearch: { prefix: 'shared/', keys: ['owner'] }
+    };
+    const provider = new S3Provider([source], directory, createClient);
+
+    const result = await provider.exportData(subject);
+
+    expect(result.objects.uploads.map(object => [object.key, object.matchedBy])).toEqual([
+      ['users/42/avatar.png', 'prefix:users/42/'],
+      ['users/42/exports/2024.csv', 'prefix:users/42/'],
+      ['shared/contract.pdf', 'metadata:owner']
+    ]);
+    expect(result.objects.uploads[1]).toEqual(expect.objectContaining({
+      size: 14,
+      etag: 'abc',
+      lastModified: '2024-01-01T00:00:00.000Z',
+      metadata: { source: 'billing' },
+      attachment: 'attachments/uploads/users/42/exports/2024.csv'
+    }));
+    expect(result.attachments).toHaveLength(3);
+    const contract = result.attachments.find(attachment => attachment.name === 'attachments/uploads/shared/contract.pdf')!;
+    expect(contract.path.startsWith(directory)).toBe(true);
+    expect(readFileSync(contract.path, 'utf8')).toBe('pdf-bytes');
+    expect(provider.countRecords(result)).toEqual({ uploads: 3 });
+  });
+
+  it('should only report identifiers objects were found for', async () => {
+    const source: S3SourceConfig = {
+      name: 'uploads',
+      bucket: 'customer-uploads',
+      prefixes: ['users/{userId}/', 'exports/{email}/'],
+      metadataSearch: { prefix: 'shared/', keys: ['owner'] }
+    };
+    const client = createClient();
+    const provider = new S3Provider([source], directory, () => client);
+
+    const matches = await provider.identifySubject(subject);
+    expect(matches.map(match => [match.kind, match.identifier, match.method])).toEqual([
+      ['userId', '42', 'key-template'],
+      ['email', 'jane@company.com', 'object-metadata']
+    ]);
+
+    // Export reuses the objects located during identification
+    const listed = client.send.mock.calls.filter(([command]: any[]) => command instanceof ListObjectsV2Command).length;
+    const result = await provider.exportData(subject);
+    expect(provider.countRecords(result)).toEqual({ uploads: 3 });
+    expect(client.send.mock.calls.filter(([command]: any[]) => command instanceof ListObjectsV2Command)).toHaveLength(listed);
+
+    expect(await new S3Provider([{ name: 'uploads', bucket: 'b', prefixes: ['users/{userId}/'] }], directory, createClient)
+      .identifySubject({ email: 'joe@company.com', identifiers: { userId: ['99'] } })).toEqual([]);
+  });
+
+  it('should not match longer keys for a prefix template without a trailing slash', async () => {
+    const provider = new S3Provider([{ name: 'uploads', bucket: 'b', prefixes: ['users/{userId}'], download: false }], directory, createClient);
+
+    const result = await provider.exportData(subject);
+    expect(result.objects.uploads.map(object => object.key)).toEqual(['users/42/avatar.png', 'users/42/exports/2024.csv']);
+  });
+
+  it('should record metadata only and respect the byte limit', async () => {
+    const metadataOnly = new S3Provider([{ name: 'uploads', bucket: 'b', prefixes: ['users/{userId}/'], download: false }], directory, createClient);
+    const listed = await metadataOnly.exportData(subject);
+    expect(listed.attachments).toEqual([]);
+    expect(listed.objects.uploads.every(object => object.attachment === null)).toBe(true);
+
+    const limited = new S3Provider([{ name: 'uploads', bucket: 'b', prefixes: ['users/{userId}/'], maxBytes: 10 }], directory, createClient);
+    const result = await limited.exportData(subject);
+    expect(result.attachments.map(attachment => attachment.name)).toEqual(['attachments/uploads/users/42/avatar.png']);
+    expect(result.notices).toEqual(['S3 object users/42/exports/2024.csv of uploads was not downloaded; the 10 byte limit was reached']);
+  });
+
+  it('should report prefixes the subject has no identifiers for', async () => {
+    const provider = new S3Provider([{ name: 'uploads', bucket: 'b', prefixes: ['tenants/{tenantId}/'] }], directory, createClient);
+
+    const result = await provider.exportData({ email: 'jane@company.com' });
+    expect(result.notices).toEqual(['S3 prefix tenants/{tenantId}/ of uploads references identifiers the subject does not have']);
+  });
+});
+
+// Run against MinIO with e.g. AUTOPV_TEST_S3_ENDPOINT=http://localhost:9000 (minioadmin/minioadmin)
+describe.skipIf(!process.env.AUTOPV_TEST_S3_ENDPOINT)('S3Provider against MinIO', () => {
+  it('should download objects under the subject prefix', async () => {
+    const source: S3SourceConfig = {
+      name: 'minio',
+      bucket: `autopv-test-${Date.now()}`,
+      prefixes: ['users/{userId}/'],
+      endpoint: process.env.AUTOPV_TEST_S3_ENDPOINT,
+      credentials: {
+        accessKeyId: process.env.AUTOPV_TEST_S3_ACCESS_KEY || 'minioadmin',
+        secretAccessKey: process.env.AUTOPV_TEST_S3_SECRET_KEY || 'minioadmin'
+      }
+    };
+    const client = new S3Client({ region: 'us-east-1', endpoint: source.endpoint, forcePathStyle: true, credentials: source.credentials });
+    await client.send(new CreateBucketCommand({ Bucket: source.bucket }));
+    await client.send(new PutObjectCommand({ Bucket: source.bucket, Key: 'users/42/notes.txt', Body: 'hello', Metadata: { owner: '42' } }));
+
+    const directory = mkdtempSync(join(tmpdir(), 'autopv-minio-'));
+    try {
+      const result = await new S3Provider([source], directory).exportData(subject);
+      expect(result.objects.minio[0].metadata).toEqual({ owner: '42' });
+      expect(existsSync(result.attachments[0].path)).toBe(true);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import initSqlJs from 'sql.js';
+import {
+  SqlProvider,
+  SqlSourceConfig,
+  assertErasureStatement,
+  assertReadOnlyStatement,
+  compileNamedParameters,
+  openSqlConnection
+} from '../sql.js';
+import { substituteEnv } from '../config.js';
+
+const pgClient = vi.hoisted(() => ({
+  statements: [] as string[],
+  broken: false,
+  ended: 0,
+  connect: async () => {},
+  end: async () => {
+    pgClient.ended++;
+  },
+  query: async (sql: string) => {
+    pgClient.statements.push(sql);
+    if (pgClient.broken) throw new Error('Connection terminated unexpectedly');
+    if (sql.startsWith('SELECT missing')) throw new Error('column "missing" does not exist');
+    return { rows: sql.startsWith('SELECT') ? [{ id: 1 }] : [], rowCount: 0 };
+  }
+}));
+
+vi.mock('pg', () => ({ default: { Client: function () { return pgClient; } } }));
+
+describe('compileNamedParameters', () => {
+  it('should convert named parameters for postgres and keep casts and literals', () => {
+    const compiled = compileNamedParameters(
+      "SELECT id::text, ':skip' AS note FROM users WHERE email = :email OR backup_email = :email",
+      'postgres',
+      { email: 'jane@company.com' }
+    );
+
+    expect(compiled.text).toBe("SELECT id::text, ':skip' AS note FROM users WHERE email = $1 OR backup_email = $2");
+    expect(compiled.params).toEqual(['jane@company.com', 'jane@company.com']);
+  });
+
+  it('should use question marks for mysql and sqlite', () => {
+    expect(compileNamedParameters('SELECT * FROM orders WHERE user_id = :user_id', 'mysql', { user_id: 7 }).text)
+      .toBe('SELECT * FROM orders WHERE user_id = ?');
+  });
+});
+
+describe('assertReadOnlyStatement', () => {
+  it('should allow SELECT and WITH queries', () => {
+    expect(() => assertReadOnlyStatement('SELECT 1;')).not.toThrow();
+    expect(() => assertReadOnlyStatement("WITH u AS (SELECT 'a;b') SELECT * FROM u")).not.toThrow();
+  });
+
+  it('should reject writes and stacked statements', () => {
+    expect(() => assertReadOnlyStatement('DELETE FROM users')).toThrow('Only SELECT');
+    expect(() => assertReadOnlyStatement('SELECT 1; DROP TABLE users')).toThrow('single statement');
+  });
+});
+
+describe('assertErasureStatement', () => {
+  it('should allow DELETE and UPDATE statements scoped by a parameter', () => {
+    expect(() => assertErasureStatement('DELETE FROM users WHERE id = :user_id')).not.toThrow();
+    expect(() => assertErasureStatement("UPDATE users SET name = 'erased' WHERE email = :email;")).not.toThrow();
+  });
+
+  it('should reject reads, stacked and unscoped statements', () => {
+    expect(() => assertErasureStatement('SELECT * FROM users')).toThrow('DELETE or UPDATE');
+    expect(() => assertErasureStatement('DELETE FROM users WHERE id = :user_id; DROP TABLE users')).toThrow('single statement');
+    expect(() => assertErasureStatement('DELETE FROM users')).toThrow('subject parameter');
+    expect(() => assertErasureStatement('DELETE FROM events WHERE created_at > :since')).toThrow('subject parameter');
+    expect(() => assertErasureStatement("UPDATE users SET note = :email WHERE note = ':email'")).toThrow('subject parameter');
+    expect(() => assertErasureStatement('DELETE FROM events WHERE user_id = :user_id AND created_at > :since')).not.toThrow();
+  });
+});
+
+describe('openSqlConnection', () => {
+  it('should keep a postgres transaction usable after a failed query', async () => {
+    const connection = await openSqlConnection({ name: 'app', driver: 'postgres', connection: 'postgres://db/app', queries: [] });
+
+    await expect(connection.query('SELECT missing FROM users', [])).rejects.toThrow('does not exist');
+    await expect(connection.query('SELECT id FROM users', [])).resolves.toEqual([{ id: 1 }]);
+    await connection.close();
+
+    expect(pgClient.statements).toEqual([
+      'BEGIN TRANSACTION READ ONLY',
+      'SAVEPOINT autopv_query',
+      'SELECT missing FROM users',
+      'ROLLBACK TO SAVEPOINT autopv_query',
+      'SAVEPOINT autopv_query',
+      'SELECT id FROM users',
+      'RELEASE SAVEPOINT autopv_query',
+      'ROLLBACK'
+    ]);
+  });
+
+  it('should end the postgres client when the rollback fails', async () => {
+    const connection = await openSqlConnection({ name: 'app', driver: 'postgres', connection: 'postgres://db/app', queries: [] });
+    const ended = pgClient.ended;
+
+    pgClient.broken = true;
+    try {
+      await expect(connection.close()).rejects.toThrow('Connection terminated unexpectedly');
+    } finally {
+      pgClient.broken = false;
+    }
+    expect(pgClient.ended).toBe(ended + 1);
+  });
+});
+
+describe('substituteEnv', () => {
+  it('should replace environment references and reject unknown ones', () => {
+    expect(substituteEnv({ connection: 'postgres://app:${DB_PW}@db/app' }, { DB_PW: 'secret' }))
+      .toEqual({ connection: 'postgres://app:secret@db/app' });
+    expect(() => substituteEnv('${MISSING}', {})).toThrow('MISSING');
+  });
+});
+
+describe('SqlProvider', () => {
+  let directory: string;
+  let source: SqlSourceConfig;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'autopv-sql-'));
+    const SQL = await initSqlJs();
+    const database = new SQL.Database();
+    database.run(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, name TEXT);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL);
+      INSERT INTO users VALUES (1, 'jane@company.com', 'Jane'), (2, 'bob@company.com', 'Bob');
+      INSERT INTO orders VALUES (10, 1, 12.5), (11, 1, 3), (12, 2, 99);
+    `);
+    writeFileSync(join(directory, 'app.db'), database.export());
+    database.close();
+
+    source = {
+      name: 'app',
+      driver: 'sqlite',
+      connection: join(directory, 'app.db'),
+      identify: [{ name: 'user_id', sql: 'SELECT id AS user_id FROM users WHERE email = :email' }],
+      queries: [
+        { name: 'profile', label: 'App Profile', sql: 'SELECT * FROM users WHERE id = :user_id' },
+        { name: 'orders', sql: 'SELECT id, total FROM orders WHERE user_id = :user_id ORDER BY id' }
+      ]
+    };
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should identify the subject and export rows for each query', async () => {
+    const provider = new SqlProvider([source]);
+    const subject = { email: 'jane@company.com' };
+
+    const matches = await provider.identifySubject(subject);
+    expect(matches).toEqual([expect.objectContaining({ identifier: '1', kind: 'user_id', method: 'sql:app' })]);
+
+    const result = await provider.exportData(subject, matches);
+    expect(result.records['app.profile']).toEqual([{ id: 1, email: 'jane@company.com', name: 'Jane' }]);
+    expect(result.records['app.orders']).toEqual([{ id: 10, total: 12.5 }, { id: 11, total: 3 }]);
+    expect(provider.countRecords(result)).toEqual({ 'app.profile': 1, 'app.orders': 2 });
+    expect(provider.describeDataCategories()[0].label).toBe('App Profile');
+  });
+
+  it('should export nothing when the subject is not found', async () => {
+    const provider = new SqlProvider([source]);
+    const subject = { email: 'nobody@company.com' };
+
+    const result = await provider.exportData(subject, await provider.identifySubject(subject));
+    expect(provider.countRecords(result)).toEqual({ 'app.profile': 0, 'app.orders': 0 });
+  });
+
+  it('should never write to the database file', async () => {
+    const before = readFileSync(source.connection);
+    const provider = new SqlProvider([{ ...source, queries: [{ name: 'all', sql: 'SELECT count(*) AS n FROM users' }] }]);
+
+    await provider.exportData({ email: 'jane@company.com' }, []);
+    expect(readFileSync(source.connection).equals(before)).toBe(true);
+  });
+
+  it('should reject configs with write statements', () => {
+    expect(() => new SqlProvider([{ ...source, queries: [{ name: 'wipe', sql: 'DELETE FROM users' }] }]))
+      .toThrow('Only SELECT');
+  });
+
+  it('should export a row matched by several identifier combinations once', async () => {
+    const provider = new SqlProvider([{
+      ...source,
+      identify: [],
+      queries: [{ name: 'contacts', sql: 'SELECT id, email FROM users WHERE email = :email OR id = :userId' }]
+    }]);
+
+    const result = await provider.exportData({ email: 'jane@company.com', emails: ['jane@company.com', 'j@company.com'], userIds: ['1', '2'] }, []);
+    expect(result.records['app.contacts']).toEqual([
+      { id: 1, email: 'jane@company.com' },
+      { id: 2, email: 'bob@company.com' }
+    ]);
+  });
+
+  it('should report unknown parameters as notices', async () => {
+    const provider = new SqlProvider([{ ...source, identify: [], queries: [{ name: 'x', sql: 'SELECT * FROM users WHERE id = :account_id' }] }]);
+
+    const result = await provider.exportData({ email: 'jane@company.com' }, []);
+    expect(result.notices).toEqual(['SQL query app.x references unknown parameters: account_id']);
+  });
+});
+
+describe('SqlProvider erasure', () => {
+  let directory: string;
+  let source: SqlSourceConfig;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'autopv-sql-'));
+    const SQL = await initSqlJs();
+    const database = new SQL.Database();
+    database.run(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, name TEXT);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL);
+      INSERT INTO users VALUES (1, 'jane@company.com', 'Jane'), (2, 'bob@company.com', 'Bob');
+      INSERT INTO orders VALUES (10, 1, 12.5), (11, 1, 3), (12, 2, 99);
+    `);
+    writeFileSync(join(directory, 'app.db'), database.export());
+    database.close();
+
+    source = {
+      name: 'app',
+      driver: 'sqlite',
+      connection: join(directory, 'app.db'),
+      identify: [{ name: 'user_id', sql: 'SELECT id AS user_id FROM users WHERE email = :email' }],
+      queries: [
+        { name: 'profile', sql: 'SELECT * FROM users WHERE id = :user_id' },
+        { name: 'orders', label: 'Orders', sql: 'SELECT id, total FROM orders WHERE user_id = :user_id' }
+      ],
+      erase: [{
+        name: 'profile',
+        description: 'Delete the user account',
+        sql: 'DELETE FROM users WHERE id = :user_id',
+        count: 'SELECT count(*) FROM users WHERE id = :user_id'
+      }],
+      retain: [{ query: 'orders', reason: 'Art. 17(3)(b) GDPR: orders are kept for tax purposes' }]
+    };
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function readUsers(): Promise<unknown[][]> {
+    const SQL = await initSqlJs();
+    const database = new SQL.Database(readFileSync(source.connection));
+    const rows = database.exec('SELECT id FROM users ORDER BY id')[0].values;
+    database.close();
+    return rows;
+  }
+
+  it('should plan deletions with counts and retained rows with reasons', async () => {
+    const provider = new SqlProvider([source]);
+    const subject = { email: 'jane@company.com' };
+
+    const actions = await provider.planErasure(subject, await provider.identifySubject(subject));
+    expect(actions).toEqual([
+      expect.objectContaining({ id: 'sql:app.profile', type: 'delete', records: 1, description: 'Delete the user account' }),
+      expect.objectContaining({ type: 'retain', target: 'Orders', records: 2, reason: expect.stringContaining('Art. 17(3)(b)') })
+    ]);
+  });
+
+  it('should delete the subject rows and write the database back', async () => {
+    const provider = new SqlProvider([source]);
+    const subject = { email: 'jane@company.com' };
+    const matches = await provider.identifySubject(subject);
+    const actions = await provider.planErasure(subject, matches);
+
+    const outcomes = await provider.executeErasure(subject, matches, actions.filter(action => action.type === 'delete'));
+    expect(outcomes).toEqual([expect.objectContaining({ actionId: 'sql:app.profile', status: 'deleted', records: 1 })]);
+    expect(await readUsers()).toEqual([[2]]);
+  });
+
+  it('should change nothing when a statement of the source fails', async () => {
+    const provider = new SqlProvider([{
+      ...source,
+      erase: [...source.erase!, { name: 'broken', sql: 'DELETE FROM missing WHERE id = :user_id' }]
+    }]);
+    const subject = { email: 'jane@company.com' };
+    const matches = await provider.identifySubject(subject);
+    const actions = await provider.planErasure(subject, matches);
+
+    const outcomes = await provider.executeErasure(subject, matches, actions.filter(action => action.type === 'delete'));
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['failed', 'failed']);
+    expect(outcomes[0].error).toContain('no rows of app were changed');
+    expect(await readUsers()).toEqual([[1], [2]]);
+  });
+
+  it('should reject invalid erasure config', () => {
+    expect(() => new SqlProvider([{ ...source, erase: [{ name: 'all', sql: 'DELETE FROM users' }] }]))
+      .toThrow('subject parameter');
+    expect(() => new SqlProvider([{ ...source, retain: [{ query: 'invoices', reason: 'tax' }] }]))
+      .toThrow('retains unknown query invoices');
+    expect(() => new SqlProvider([{ ...source, retain: [{ query: 'orders', reason: '' }] }]))
+      .toThrow('must give a reason');
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StripeProvider, escapeSearchValue } from '../stripe.js';
+
+async function* pages<T>(items: T[]) {
+  for (const item of items) yield item;
+}
+
+function createStripe(): any {
+  const charges = Array.from({ length: 250 }, (_, i) => ({
+    id: `ch_${i}`,
+    amount_refunded: i === 0 ? 500 : 0,
+    disputed: i === 1
+  }));
+
+  return {
+    customers: {
+      search: vi.fn(() => pages([{ id: 'cus_1', email: 'jane@example.com' }])),
+      list: vi.fn(() => pages([])),
+      retrieve: vi.fn(async (id: string) => ({ id })),
+      listTaxIds: vi.fn(() => pages([{ id: 'txi_1' }])),
+      listBalanceTransactions: vi.fn(() => pages([{ id: 'cbtxn_1' }, { id: 'cbtxn_2' }]))
+    },
+    charges: { list: vi.fn(() => pages(charges)) },
+    paymentMethods: { list: vi.fn(() => pages([{ id: 'pm_1' }])) },
+    invoices: { list: vi.fn(() => pages([{ id: 'in_1' }, { id: 'in_2' }])) },
+    subscriptions: { list: vi.fn(() => pages([{ id: 'sub_1' }])) },
+    checkout: { sessions: { list: vi.fn(() => pages([{ id: 'cs_1' }])) } },
+    quotes: { list: vi.fn(() => pages([{ id: 'qt_1' }])) },
+    refunds: { list: vi.fn(() => pages([{ id: 're_1' }])) },
+    disputes: { list: vi.fn(() => pages([{ id: 'dp_1' }])) },
+    accounts: {
+      list: vi.fn(() => pages([
+        { id: 'acct_a', business_profile: { name: 'Shop A' } },
+        { id: 'acct_b', business_profile: { name: 'Shop B' } }
+      ])),
+      retrieve: vi.fn(async (id: string) => ({ id, business_profile: { name: `Shop ${id}` } }))
+    }
+  };
+}
+
+function createProvider(stripe: any, options = {}) {
+  const provider = new StripeProvider('sk_test_123', options);
+  (provider as any).stripe = stripe;
+  return provider;
+}
+
+describe('StripeProvider', () => {
+  it('should export every object type without a page limit', async () => {
+    const stripe = createStripe();
+    const result = await createProvider(stripe).exportCustomerData('jane@example.com');
+
+    expect(result.charges).toHaveLength(250);
+    expect(result.invoices).toHaveLength(2);
+    expect(result.subscriptions).toHaveLength(1);
+    expect(result.checkoutSessions).toHaveLength(1);
+    expect(result.taxIds).toHaveLength(1);
+    expect(result.balanceTransactions).toHaveLength(2);
+    expect(result.quotes).toHaveLength(1);
+    expect(stripe.subscriptions.list).toHaveBeenCalledWith(expect.objectContaining({ status: 'all' }), undefined);
+  });
+
+  it('should only list refunds and disputes for affected charges', async () => {
+    const stripe = createStripe();
+    const result = await createProvider(stripe).exportCustomerData('jane@example.com');
+
+    expect(result.refunds).toEqual([{ id: 're_1' }]);
+    expect(result.disputes).toEqual([{ id: 'dp_1' }]);
+    expect(stripe.refunds.list).toHaveBeenCalledTimes(1);
+    expect(stripe.refunds.list).toHaveBeenCalledWith(expect.objectContaining({ charge: 'ch_0' }), undefined);
+    expect(stripe.disputes.list).toHaveBeenCalledWith(expect.objectContaining({ charge: 'ch_1' }), undefined);
+  });
+
+  it('should list records per category, tagging connected account records', async () => {
+    const provider = createProvider(createStripe());
+    const result = await provider.exportCustomerData('jane@example.com');
+    result.connectedAccounts.push({ ...result, accountId: 'acct_a', accountName: 'Shop A', quotes: [{ id: 'qt_a' }] } as any);
+
+    const records = provider.listRecords(result);
+
+    expect(records.quotes).toEqual([{ id: 'qt_1' }, { connectedAccount: 'acct_a', id: 'qt_a' }]);
+    expect(Object.keys(records)).toEqual(provider.describeDataCategories().map(category => category.key));
+  });
+
+  it('should count every category', async () => {
+    const provider = createProvider(createStripe());
+    const result = await provider.exportCustomerData('jane@example.com');
+    const counts = provider.countRecords(result);
+
+    for (const category of provider.describeDataCategories()) {
+      expect(counts[category.key]).toBeGreaterThan(0);
+    }
+  });
+
+  it('should record a notice when no customer matches', async () => {
+    const stripe = createStripe();
+    stripe.customers.search = vi.fn(() => pages([]));
+    const result = await createProvider(stripe).exportCustomerData('nobody@example.com');
+
+    expect(result.customers).toEqual([]);
+    expect(result.notices[0]).toContain('No Stripe customers found');
+  });
+
+  describe('Stripe Connect', () => {
+    it('should search connected accounts with the Stripe-Account header', async () => {
+      const stripe = createStripe();
+      stripe.customers.search = vi.fn((_params: any, options?: any) =>
+        pages(options?.stripeAccount === 'acct_b' || !options ? [{ id: 'cus_1', email: 'jane@example.com' }] : [])
+      );
+
+      const provider = createProvider(stripe, { connect: true });
+      const result = await provider.exportCustomerData('jane@example.com');
+
+      expect(result.connectedAccounts).toHaveLength(1);
+      expect(result.connectedAccounts[0]).toMatchObject({ accountId: 'acct_b', accountName: 'Shop B' });
+      expect(result.connectedAccounts[0].charges).toHaveLength(250);
+      expect(stripe.charges.list).toHaveBeenCalledWith(expect.anything(), { stripeAccount: 'acct_b' });
+      expect(provider.countRecords(result).customers).toBe(2);
+    });
+
+    it('should only search the configured accounts', async () => {
+      const stripe = createStripe();
+      await createProvider(stripe, { accounts: ['acct_x'] }).exportCustomerData('jane@example.com');
+
+      expect(stripe.accounts.list).not.toHaveBeenCalled();
+      expect(stripe.customers.search).toHaveBeenCalledWith(expect.anything(), { stripeAccount: 'acct_x' });
+    });
+
+    it('should not search connected accounts unless enabled', async () => {
+      const stripe = createStripe();
+      const result = await createProvider(stripe).exportCustomerData('jane@example.com');
+
+      expect(stripe.accounts.list).not.toHaveBeenCalled();
+      expect(result.connectedAccounts).toEqual([]);
+    });
+  });
+
+  describe('customer lookup', () => {
+    it('should escape quotes and backslashes in search queries', async () => {
+      expect(escapeSearchValue("o'brien@example.com")).toBe("o\\'brien@example.com");
+      expect(escapeSearchValue('a\\b')).toBe('a\\\\b');
+
+      const stripe = createStripe();
+      await createProvider(stripe).exportCustomerData("o'brien@example.com");
+
+      expect(stripe.customers.search.mock.calls[0][0].query).toBe("email:'o\\'brien@example.com'");
+    });
+
+    it('should fall back to customers.list when search is unavailable', async () => {
+      const stripe = createStripe();
+      stripe.customers.search = vi.fn(() => { throw new Error('Search is not available in this region'); });
+      stripe.customers.list = vi.fn(() => pages([{ id: 'cus_2', email: 'jane@example.com' }]));
+
+      const result = await createProvider(stripe).exportCustomerData('jane@example.com');
+
+      expect(result.customers.map((c: any) => c.id)).toEqual(['cus_2']);
+      expect(result.notices[0]).toContain('customer list only');
+    });
+
+    it('should merge search and list results to cover search lag', async () => {
+      const stripe = createStripe();
+      stripe.customers.list = vi.fn(() => pages([
+        { id: 'cus_1', email: 'jane@example.com' },
+        { id: 'cus_new', email: 'jane@example.com' }
+      ]));
+
+      const provider = createProvider(stripe);
+      const matches = await provider.identifySubject({ email: 'jane@example.com' });
+
+      expect(matches.map(m => [m.identifier, m.method])).toEqual([
+        ['cus_1', 'email-search+email-list'],
+        ['cus_new', 'email-list']
+      ]);
+    });
+
+    it('should look up known customer IDs and metadata keys', async () => {
+      const stripe = createStripe();
+      stripe.customers.search = vi.fn((params: any) =>
+        pages(params.query.startsWith('metadata') ? [{ id: 'cus_meta' }] : [])
+      );
+      stripe.customers.retrieve = vi.fn(async (id: string) =>
+        id === 'cus_gone' ? { id, deleted: true } : { id }
+      );
+
+      const provider = createProvider(stripe, {
+        customerIds: ['cus_known', 'cus_gone'],
+        metadata: { user_id: '42' }
+      });
+      const matches = await provider.identifySubject({ email: 'jane@example.com' });
+      const result = await provider.exportData({ email: 'jane@example.com' });
+
+      expect(stripe.customers.search).toHaveBeenCalledWith(
+        expect.objectContaining({ query: "metadata['user_id']:'42'" }),
+        undefined
+      );
+      expect(matches.map(m => m.identifier)).toEqual(['cus_known', 'cus_meta']);
+      expect(result.customers.map((c: any) => c.id)).toEqual(['cus_known', 'cus_meta']);
+    });
+
+    it('should search every email and customer ID in the subject alias set', async () => {
+      const stripe = createStripe();
+      stripe.customers.search = vi.fn(() => pages([]));
+      stripe.customers.list = vi.fn((params: any) =>
+        pages(params.email === 'jane@gmail.com' ? [{ id: 'cus_personal' }] : [])
+      );
+
+      const provider = createProvider(stripe);
+      const matches = await provider.identifySubject({
+        email: 'jane@example.com',
+        emails: ['jane@example.com', 'jane@gmail.com'],
+        stripeCustomerIds: ['cus_work']
+      });
+
+      expect(stripe.customers.list).toHaveBeenCalledWith({ email: 'jane@example.com', limit: 100 }, undefined);
+      expect(stripe.customers.list).toHaveBeenCalledWith({ email: 'jane@gmail.com', limit: 100 }, undefined);
+      expect(matches.map(m => [m.identifier, m.method])).toEqual([
+        ['cus_personal', 'email-list'],
+        ['cus_work', 'customer-id']
+      ]);
+    });
+  });
+
+  describe('erasure', () => {
+    it('should plan to delete the customer and retain its financial records', async () => {
+      const provider = createProvider(createStripe());
+      const subject = { email: 'jane@example.com' };
+
+      const actions = await provider.planErasure(subject);
+
+      expect(actions).toEqual([
+        expect.objectContaining({ type: 'delete', target: 'Stripe customer cus_1', params: { customerId: 'cus_1' } }),
+        expect.objectContaining({
+          type: 'retain',
+          records: 252,
+          description: '250 charges and 2 invoices remain after the customer is deleted',
+          reason: expect.stringContaining('Art. 17(3)(b)')
+        })
+      ]);
+    });
+
+    it('should delete customers on their connected account', async () => {
+      const stripe = createStripe();
+      stripe.customers.del = vi.fn(async (id: string) => {
+        if (id === 'cus_2') throw new Error('No such customer');
+        return { id, deleted: true };
+      });
+      const provider = createProvider(stripe);
+      const actions = [
+        { id: 'stripe:customer:cus_1', providerId: 'stripe', type: 'delete' as const, target: '', description: '', params: { customerId: 'cus_1', accountId: 'acct_a' } },
+        { id: 'stripe:customer:cus_2', providerId: 'stripe', type: 'delete' as const, target: '', description: '', params: { customerId: 'cus_2' } }
+      ];
+
+      const outcomes = await provider.executeErasure({ email: 'jane@example.com' }, [], actions);
+
+      expect(stripe.customers.del).toHaveBeenCalledWith('cus_1', {}, { stripeAccount: 'acct_a' });
+      expect(stripe.customers.del).toHaveBeenCalledWith('cus_2', {}, undefined);
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['deleted', 'failed']);
+      expect(outcomes[1].error).toBe('No such customer');
+    });
+  });
+
+  describe('rectification', () => {
+    function createCustomerStripe() {
+      const stripe = createStripe();
+      const customer = { id: 'cus_1', email: 'jane@example.com', name: 'Jane Doe', phone: null, address: { line1: '1 Old Road', line2: null, city: 'Berlin', state: null, postal_code: '10115', country: 'DE' } };
+      stripe.customers.search = vi.fn(() => pages([customer]));
+      stripe.customers.retrieve = vi.fn(async () => customer);
+      stripe.customers.update = vi.fn(async (_id: string, update: any) => ({ ...customer, ...update }));
+      return stripe;
+    }
+
+    it('should plan only the fields whose current value differs', async () => {
+      const provider = createProvider(createCustomerStripe());
+      const subject = { email: 'jane@example.com' };
+
+      const changes = await provider.planRectification(subject, await provider.identifySubject(subject), {
+        name: 'Jane Smith',
+        email: 'jane@example.com',
+        'address.line1': '2 New Street'
+      });
+
+      expect(changes).toEqual([
+        expect.objectContaining({ id: 'stripe:customer:cus_1:name', field: 'name', before: 'Jane Doe', after: 'Jane Smith', params: { customerId: 'cus_1' } }),
+        expect.objectContaining({ field: 'address.line1', before: '1 Old Road', after: '2 New Street' })
+      ]);
+    });
+
+    it('should update each customer once, keeping the rest of the address', async () => {
+      const stripe = createCustomerStripe();
+      const provider = createProvider(stripe);
+      const subject = { email: 'jane@example.com' };
+      const changes = await provider.planRectification(subject, await provider.identifySubject(subject), {
+        name: 'Jane Smith',
+        'address.line1': '2 New Street'
+      });
+
+      const outcomes = await provider.executeRectification(subject, [], changes);
+
+      expect(stripe.customers.update).toHaveBeenCalledTimes(1);
+      expect(stripe.customers.update).toHaveBeenCalledWith('cus_1', {
+        name: 'Jane Smith',
+        address: { line1: '2 New Street', line2: '', city: 'Berlin', state: '', postal_code: '10115', country: 'DE' }
+      }, undefined);
+      expect(outcomes.map(outcome => [outcome.status, outcome.value])).toEqual([['updated', 'Jane Smith'], ['updated', '2 New Street']]);
+    });
+
+    it('should fail every change of a customer when the update fails', async () => {
+      const stripe = createCustomerStripe();
+      stripe.customers.update = vi.fn(async () => {
+        throw new Error('Invalid phone number');
+      });
+      const provider = createProvider(stripe);
+      const changes = [
+        { id: 'a', providerId: 'stripe', target: '', field: 'name', before: null, after: 'Jane', params: { customerId: 'cus_1', accountId: 'acct_a' } },
+        { id: 'b', providerId: 'stripe', target: '', field: 'phone', before: null, after: 'x', params: { customerId: 'cus_1', accountId: 'acct_a' } }
+      ];
+
+      const outcomes = await provider.executeRectification({ email: 'jane@example.com' }, [], changes);
+
+      expect(stripe.customers.update).toHaveBeenCalledWith('cus_1', { name: 'Jane', phone: 'x' }, { stripeAccount: 'acct_a' });
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['failed', 'failed']);
+      expect(outcomes[0].error).toBe('Invalid phone number');
+    });
+  });
+});
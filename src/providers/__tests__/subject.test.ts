@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSubject, listSubjectIdentifiers, loadSubjectFile, loadSubjectQueue, subjectEmails, subjectVariables } from '../subject.js';
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), 'autopv-subject-'));
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('createSubject', () => {
+  it('should merge flags and subject files with the first email as primary', () => {
+    const subject = createSubject(
+      { emails: ['jane@company.com'], githubLogins: ['janedoe'], identifiers: { zendeskId: ['42'] } },
+      { emails: ['Jane@Company.com', 'jane@gmail.com'], stripeCustomerIds: ['cus_1', 'cus_2'], userIds: ['u-1'], identifiers: { zendeskId: ['42', '43'] } }
+    );
+
+    expect(subject.email).toBe('jane@company.com');
+    expect(subject.emails).toEqual(['jane@company.com', 'jane@gmail.com']);
+    expect(subject.githubLogins).toEqual(['janedoe']);
+    expect(subject.stripeCustomerIds).toEqual(['cus_1', 'cus_2']);
+    expect(subject.identifiers).toEqual({ zendeskId: ['42', '43'] });
+  });
+
+  it('should require at least one email', () => {
+    expect(() => createSubject({ githubLogins: ['janedoe'] })).toThrow('at least one email');
+  });
+});
+
+describe('subjectVariables', () => {
+  it('should expose every alias under the names templates reference', () => {
+    const subject = createSubject({ emails: ['jane@company.com', 'jane@gmail.com'], githubLogins: ['janedoe'], userIds: ['u-1'] });
+
+    expect(subjectVariables(subject)).toEqual({
+      githubLogin: ['janedoe'],
+      userId: ['u-1'],
+      email: ['jane@company.com', 'jane@gmail.com']
+    });
+    expect(listSubjectIdentifiers(subject)).toEqual([
+      { kind: 'email', value: 'jane@company.com' },
+      { kind: 'email', value: 'jane@gmail.com' },
+      { kind: 'githubLogin', value: 'janedoe' },
+      { kind: 'userId', value: 'u-1' }
+    ]);
+  });
+
+  it('should fall back to the primary email for plain subjects', () => {
+    expect(subjectEmails({ email: 'jane@company.com' })).toEqual(['jane@company.com']);
+  });
+});
+
+describe('loadSubjectFile', () => {
+  it('should load a subject definition', () => {
+    const path = join(directory, 'subject.json');
+    writeFileSync(path, JSON.stringify({ emails: ['jane@company.com'], userIds: ['u-1'] }));
+
+    expect(loadSubjectFile(path)).toEqual({ emails: ['jane@company.com'], userIds: ['u-1'] });
+  });
+
+  it('should reject malformed files', () => {
+    const path = join(directory, 'invalid.json');
+    writeFileSync(path, JSON.stringify({ emails: 'jane@company.com' }));
+
+    expect(() => loadSubjectFile(path)).toThrow('"emails" must be a list of strings');
+    expect(() => loadSubjectFile(join(directory, 'missing.json'))).toThrow('Subject file not found');
+  });
+});
+
+describe('loadSubjectQueue', () => {
+  it('should load one subject per CSV row', () => {
+    const path = join(directory, 'subjects.csv');
+    writeFileSync(path, 'email,githubLogin,zendeskId\njane@company.com;jane@gmail.com,janedoe,42\n"bob@company.com",,\n');
+
+    expect(loadSubjectQueue(path)).toEqual([
+      { emails: ['jane@company.com', 'jane@gmail.com'], githubLogins: ['janedoe'], stripeCustomerIds: [], userIds: [], identifiers: { zendeskId: ['42'] } },
+      { emails: ['bob@company.com'], githubLogins: [], stripeCustomerIds: [], userIds: [], identifiers: {} }
+    ]);
+  });
+
+  it('should load a JSON array with the email shorthand', () => {
+    const path = join(directory, 'subjects.json');
+    writeFileSync(path, JSON.stringify([{ email: 'jane@company.com', userIds: ['u-1'] }, { emails: ['bob@company.com'] }]));
+
+    expect(loadSubjectQueue(path)).toEqual([
+      { emails: ['jane@company.com'], userIds: ['u-1'] },
+      { emails: ['bob@company.com'] }
+    ]);
+  });
+
+  it('should require an email column', () => {
+    const path = join(directory, 'logins.csv');
+    writeFileSync(path, 'githubLogin\njanedoe\n');
+
+    expect(() => loadSubjectQueue(path)).toThrow('needs an email column');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ZendeskProvider } from '../zendesk.js';
+
+const fixtureDir = join(__dirname, 'fixtures', 'zendesk');
+
+// Recorded responses keyed by request path
+const routes: Record<string, string> = {
+  '/api/v2/users/search.json': 'users-search.json',
+  '/api/v2/users/501/tickets/requested.json': 'tickets-requested-page1.json',
+  '/api/v2/users/501/tickets/requested.json?after=xyz': 'tickets-requested-page2.json',
+  '/api/v2/users/501/tickets/ccd.json': 'tickets-ccd.json',
+  '/api/v2/tickets/9001/comments.json': 'comments-9001.json',
+  '/api/v2/tickets/9002/comments.json': 'comments-9002.json',
+  '/api/v2/tickets/9003/comments.json': 'comments-9003.json'
+};
+
+function replay(input: string | URL): Response {
+  const url = new URL(input);
+  const after = url.searchParams.get('page[after]');
+  const fixture = routes[`${url.pathname}${after ? `?after=${after}` : ''}`];
+  if (!fixture) {
+    return new Response('{}', { status: 404, statusText: 'Not Found' });
+  }
+  if (url.pathname.endsWith('search.json') && !url.searchParams.get('query')?.toLowerCase().includes('"jane@company.com"')) {
+    return Response.json({ users: [], meta: { has_more: false } });
+  }
+  return Response.json(JSON.parse(readFileSync(join(fixtureDir, fixture), 'utf8')));
+}
+
+describe('ZendeskProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (input: string | URL) => replay(input));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createProvider = () => new ZendeskProvider({ subdomain: 'acme', email: 'agent@acme.com', apiToken: 'token' });
+
+  it('should find the requester by email', async () => {
+    const matches = await createProvider().identifySubject({ email: 'Jane@Company.com' });
+
+    expect(matches).toEqual([expect.objectContaining({ identifier: '501', kind: 'user', confidence: 'high' })]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toContain('https://acme.zendesk.com/api/v2/users/search.json?query=');
+    expect(init.headers.authorization).toBe(`Basic ${Buffer.from('agent@acme.com/token:token').toString('base64')}`);
+  });
+
+  it('should export tickets, comments, attachments and ratings across pages', async () => {
+    const provider = createProvider();
+    const subject = { email: 'jane@company.com' };
+
+    await provider.identifySubject(subject);
+    const result = await provider.exportData(subject);
+
+    expect(result.tickets.map(ticket => [ticket.id, ticket.roles])).toEqual([
+      [9001, ['requester', 'cc']],
+      [9002, ['requester']],
+      [9003, ['cc']]
+    ]);
+    expect(result.comments.filter(comment => comment.bySubject).map(comment => comment.id)).toEqual([1, 3]);
+    expect(result.attachmentMetadata).toEqual([{
+      id: 3001,
+      fileName: 'screenshot.png',
+      contentType: 'image/png',
+      size: 48213,
+      url: 'https://acme.zendesk.com/attachments/token/abc/?name=screenshot.png'
+    }]);
+    expect(result.satisfactionRatings).toEqual([{ ticketId: 9001, score: 'good', comment: 'Quick fix, thanks' }]);
+    expect(provider.countRecords(result)).toEqual({ users: 1, tickets: 3, comments: 5, attachments: 1, satisfactionRatings: 1 });
+  });
+
+  it('should report subjects without a Zendesk user', async () => {
+    const result = await createProvider().exportData({ email: 'nobody@company.com' });
+
+    expect(result.tickets).toEqual([]);
+    expect(result.notices).toEqual(['No Zendesk user found with email: nobody@company.com']);
+  });
+
+  it('should only keep search results with an identity equal to the subject email', async () => {
+    fetchMock.mockImplementation(async (input: string | URL) => {
+      const url = new URL(input);
+      if (url.pathname === '/api/v2/users/search.json') {
+        return Response.json({
+          users: [{ id: 601, email: 'jane.doe@home.example' }, { id: 602, email: 'janet@company.com' }],
+          meta: { has_more: false }
+        });
+      }
+      if (url.pathname === '/api/v2/users/601/identities.json') {
+        return Response.json({ identities: [{ type: 'email', value: 'Jane@Company.com' }], meta: { has_more: false } });
+      }
+      if (url.pathname === '/api/v2/users/602/identities.json') {
+        return Response.json({ identities: [{ type: 'email', value: 'janet@company.com' }], meta: { has_more: false } });
+      }
+      return Response.json({ tickets: [], meta: { has_more: false } });
+    });
+    const provider = createProvider();
+    const subject = { email: 'jane@company.com' };
+
+    const matches = await provider.identifySubject(subject);
+    expect(matches).toEqual([expect.objectContaining({ identifier: '601', confidence: 'medium' })]);
+
+    const result = await provider.exportData(subject);
+    expect(result.users.map(user => user.id)).toEqual([601]);
+    expect(result.notices).toEqual(['Zendesk user 602 was returned by the email search but none of its identities equals the subject email; it was left out']);
+  });
+
+  it('should surface API errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 401, statusText: 'Unauthorized' }));
+
+    await expect(createProvider().identifySubject({ email: 'jane@company.com' })).rejects.toThrow('Zendesk API error: 401 Unauthorized');
+  });
+});
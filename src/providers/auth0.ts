@@ -0,0 +1,274 @@
+/**
+ * Auth0 Identity Provider
+ * Resolves the user by email through the Management API and exports their
+ * profile, linked identities, roles, MFA enrolments, logs and sessions
+ */
+
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectEmails } from './subject.js';
+import { fetchWithRetry } from '../utils/retry.js';
+
+export interface Auth0Credentials {
+    domain: string;
+    clientId: string;
+    clientSecret: string;
+}
+
+export interface Auth0ExportResult {
+    users: any[];
+    identities: any[];
+    roles: any[];
+    authenticationMethods: any[];
+    loginEvents: any[];
+    auditEvents: any[];
+    sessions: any[];
+    notices: string[];
+}
+
+// Log event types that record a login attempt; everything else is treated as audit history
+const LOGIN_EVENT_TYPES = new Set([
+    's', 'f', 'fp', 'fu', 'fc', 'fco', 'fcoa', 'scoa', 'sepft', 'fepft', 'sertft', 'fertft',
+    'ssa', 'fsa', 'sens', 'fens', 'slo', 'flo', 'mfar', 'gd_auth_succeed', 'gd_auth_failed'
+]);
+
+// The user logs endpoint only pages through the most recent 1000 events
+const LOG_PAGE_LIMIT = 10;
+const PAGE_SIZE = 100;
+// Tokens are renewed this long before they expire, so a request never carries an expired one
+const TOKEN_RENEWAL_MS = 60 * 1000;
+
+export class Auth0Provider implements DataSourceProvider<Auth0ExportResult> {
+    readonly id = 'auth0';
+    readonly displayName = 'Auth0';
+
+    private credentials: Auth0Credentials;
+    private baseUrl: string;
+    private accessToken?: { value: string; expiresAt: number };
+    private located = new Map<string, any[]>();
+
+    constructor(credentials: Auth0Credentials) {
+        this.credentials = credentials;
+        this.baseUrl = `https://${credentials.domain.replace(/^https?:\/\//, '').replace(/\/+$/, '')}`;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const users = await this.findSubjectUsers(subject);
+        this.located.set(subject.email, users);
+
+        return users.map(user => ({
+            providerId: this.id,
+            identifier: user.user_id,
+            kind: 'user',
+            method: 'users-by-email',
+            confidence: user.email_verified ? 'high' as const : 'medium' as const,
+            evidence: user.email_verified ? 'Verified email matches the subject' : 'Unverified email matches the subject'
+        }));
+    }
+
+    async exportData(subject: DataSubject): Promise<Auth0ExportResult> {
+        const users = this.located.get(subject.email) || await this.findSubjectUsers(subject);
+        this.located.delete(subject.email);
+
+        const result: Auth0ExportResult = {
+            users,
+            identities: [],
+            roles: [],
+            authenticationMethods: [],
+            loginEvents: [],
+            auditEvents: [],
+            sessions: [],
+            notices: []
+        };
+
+        if (users.length === 0) {
+            result.notices.push(`No Auth0 user found with email: ${subjectEmails(subject).join(', ')}`);
+            return result;
+        }
+
+        for (const user of users) {
+            const userPath = `/api/v2/users/${encodeURIComponent(user.user_id)}`;
+            result.identities.push(...(user.identities || []).map((identity: any) => ({ userId: user.user_id, ...identity })));
+
+            result.roles.push(...await this.listPages(`${userPath}/roles`, 'roles'));
+
+            try {
+                result.authenticationMethods.push(...await this.listPages(`${userPath}/authentication-methods`, 'authenticators'));
+            } catch (error: any) {
+                result.notices.push(`Auth0 MFA enrolments for ${user.user_id} could not be listed: ${error.message}`);
+            }
+
+            const logs = await this.listPages(`${userPath}/logs`, 'logs', LOG_PAGE_LIMIT);
+            if (logs.length >= LOG_PAGE_LIMIT * PAGE_SIZE) {
+                result.notices.push(`Auth0 only returns the latest ${LOG_PAGE_LIMIT * PAGE_SIZE} log events for ${user.user_id}; older events need a log stream export`);
+            }
+            for (const event of logs) {
+                (LOGIN_EVENT_TYPES.has(event.type) ? result.loginEvents : result.auditEvents).push(event);
+            }
+
+            try {
+                result.sessions.push(...await this.listSessions(userPath));
+            } catch (error: any) {
+                result.notices.push(`Auth0 sessions for ${user.user_id} could not be listed: ${error.message}`);
+            }
+        }
+
+        return result;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return [
+            { key: 'users', label: 'Auth0 Profiles', description: 'User profiles including app and user metadata' },
+            { key: 'identities', label: 'Auth0 Linked Identities', description: 'Social, enterprise and database identities linked to the user' },
+            { key: 'roles', label: 'Auth0 Roles', description: 'Roles assigned to the user' },
+            { key: 'authenticationMethods', label: 'Auth0 MFA Enrolments', description: 'Enrolled authenticators and MFA factors' },
+            { key: 'loginEvents', label: 'Auth0 Login Events', description: 'Successful and failed login attempts' },
+            { key: 'auditEvents', label: 'Auth0 Audit Events', description: 'Other tenant log events involving the user' },
+            { key: 'sessions', label: 'Auth0 Sessions', description: 'Active sessions with device and client details' }
+        ];
+    }
+
+    countRecords(result: Auth0ExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const category of this.describeDataCategories()) {
+            counts[category.key] = (result as any)[category.key].length;
+        }
+        return counts;
+    }
+
+    listRecords(result: Auth0ExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const category of this.describeDataCategories()) {
+            records[category.key] = (result as any)[category.key];
+        }
+        return records;
+    }
+
+    /**
+     * Look up every email of the subject, keeping each user once
+     */
+    private async findSubjectUsers(subject: DataSubject): Promise<any[]> {
+        const users = new Map<string, any>();
+        for (const email of subjectEmails(subject)) {
+            for (const user of await this.findUsers(email)) {
+                users.set(String(user.user_id), user);
+            }
+        }
+        return [...users.values()];
+    }
+
+    private async findUsers(email: string): Promise<any[]> {
+        // users-by-email matches exactly but is case-sensitive for some connections,
+        // so the email is looked up both as given and lowercased
+        const users = new Map<string, any>();
+        for (const candidate of new Set([email, email.toLowerCase()])) {
+            for (const user of await this.request(`/api/v2/users-by-email?email=${encodeURIComponent(candidate)}`)) {
+                users.set(String(user.user_id), user);
+            }
+        }
+        return [...users.values()];
+    }
+
+    /**
+     * Follow page/per_page pagination with include_totals
+     */
+    private async listPages(path: string, key: string, maxPages: number = Infinity): Promise<any[]> {
+        const items: any[] = [];
+
+        for (let page = 0; page < maxPages; page++) {
+            const response = await this.request(`${path}?page=${page}&per_page=${PAGE_SIZE}&include_totals=true`);
+            const batch: any[] = Array.isArray(response) ? response : response[key] || [];
+            items.push(...batch);
+
+            const total = Array.isArray(response) ? undefined : response.total;
+            if (batch.length < PAGE_SIZE || (total !== undefined && items.length >= total)) break;
+        }
+
+        return items;
+    }
+
+    /**
+     * Sessions use checkpoint pagination through the "next" token
+     */
+    private async listSessions(userPath: string): Promise<any[]> {
+        const sessions: any[] = [];
+        let from: string | undefined;
+
+        do {
+            const query = `take=${PAGE_SIZE}${from ? `&from=${encodeURIComponent(from)}` : ''}`;
+            const response = await this.request(`${userPath}/sessions?${query}`);
+            sessions.push(...(response.sessions || []));
+            from = response.next;
+        } while (from);
+
+        return sessions;
+    }
+
+    private async request(path: string, renewed: boolean = false): Promise<any> {
+        const response = await fetchWithRetry(`${this.baseUrl}${path}`, {
+            headers: {
+                accept: 'application/json',
+                authorization: `Bearer ${await this.getAccessToken()}`
+            }
+        });
+        if (response.status === 401 && !renewed) {
+            // The token was revoked or expired early; fetch a new one and try once more
+            this.accessToken = undefined;
+            return this.request(path, true);
+        }
+        if (!response.ok) {
+            throw new Error(`Auth0 API error: ${response.status} ${response.statusText} (${path.split('?')[0]})`);
+        }
+        return response.json();
+    }
+
+    /**
+     * Exchange the client credentials for a Management API token, reusing it until shortly before it expires
+     */
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && Date.now() < this.accessToken.expiresAt - TOKEN_RENEWAL_MS) {
+            return this.accessToken.value;
+        }
+
+        const response = await fetchWithRetry(`${this.baseUrl}/oauth/token`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({
+                grant_type: 'client_credentials',
+                client_id: this.credentials.clientId,
+                client_secret: this.credentials.clientSecret,
+                audience: `${this.baseUrl}/api/v2/`
+            })
+        });
+        if (!response.ok) {
+            throw new Error(`Auth0 token request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const body: any = await response.json();
+        // Auth0 issues 24 hour tokens unless the API is configured otherwise
+        const expiresIn = typeof body.expires_in === 'number' ? body.expires_in : 86400;
+        this.accessToken = { value: body.access_token as string, expiresAt: Date.now() + expiresIn * 1000 };
+        return this.accessToken.value;
+    }
+}
+
+export const auth0ProviderFactory: ProviderFactory = {
+    id: 'auth0',
+    displayName: 'Auth0',
+    icon: '🔑',
+    setupHint: ['Run: autopv login --auth0-domain acme.eu.auth0.com --auth0-client-id ... --auth0-client-secret ...'],
+    isConfigured: (options: ProviderOptions) => Boolean(
+        options.env.AUTH0_DOMAIN && options.env.AUTH0_CLIENT_ID && options.env.AUTH0_CLIENT_SECRET
+    ),
+    create: (options: ProviderOptions) => new Auth0Provider({
+        domain: options.env.AUTH0_DOMAIN!,
+        clientId: options.env.AUTH0_CLIENT_ID!,
+        clientSecret: options.env.AUTH0_CLIENT_SECRET!
+    })
+};
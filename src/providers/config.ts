@@ -0,0 +1,81 @@
+/**
+ * Provider Configuration
+ * Loads the declarative provider config file (autopv.config.json)
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { FileSourceConfig } from './files.js';
+import type { HttpSourceConfig } from './http.js';
+import type { S3SourceConfig } from './s3.js';
+import type { SqlSourceConfig } from './sql.js';
+
+export interface ProvidersConfig {
+    sql?: SqlSourceConfig[];
+    http?: HttpSourceConfig[];
+    files?: FileSourceConfig[];
+    s3?: S3SourceConfig[];
+    /** Seconds each provider's export may take, keyed by provider id (e.g. { "github": 1800 }) */
+    timeouts?: Record<string, number>;
+}
+
+export const DEFAULT_CONFIG_FILE = 'autopv.config.json';
+
+/**
+ * Load the provider config from an explicit path, AUTOPV_CONFIG or ./autopv.config.json
+ *
+ * String values may reference environment variables as ${NAME}, so secrets stay
+ * in the environment or the `autopv login` store rather than the config file.
+ */
+export function loadProvidersConfig(
+    path: string | undefined,
+    env: Record<string, string | undefined>
+): ProvidersConfig {
+    const configPath = path || env.AUTOPV_CONFIG || (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+    if (!configPath) {
+        return {};
+    }
+
+    const absolutePath = resolve(configPath);
+    if (!existsSync(absolutePath)) {
+        throw new Error(`Provider config not found: ${absolutePath}`);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(absolutePath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Provider config ${absolutePath} is not valid JSON: ${error.message}`);
+    }
+
+    return substituteEnv(parsed, env) as ProvidersConfig;
+}
+
+/**
+ * Replace ${NAME} references in every string value
+ */
+export function substituteEnv(value: unknown, env: Record<string, string | undefined>): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_match, name: string) => {
+            const replacement = env[name];
+            if (replacement === undefined) {
+                throw new Error(`Provider config references undefined environment variable ${name}`);
+            }
+            return replacement;
+        });
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => substituteEnv(item, env));
+    }
+
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = substituteEnv(item, env);
+        }
+        return result;
+    }
+
+    return value;
+}
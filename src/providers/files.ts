@@ -0,0 +1,425 @@
+/**
+ * Filesystem Provider
+ * Streams the log archives and exported files matched by the configured globs
+ * (JSON, NDJSON, CSV, plain text, optionally gzipped) and returns every record
+ * that mentions the subject
+ */
+
+import { createReadStream } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, resolve, sep } from 'path';
+import { createInterface } from 'readline';
+import { createGunzip, gunzipSync } from 'zlib';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectVariables } from './subject.js';
+
+export type FileFormat = 'auto' | 'json' | 'ndjson' | 'csv' | 'text';
+
+export interface FileSourceConfig {
+    name: string;
+    label?: string;
+    description?: string;
+    /** Glob patterns, e.g. "/var/log/app/**\/*.log.gz" */
+    paths: string[];
+    format?: FileFormat;
+    /** Record fields checked for a timestamp, in order */
+    timestampFields?: string[];
+    /** Subject identifiers searched besides emails, e.g. ["userId", "githubLogin"] */
+    identifiers?: string[];
+    maxMatches?: number;
+}
+
+export interface FileRecordMatch {
+    file: string;
+    /** 1-based line number; null for records inside a JSON document */
+    line: number | null;
+    /** Position of the record inside a JSON array document */
+    index?: number;
+    timestamp: string | null;
+    record: unknown;
+}
+
+export interface FileExportResult {
+    records: Record<string, FileRecordMatch[]>;
+    filesScanned: number;
+    notices: string[];
+}
+
+const DEFAULT_TIMESTAMP_FIELDS = ['timestamp', '@timestamp', 'time', 'ts', 'created_at', 'createdAt', 'date'];
+const DEFAULT_MAX_MATCHES = 10000;
+// Whole JSON documents have to be parsed in memory, so larger ones (after decompression) are skipped
+const MAX_JSON_DOCUMENT_BYTES = 50 * 1024 * 1024;
+const TEXT_TIMESTAMP = /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/;
+
+class MatchLimitReached extends Error {}
+
+interface FileScan {
+    result: FileExportResult;
+    matches: SubjectMatch[];
+}
+
+export class FileProvider implements DataSourceProvider<FileExportResult> {
+    readonly id = 'files';
+    readonly displayName = 'Files & Logs';
+
+    private sources: FileSourceConfig[];
+    private range: { since?: string; until?: string };
+    private located = new Map<string, FileScan>();
+
+    constructor(sources: FileSourceConfig[], range: { since?: string; until?: string } = {}) {
+        for (const source of sources) {
+            if (!source.name || !source.paths?.length) {
+                throw new Error('File sources need a name and at least one path');
+            }
+        }
+        this.sources = sources;
+        this.range = range;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        // Searching the files is the export itself, so it runs once and is kept for exportData
+        const scan = await this.scan(subject);
+        this.located.set(subject.email, scan);
+        return scan.matches;
+    }
+
+    async exportData(subject: DataSubject): Promise<FileExportResult> {
+        const scan = this.located.get(subject.email) || await this.scan(subject);
+        this.located.delete(subject.email);
+        return scan.result;
+    }
+
+    /**
+     * Scan every source, reporting an identifier as a match only once a record mentions it
+     */
+    private async scan(subject: DataSubject): Promise<FileScan> {
+        const result: FileExportResult = { records: {}, filesScanned: 0, notices: [] };
+        const variables = subjectVariables(subject);
+        const found = new Map<string, SubjectMatch>();
+
+        for (const source of this.sources) {
+            // Short ids produce false positives, so only emails are searched unless the source opts in
+            const searched = ['email', ...(source.identifiers || [])]
+                .flatMap(kind => (variables[kind] || []).filter(Boolean).map(value => ({ kind, value, pattern: needlePattern([value])! })));
+            const needles = needlePattern(searched.map(({ value }) => value));
+            const matches: FileRecordMatch[] = [];
+            result.records[source.name] = matches;
+            const maxMatches = source.maxMatches || DEFAULT_MAX_MATCHES;
+
+            const files = new Set<string>();
+            for (const pattern of source.paths) {
+                for (const file of await expandGlob(pattern)) files.add(file);
+            }
+            if (files.size === 0) {
+                result.notices.push(`File source ${source.name} matched no files`);
+            }
+
+            const collect = (match: FileRecordMatch) => {
+                if (!this.inRange(match.timestamp)) return;
+                if (matches.length === maxMatches) throw new MatchLimitReached();
+                matches.push(match);
+
+                const text = typeof match.record === 'string' ? match.record : JSON.stringify(match.record);
+                for (const { kind, value, pattern } of searched) {
+                    if (found.has(`${kind}:${value}`) || !pattern.test(text)) continue;
+                    found.set(`${kind}:${value}`, {
+                        providerId: this.id,
+                        identifier: value,
+                        kind,
+                        method: 'text-search',
+                        confidence: 'medium',
+                        evidence: `Mentioned in ${match.file}${match.line !== null ? ` line ${match.line}` : ''}`
+                    });
+                }
+            };
+
+            try {
+                for (const file of [...files].sort()) {
+                    result.filesScanned++;
+                    try {
+                        if (needles) await scanFile(file, source, needles, collect, result.notices);
+                    } catch (error: any) {
+                        if (error instanceof MatchLimitReached) throw error;
+                        result.notices.push(`File ${file} could not be read: ${error.message}`);
+                    }
+                }
+            } catch (error) {
+                if (!(error instanceof MatchLimitReached)) throw error;
+                result.notices.push(`File source ${source.name} stopped after ${maxMatches} matching records`);
+            }
+        }
+
+        return { result, matches: [...found.values()] };
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return this.sources.map(source => ({
+            key: source.name,
+            label: source.label || `Files: ${source.name}`,
+            description: source.description || `Records mentioning the subject in ${source.paths.join(', ')}`
+        }));
+    }
+
+    countRecords(result: FileExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const source of this.sources) {
+            counts[source.name] = result.records[source.name]?.length || 0;
+        }
+        return counts;
+    }
+
+    listRecords(result: FileExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const source of this.sources) {
+            records[source.name] = result.records[source.name] || [];
+        }
+        return records;
+    }
+
+    private inRange(timestamp: string | null): boolean {
+        if (!timestamp) return true;
+        const time = Date.parse(timestamp);
+        if (Number.isNaN(time)) return true;
+        if (this.range.since && time < Date.parse(this.range.since)) return false;
+        if (this.range.until && time > Date.parse(this.range.until)) return false;
+        return true;
+    }
+}
+
+/**
+ * Match any of the identifiers as a whole token, so "an@x.com" does not match
+ * "dan@x.com"; the same boundaries the scrubber uses for subject identifiers
+ */
+export function needlePattern(identifiers: string[]): RegExp | null {
+    const escaped = [...new Set(identifiers.filter(Boolean))]
+        .sort((a, b) => b.length - a.length)
+        .map(value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return escaped.length > 0
+        ? new RegExp(`(?<![A-Za-z0-9_.+-])(?:${escaped.join('|')})(?![A-Za-z0-9_-])`, 'i')
+        : null;
+}
+
+/**
+ * Stream one file, handing every record that mentions an identifier to collect
+ */
+async function scanFile(
+    file: string,
+    source: FileSourceConfig,
+    needles: RegExp,
+    collect: (match: FileRecordMatch) => void,
+    notices: string[]
+): Promise<void> {
+    const gzipped = file.endsWith('.gz');
+    const format = source.format && source.format !== 'auto' ? source.format : detectFormat(file);
+    const timestampFields = source.timestampFields || DEFAULT_TIMESTAMP_FIELDS;
+    const mentions = (text: string) => needles.test(text);
+
+    if (format === 'json') {
+        const tooLarge = `File ${file} is too large to parse as a JSON document; store it as NDJSON instead`;
+        if ((await stat(file)).size > MAX_JSON_DOCUMENT_BYTES) {
+            notices.push(tooLarge);
+            return;
+        }
+        let raw = await readFile(file);
+        if (gzipped) {
+            try {
+                raw = gunzipSync(raw, { maxOutputLength: MAX_JSON_DOCUMENT_BYTES });
+            } catch (error: any) {
+                if (error?.code !== 'ERR_BUFFER_TOO_LARGE') throw error;
+                notices.push(tooLarge);
+                return;
+            }
+        }
+        const document = JSON.parse(raw.toString('utf8'));
+        const records = Array.isArray(document) ? document : [document];
+        records.forEach((record, index) => {
+            if (mentions(JSON.stringify(record))) {
+                collect({ file, line: null, index, timestamp: recordTimestamp(record, timestampFields), record });
+            }
+        });
+        return;
+    }
+
+    const input = createReadStream(file);
+    const lines = createInterface({
+        input: gzipped ? input.pipe(createGunzip()) : input,
+        crlfDelay: Infinity
+    });
+
+    try {
+        let lineNumber = 0;
+        let header: string[] | null = null;
+
+        for await (const line of lines) {
+            lineNumber++;
+            if (format === 'csv' && header === null) {
+                header = parseCsvLine(line);
+                continue;
+            }
+            if (!mentions(line)) continue;
+
+            let record: unknown = line;
+            if (format === 'csv') {
+                const values = parseCsvLine(line);
+                record = Object.fromEntries(header!.map((column, index) => [column, values[index] ?? null]));
+            } else if (format === 'ndjson' || line.trimStart().startsWith('{')) {
+                try {
+                    record = JSON.parse(line);
+                } catch {
+                    record = line;
+                }
+            }
+
+            collect({ file, line: lineNumber, timestamp: recordTimestamp(record, timestampFields), record });
+        }
+    } finally {
+        lines.close();
+        input.destroy();
+    }
+}
+
+function detectFormat(file: string): FileFormat {
+    const name = file.replace(/\.gz$/, '').toLowerCase();
+    if (name.endsWith('.json')) return 'json';
+    if (name.endsWith('.ndjson') || name.endsWith('.jsonl')) return 'ndjson';
+    if (name.endsWith('.csv')) return 'csv';
+    return 'text';
+}
+
+function recordTimestamp(record: unknown, fields: string[]): string | null {
+    if (typeof record === 'string') {
+        return record.match(TEXT_TIMESTAMP)?.[0] ?? null;
+    }
+    if (record && typeof record === 'object') {
+        for (const field of fields) {
+            const value = (record as Record<string, unknown>)[field];
+            if (typeof value === 'string' && value) return value;
+            if (typeof value === 'number') {
+                // Treat small numbers as epoch seconds
+                return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Split a single CSV line, honouring quoted fields
+ */
+export function parseCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            values.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    values.push(current);
+
+    return values;
+}
+
+/**
+ * Convert a glob pattern (*, **, ?, {a,b}) to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            const end = pattern.indexOf('}', i);
+            const options = pattern.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+            source += `(?:${options.join('|')})`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * List the files matching a glob, walking only below its static prefix
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+    const absolute = resolve(pattern).split(sep).join('/');
+    const segments = absolute.split('/');
+    const firstDynamic = segments.findIndex(segment => /[*?{]/.test(segment));
+
+    if (firstDynamic === -1) {
+        try {
+            return (await stat(absolute)).isFile() ? [absolute] : [];
+        } catch {
+            return [];
+        }
+    }
+
+    const base = segments.slice(0, firstDynamic).join('/') || '/';
+    const matcher = globToRegExp(absolute);
+    const recursive = absolute.includes('**');
+    const files: string[] = [];
+
+    const walk = async (directory: string) => {
+        let entries;
+        try {
+            entries = await readdir(directory, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const path = join(directory, entry.name).split(sep).join('/');
+            if (entry.isDirectory()) {
+                // Without ** a match can be no deeper than the pattern itself
+                if (recursive || path.split('/').length < segments.length) await walk(path);
+            } else if (entry.isFile() && matcher.test(path)) {
+                files.push(path);
+            }
+        }
+    };
+    await walk(base);
+
+    return files;
+}
+
+export const fileProviderFactory: ProviderFactory = {
+    id: 'files',
+    displayName: 'Files & Logs',
+    icon: '📂',
+    isConfigured: (options: ProviderOptions) => Boolean(options.config?.files?.length),
+    create: (options: ProviderOptions) => new FileProvider(options.config!.files!, {
+        since: options.since,
+        until: options.until
+    })
+};
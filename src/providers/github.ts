@@ -1,24 +1,304 @@
 import { Octokit } from '@octokit/rest';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ErasureAction,
+    ErasureOutcome,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { isConfirmedMatch, subjectEmails } from './subject.js';
+import { GitHubIdentityResolution, GitHubIdentityResolver } from './githubIdentity.js';
+import { GitHubActivityExport, GitHubActivityExporter } from './githubActivity.js';
+import { GitHubCommitExporter, GitHubCommitRecord } from './githubCommits.js';
+import { GitHubAuditExporter, GitHubAuditLogStatus } from './githubAudit.js';
+import { GitHubConnection, createGitHubClient, resolveGitHubConnection } from './githubAuth.js';
+
+/**
+ * Audit log and activity scoped to one organization
+ */
+export interface GitHubOrgExport extends Omit<GitHubActivityExport, 'notices'> {
+    audit: any[];
+    auditLog?: GitHubAuditLogStatus;
+    commits: GitHubCommitRecord[];
+}
 
 export interface GitHubExportResult {
+    /** How each of the subject's emails was resolved to a login */
+    identities?: GitHubIdentityResolution[];
+    /** Every login the export covers */
+    logins: string[];
+    /** Public events, which are not scoped to an organization */
     events: any[];
-    audit: any[];
+    organizations: Record<string, GitHubOrgExport>;
+    notices: string[];
+}
+
+// Categories exported per organization, in the order they are listed
+const ORG_CATEGORIES: Array<Exclude<keyof GitHubOrgExport, 'auditLog'>> = [
+    'audit',
+    'issues',
+    'pullRequests',
+    'issueComments',
+    'reviews',
+    'reviewComments',
+    'discussions',
+    'discussionComments',
+    'reactions',
+    'commits'
+];
+
+const AUDIT_LOG_REASON = 'Art. 17(3)(e) GDPR: the organization audit log is a security record kept for the establishment, '
+    + 'exercise or defence of legal claims, and GitHub does not allow its entries to be deleted';
+
+const CONTRIBUTIONS_REASON = 'Contributions stay in the repositories as part of the project history and are attributed to the '
+    + 'subject\'s personal GitHub account, which only the subject or GitHub can delete';
+
+export interface GitHubProviderOptions {
+    orgs?: string[];
+    /** Also export from every organization the credentials can access */
+    discoverOrgs?: boolean;
+    includeCommits?: boolean;
+    since?: string;
+    until?: string;
 }
 
-export class GitHubProvider {
+export class GitHubProvider implements DataSourceProvider<GitHubExportResult> {
+    readonly id = 'github';
+    readonly displayName = 'GitHub';
+
     private octokit: Octokit;
+    private options: GitHubProviderOptions;
+    private identityResolver: GitHubIdentityResolver;
+    private activityExporter: GitHubActivityExporter;
+    private commitExporter: GitHubCommitExporter;
+    private auditExporter: GitHubAuditExporter;
+    private resolutions = new Map<string, GitHubIdentityResolution[]>();
+    private organizations?: Promise<string[]>;
 
-    constructor(token: string) {
-        this.octokit = new Octokit({
-            auth: token,
-        });
+    constructor(auth: string | GitHubConnection, options: GitHubProviderOptions = {}) {
+        this.octokit = createGitHubClient(
+            typeof auth === 'string' ? { credentials: { type: 'token', token: auth } } : auth
+        );
+        this.options = options;
+        this.identityResolver = new GitHubIdentityResolver(this.octokit);
+        this.activityExporter = new GitHubActivityExporter(this.octokit);
+        this.commitExporter = new GitHubCommitExporter(this.octokit);
+        this.auditExporter = new GitHubAuditExporter(this.octokit);
     }
 
-    async exportUserData(username: string, org?: string): Promise<GitHubExportResult> {
-        const result: GitHubExportResult = {
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const orgs = await this.getOrganizations();
+        const resolutions: GitHubIdentityResolution[] = [];
+        for (const email of subjectEmails(subject)) {
+            resolutions.push(await this.resolveEmail(email, orgs));
+        }
+        this.resolutions.set(subject.email, resolutions);
+
+        const supplied: SubjectMatch[] = (subject.githubLogins || []).map(login => ({
+            providerId: this.id,
+            identifier: login,
+            kind: 'login',
+            method: 'supplied',
+            confidence: 'high',
+            evidence: 'Login supplied in the subject definition'
+        }));
+
+        return [...supplied, ...resolutions.flatMap(resolution => resolution.matches.map(match => ({
+            providerId: this.id,
+            identifier: match.login,
+            kind: 'login',
+            method: match.method,
+            confidence: match.confidence,
+            evidence: `${match.evidence} (${resolution.email})`
+        })))];
+    }
+
+    async exportData(subject: DataSubject, matches: SubjectMatch[]): Promise<GitHubExportResult> {
+        const { logins, resolutions } = this.selectLogins(subject, matches);
+        const orgs = await this.getOrganizations();
+        const result = this.createEmptyResult(orgs);
+        result.logins = logins;
+        for (const login of logins) {
+            mergeExport(result, await this.exportUserData(login, orgs));
+        }
+
+        if (logins.length === 0) {
+            result.notices.push(`No GitHub account could be matched to ${subjectEmails(subject).join(', ')}; no GitHub activity was exported`);
+        }
+        if (orgs.length === 0) {
+            result.notices.push('No GitHub organization was given or discovered; only public activity was exported');
+        }
+
+        if (this.options.includeCommits && orgs.length > 0) {
+            const emails = [...subjectEmails(subject)];
+            for (const login of logins) {
+                emails.push(...await this.noreplyEmails(login));
+            }
+            for (const org of orgs) {
+                const commitExport = await this.commitExporter.exportCommits(org, {
+                    emails,
+                    since: this.options.since,
+                    until: this.options.until
+                });
+                result.organizations[org].commits = commitExport.commits;
+                result.notices.push(...commitExport.notices.map(notice => `${org}: ${notice}`));
+            }
+        }
+
+        result.identities = resolutions;
+        return result;
+    }
+
+    /**
+     * Configured organizations plus, when enabled, every organization the credentials can see
+     */
+    async getOrganizations(): Promise<string[]> {
+        if (!this.organizations) {
+            this.organizations = (async () => {
+                const discovered = this.options.discoverOrgs ? await this.discoverOrganizations() : [];
+                return [...new Set([...(this.options.orgs || []), ...discovered])];
+            })();
+        }
+        return this.organizations;
+    }
+
+    private async discoverOrganizations(): Promise<string[]> {
+        try {
+            const orgs = await this.octokit.paginate(this.octokit.rest.orgs.listForAuthenticatedUser, { per_page: 100 });
+            return orgs.map(org => org.login);
+        } catch (error: any) {
+            // Installation tokens cannot list memberships; use the owners of the repositories they can access
+            if (error.status !== 403) {
+                throw new Error(`GitHub organizations could not be discovered: ${error.message}`);
+            }
+            const repositories = await this.octokit.paginate(this.octokit.rest.apps.listReposAccessibleToInstallation, { per_page: 100 });
+            return [...new Set(repositories
+                .filter(repository => repository.owner.type === 'Organization')
+                .map(repository => repository.owner.login))];
+        }
+    }
+
+    /**
+     * Supplied logins plus the best match for each email; weaker candidates are not exported or erased
+     */
+    private selectLogins(subject: DataSubject, matches: SubjectMatch[]): { logins: string[]; resolutions?: GitHubIdentityResolution[] } {
+        const resolutions = this.resolutions.get(subject.email);
+        this.resolutions.delete(subject.email);
+
+        const resolved = resolutions
+            ? resolutions.map(resolution => resolution.login)
+            : [matches.find(match => match.method !== 'supplied')?.identifier];
+        const logins = [...new Set([...(subject.githubLogins || []), ...resolved].filter((login): login is string => Boolean(login)))];
+        return { logins, resolutions };
+    }
+
+    /**
+     * The login's membership of an organization, or null when they are not a member
+     */
+    private async getMembership(org: string, login: string): Promise<{ state: string; role: string } | null> {
+        try {
+            const { data } = await this.octokit.rest.orgs.getMembershipForUser({ org, username: login });
+            return { state: data.state, role: data.role };
+        } catch (error: any) {
+            if (error.status === 404) return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Resolve an email against each organization until one gives an authoritative match
+     */
+    private async resolveEmail(email: string, orgs: string[]): Promise<GitHubIdentityResolution> {
+        let best: GitHubIdentityResolution | undefined;
+        for (const org of orgs.length > 0 ? orgs : [undefined]) {
+            const resolution = await this.identityResolver.resolve(email, org);
+            if (!best || (resolution.login && (!best.login || resolution.confidence === 'high'))) {
+                best = resolution;
+            }
+            if (resolution.confidence === 'high') break;
+        }
+        return best!;
+    }
+
+    /**
+     * GitHub's noreply addresses used when a user keeps their email private
+     */
+    private async noreplyEmails(login: string): Promise<string[]> {
+        const emails = [`${login}@users.noreply.github.com`];
+        try {
+            const { data: user } = await this.octokit.rest.users.getByUsername({ username: login });
+            emails.push(`${user.id}+${login}@users.noreply.github.com`);
+        } catch {
+            // The login-only form is still worth matching
+        }
+        return emails;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return [
+            { key: 'events', label: 'GitHub Events', description: 'Public activity events performed by the user' },
+            { key: 'audit', label: 'GitHub Audit Entries', description: 'Organization audit log entries performed by or targeting the user' },
+            { key: 'issues', label: 'GitHub Issues', description: 'Issues opened by the user in organization repositories' },
+            { key: 'pullRequests', label: 'GitHub Pull Requests', description: 'Pull requests opened by the user' },
+            { key: 'issueComments', label: 'GitHub Issue Comments', description: 'Comments on issues and pull requests' },
+            { key: 'reviews', label: 'GitHub Reviews', description: 'Pull request reviews submitted by the user' },
+            { key: 'reviewComments', label: 'GitHub Review Comments', description: 'Inline pull request review comments' },
+            { key: 'discussions', label: 'GitHub Discussions', description: 'Discussions started by the user' },
+            { key: 'discussionComments', label: 'GitHub Discussion Comments', description: 'Comments and replies on discussions' },
+            { key: 'reactions', label: 'GitHub Reactions', description: 'Reactions on issues and pull requests' },
+            { key: 'commits', label: 'GitHub Commits', description: 'Commits on any branch authored, committed or co-authored with the subject email' }
+        ];
+    }
+
+    countRecords(result: GitHubExportResult): Record<string, number> {
+        const counts: Record<string, number> = { events: result.events.length };
+        for (const key of ORG_CATEGORIES) {
+            counts[key] = Object.values(result.organizations)
+                .reduce((total, organization) => total + organization[key].length, 0);
+        }
+        return counts;
+    }
+
+    listRecords(result: GitHubExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = { events: result.events };
+        for (const key of ORG_CATEGORIES) {
+            records[key] = Object.entries(result.organizations)
+                .flatMap(([organization, data]) => data[key].map(record => ({ organization, ...record })));
+        }
+        return records;
+    }
+
+    private createEmptyResult(orgs: string[] = []): GitHubExportResult {
+        const organizations: Record<string, GitHubOrgExport> = {};
+        for (const org of orgs) {
+            organizations[org] = {
+                audit: [],
+                issues: [],
+                pullRequests: [],
+                issueComments: [],
+                reviews: [],
+                reviewComments: [],
+                discussions: [],
+                discussionComments: [],
+                reactions: [],
+                commits: []
+            };
+        }
+
+        return {
             events: [],
-            audit: []
+            logins: [],
+            organizations,
+            notices: []
         };
+    }
+
+    async exportUserData(username: string, orgs: string[] = []): Promise<GitHubExportResult> {
+        const result = this.createEmptyResult(orgs);
+        result.logins = [username];
 
         try {
             // Get user events using pagination
@@ -38,56 +318,156 @@ export class GitHubProvider {
                 }
             }
 
-            // Get organization audit log if org is provided and token has admin:org scope
-            if (org) {
-                try {
-                    const auditIterator = this.octokit.paginate.iterator(
-                        'GET /orgs/{org}/audit-log' as any,
-                        {
-                            org,
-                            per_page: 100
-                        }
-                    );
-
-                    for await (const { data: auditEvents } of auditIterator) {
-                        result.audit.push(...auditEvents);
-                        // Limit to reasonable number
-                        if (result.audit.length >= 500) {
-                            break;
-                        }
-                    }
-                } catch (auditError: any) {
-                    // If we don't have admin:org permissions, that's okay
-                    // We'll just have empty audit logs
-                    console.warn(`Could not fetch audit logs for org ${org}:`, auditError.message);
+            // Get each organization's audit log entries performed by or targeting the user
+            for (const org of orgs) {
+                const organization = result.organizations[org];
+                const auditExport = await this.auditExporter.exportAuditLog(org, {
+                    login: username,
+                    since: this.options.since,
+                    until: this.options.until
+                });
+                organization.audit = auditExport.entries;
+                organization.auditLog = auditExport.auditLog;
+                if (auditExport.auditLog.reason) {
+                    result.notices.push(`${org}: ${auditExport.auditLog.reason}`);
                 }
+
+                // Issues, pull requests, comments, reviews, discussions and reactions
+                const { notices, ...activity } = await this.activityExporter.exportActivity(username, org);
+                Object.assign(organization, activity);
+                result.notices.push(...notices.map(notice => `${org}: ${notice}`));
             }
 
         } catch (error: any) {
-            throw new Error(`GitHub API error: ${error.message}`);
+            throw new Error(`GitHub API error: ${error.status ? `${error.status} ` : ''}${error.message}`);
         }
 
         return result;
     }
 
-    async exportUserDataByEmail(email: string, org?: string): Promise<GitHubExportResult> {
+    /**
+     * Plan to remove the subject's logins from each organization; audit logs and
+     * contributions stay where they are. Memberships are only removed for supplied
+     * or high-confidence logins, since a commit author or public email match may be someone else
+     */
+    async planErasure(subject: DataSubject, matches: SubjectMatch[]): Promise<ErasureAction[]> {
+        const { logins } = this.selectLogins(subject, matches);
+        const orgs = await this.getOrganizations();
+        const actions: ErasureAction[] = [];
+        if (logins.length === 0) {
+            return actions;
+        }
+
         try {
-            // Search for users by email (this requires specific scopes and may not always work)
-            const searchResult = await this.octokit.rest.search.users({
-                q: `${email} in:email`
+            for (const org of orgs) {
+                for (const login of logins) {
+                    const match = matches.find(candidate => candidate.identifier === login && isConfirmedMatch(candidate));
+                    if (!match) continue;
+                    const membership = await this.getMembership(org, login);
+                    if (!membership) continue;
+
+                    actions.push({
+                        id: `github:membership:${org}:${login}`,
+                        providerId: this.id,
+                        type: 'delete',
+                        target: `${login} in ${org}`,
+                        description: membership.state === 'pending'
+                            ? `Cancel the pending invitation of ${login} to ${org}`
+                            : `Remove ${login} (${membership.role}) from ${org}, ending their access to its repositories`,
+                        match: { method: match.method, confidence: match.confidence },
+                        params: { org, login }
+                    });
+                }
+
+                actions.push({
+                    id: `github:audit-log:${org}`,
+                    providerId: this.id,
+                    type: 'retain',
+                    target: `${org} audit log`,
+                    description: `Audit log entries performed by or targeting ${logins.join(', ')}`,
+                    reason: AUDIT_LOG_REASON,
+                    categories: ['audit']
+                });
+            }
+        } catch (error: any) {
+            throw new Error(`GitHub API error: ${error.status ? `${error.status} ` : ''}${error.message}`);
+        }
+
+        for (const login of logins) {
+            actions.push({
+                id: `github:contributions:${login}`,
+                providerId: this.id,
+                type: 'retain',
+                target: `Contributions by ${login}`,
+                description: 'Public events, plus issues, pull requests, comments, reviews and commits in organization repositories',
+                reason: CONTRIBUTIONS_REASON,
+                categories: ['events', 'commits', ...ORG_CATEGORIES.filter(key => key !== 'audit')]
             });
+        }
+
+        return actions;
+    }
+
+    async executeErasure(_subject: DataSubject, _matches: SubjectMatch[], actions: ErasureAction[]): Promise<ErasureOutcome[]> {
+        const outcomes: ErasureOutcome[] = [];
 
-            if (searchResult.data.items.length === 0) {
-                throw new Error(`No GitHub user found with email: ${email}`);
+        for (const action of actions) {
+            const { org, login } = action.params || {};
+            try {
+                await this.octokit.rest.orgs.removeMembershipForUser({ org, username: login });
+                outcomes.push({ actionId: action.id, status: 'deleted', completedAt: new Date().toISOString() });
+            } catch (error: any) {
+                outcomes.push({ actionId: action.id, status: 'failed', error: error.message, completedAt: new Date().toISOString() });
             }
+        }
 
-            // Use the first matching user
-            const username = searchResult.data.items[0].login;
-            return this.exportUserData(username, org);
+        return outcomes;
+    }
 
-        } catch (error: any) {
-            // If email search fails, we can't proceed
-            throw new Error(`Could not find GitHub user by email ${email}: ${error.message}`);
+    async exportUserDataByEmail(email: string, orgs: string[] = []): Promise<GitHubExportResult> {
+        const resolution = await this.resolveEmail(email, orgs);
+        if (!resolution.login) {
+            throw new Error(`Could not find GitHub user by email ${email}`);
         }
+
+        const result = await this.exportUserData(resolution.login, orgs);
+        result.identities = [resolution];
+        return result;
     }
 }
+
+/**
+ * Append one login's export to the combined result
+ */
+function mergeExport(target: GitHubExportResult, source: GitHubExportResult): void {
+    target.events.push(...source.events);
+    target.notices.push(...source.notices);
+
+    for (const [org, organization] of Object.entries(source.organizations)) {
+        const existing = target.organizations[org];
+        for (const key of ORG_CATEGORIES) {
+            (existing[key] as any[]).push(...organization[key]);
+        }
+        existing.auditLog = existing.auditLog || organization.auditLog;
+    }
+}
+
+export const githubProviderFactory: ProviderFactory = {
+    id: 'github',
+    displayName: 'GitHub',
+    icon: '📁',
+    required: true,
+    setupHint: [
+        'Run: autopv login',
+        '   Or set GITHUB_TOKEN environment variable',
+        '   Or set GITHUB_APP_ID, GITHUB_APP_INSTALLATION_ID and GITHUB_APP_PRIVATE_KEY(_PATH)'
+    ],
+    isConfigured: (options: ProviderOptions) => resolveGitHubConnection(options.env) !== null,
+    create: (options: ProviderOptions) => new GitHubProvider(resolveGitHubConnection(options.env)!, {
+        orgs: options.githubOrgs,
+        discoverOrgs: options.githubAllOrgs,
+        includeCommits: options.githubCommits,
+        since: options.since,
+        until: options.until
+    })
+};
@@ -0,0 +1,417 @@
+/**
+ * GitHub Activity Exporter
+ * Collects issues, pull requests, comments, reviews, discussions and reactions
+ * authored by a user across an organization's repositories
+ */
+
+import { Octokit } from '@octokit/rest';
+
+export interface GitHubActivityRecord {
+    repository: string;
+    url: string;
+    createdAt: string;
+    updatedAt?: string;
+}
+
+export interface GitHubIssueRecord extends GitHubActivityRecord {
+    number: number;
+    title: string;
+    state: string;
+    body: string | null;
+    labels: string[];
+    closedAt: string | null;
+}
+
+export interface GitHubPullRequestRecord extends GitHubIssueRecord {
+    mergedAt: string | null;
+}
+
+export interface GitHubCommentRecord extends GitHubActivityRecord {
+    issueNumber: number;
+    onPullRequest: boolean;
+    body: string | null;
+}
+
+export interface GitHubReviewRecord extends GitHubActivityRecord {
+    pullNumber: number;
+    state: string;
+    body: string | null;
+}
+
+export interface GitHubReviewCommentRecord extends GitHubActivityRecord {
+    pullNumber: number;
+    path: string;
+    line: number | null;
+    body: string;
+}
+
+export interface GitHubDiscussionRecord extends GitHubActivityRecord {
+    number: number;
+    title: string;
+    category: string | null;
+    body: string;
+}
+
+export interface GitHubDiscussionCommentRecord extends GitHubActivityRecord {
+    discussionNumber: number;
+    body: string;
+    /** URL of the comment this one replies to */
+    replyTo?: string;
+}
+
+export interface GitHubReactionRecord extends GitHubActivityRecord {
+    content: string;
+    targetNumber: number;
+    onPullRequest: boolean;
+}
+
+export interface GitHubActivityExport {
+    issues: GitHubIssueRecord[];
+    pullRequests: GitHubPullRequestRecord[];
+    issueComments: GitHubCommentRecord[];
+    reviews: GitHubReviewRecord[];
+    reviewComments: GitHubReviewCommentRecord[];
+    discussions: GitHubDiscussionRecord[];
+    discussionComments: GitHubDiscussionCommentRecord[];
+    reactions: GitHubReactionRecord[];
+    notices: string[];
+}
+
+// The search API never returns more than 1000 results for a single query
+const SEARCH_RESULT_LIMIT = 1000;
+
+// Comments come with their first replies; longer threads are paged with the queries below
+const DISCUSSION_COMMENT_FIELDS = `
+  id body url createdAt updatedAt author { login }
+  replies(first: 20) {
+    pageInfo { hasNextPage endCursor }
+    nodes { body url createdAt updatedAt author { login } }
+  }`;
+
+const DISCUSSION_SEARCH_QUERY = `
+query($query: String!, $cursor: String) {
+  search(query: $query, type: DISCUSSION, first: 50, after: $cursor) {
+    discussionCount
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      ... on Discussion {
+        id number title body url createdAt updatedAt
+        author { login }
+        category { name }
+        repository { nameWithOwner }
+        comments(first: 100) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${DISCUSSION_COMMENT_FIELDS} }
+        }
+      }
+    }
+  }
+}`;
+
+const DISCUSSION_COMMENTS_QUERY = `
+query($id: ID!, $cursor: String) {
+  node(id: $id) {
+    ... on Discussion {
+      comments(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${DISCUSSION_COMMENT_FIELDS} }
+      }
+    }
+  }
+}`;
+
+const DISCUSSION_REPLIES_QUERY = `
+query($id: ID!, $cursor: String) {
+  node(id: $id) {
+    ... on DiscussionComment {
+      replies(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { body url createdAt updatedAt author { login } }
+      }
+    }
+  }
+}`;
+
+export class GitHubActivityExporter {
+    private octokit: Octokit;
+
+    constructor(octokit: Octokit) {
+        this.octokit = octokit;
+    }
+
+    /**
+     * Export everything the user authored in the organization
+     */
+    async exportActivity(login: string, org: string): Promise<GitHubActivityExport> {
+        const result: GitHubActivityExport = {
+            issues: [],
+            pullRequests: [],
+            issueComments: [],
+            reviews: [],
+            reviewComments: [],
+            discussions: [],
+            discussionComments: [],
+            reactions: [],
+            notices: []
+        };
+
+        const authored = await this.searchIssues(`org:${org} author:${login}`, result.notices);
+        for (const item of authored) {
+            if (item.pull_request) {
+                result.pullRequests.push({ ...this.toIssueRecord(item), mergedAt: item.pull_request.merged_at ?? null });
+            } else {
+                result.issues.push(this.toIssueRecord(item));
+            }
+        }
+
+        // Comments are only listed on threads the search API reports the user commented on
+        const commented = await this.searchIssues(`org:${org} commenter:${login}`, result.notices);
+        for (const item of commented) {
+            const [owner, repo] = this.repositoryName(item).split('/');
+            const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+                owner,
+                repo,
+                issue_number: item.number,
+                per_page: 100
+            });
+
+            for (const comment of comments) {
+                if (comment.user?.login !== login) continue;
+                result.issueComments.push({
+                    repository: this.repositoryName(item),
+                    url: comment.html_url,
+                    createdAt: comment.created_at,
+                    updatedAt: comment.updated_at,
+                    issueNumber: item.number,
+                    onPullRequest: Boolean(item.pull_request),
+                    body: comment.body ?? null
+                });
+            }
+        }
+
+        const reviewed = await this.searchIssues(`org:${org} is:pr reviewed-by:${login}`, result.notices);
+        for (const item of reviewed) {
+            const repository = this.repositoryName(item);
+            const [owner, repo] = repository.split('/');
+
+            const reviews = await this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+                owner,
+                repo,
+                pull_number: item.number,
+                per_page: 100
+            });
+            for (const review of reviews) {
+                if (review.user?.login !== login) continue;
+                result.reviews.push({
+                    repository,
+                    url: review.html_url,
+                    createdAt: review.submitted_at ?? item.created_at,
+                    pullNumber: item.number,
+                    state: review.state,
+                    body: review.body || null
+                });
+            }
+
+            const reviewComments = await this.octokit.paginate(this.octokit.rest.pulls.listReviewComments, {
+                owner,
+                repo,
+                pull_number: item.number,
+                per_page: 100
+            });
+            for (const comment of reviewComments) {
+                if (comment.user?.login !== login) continue;
+                result.reviewComments.push({
+                    repository,
+                    url: comment.html_url,
+                    createdAt: comment.created_at,
+                    updatedAt: comment.updated_at,
+                    pullNumber: item.number,
+                    path: comment.path,
+                    line: comment.line ?? null,
+                    body: comment.body
+                });
+            }
+        }
+
+        await this.collectDiscussions(login, org, result);
+
+        // Reactions cannot be searched, so only threads the user took part in are checked
+        const threads = new Map<string, any>();
+        for (const item of [...authored, ...commented, ...reviewed]) {
+            threads.set(item.html_url, item);
+        }
+        for (const item of threads.values()) {
+            const repository = this.repositoryName(item);
+            const [owner, repo] = repository.split('/');
+            const reactions = await this.octokit.paginate(this.octokit.rest.reactions.listForIssue, {
+                owner,
+                repo,
+                issue_number: item.number,
+                per_page: 100
+            });
+
+            for (const reaction of reactions) {
+                if (reaction.user?.login !== login) continue;
+                result.reactions.push({
+                    repository,
+                    url: item.html_url,
+                    createdAt: reaction.created_at,
+                    content: reaction.content,
+                    targetNumber: item.number,
+                    onPullRequest: Boolean(item.pull_request)
+                });
+            }
+        }
+        if (threads.size > 0) {
+            result.notices.push('GitHub reactions are only collected on issues and pull requests the subject authored, commented on or reviewed');
+        }
+
+        return result;
+    }
+
+    /**
+     * Run an issue search, recording a notice when results are truncated
+     */
+    private async searchIssues(query: string, notices: string[]): Promise<any[]> {
+        const items: any[] = [];
+        let totalCount = 0;
+
+        const iterator = this.octokit.paginate.iterator(this.octokit.rest.search.issuesAndPullRequests, {
+            q: query,
+            per_page: 100
+        });
+
+        for await (const response of iterator) {
+            totalCount = (response.data as any).total_count ?? totalCount;
+            items.push(...response.data);
+        }
+
+        if (totalCount > SEARCH_RESULT_LIMIT) {
+            notices.push(`GitHub search "${query}" matched ${totalCount} items; only the first ${SEARCH_RESULT_LIMIT} are included`);
+        }
+
+        return items;
+    }
+
+    private async collectDiscussions(login: string, org: string, result: GitHubActivityExport): Promise<void> {
+        try {
+            const discussions = new Map<string, any>();
+            for (const qualifier of [`author:${login}`, `commenter:${login}`]) {
+                let cursor: string | null = null;
+                do {
+                    const response: any = await this.octokit.graphql(DISCUSSION_SEARCH_QUERY, {
+                        query: `org:${org} ${qualifier}`,
+                        cursor
+                    });
+                    for (const node of response.search.nodes) {
+                        if (node?.url) discussions.set(node.url, node);
+                    }
+                    cursor = response.search.pageInfo.hasNextPage ? response.search.pageInfo.endCursor : null;
+                } while (cursor);
+            }
+
+            for (const discussion of discussions.values()) {
+                const repository = discussion.repository.nameWithOwner;
+                if (discussion.author?.login === login) {
+                    result.discussions.push({
+                        repository,
+                        url: discussion.url,
+                        createdAt: discussion.createdAt,
+                        updatedAt: discussion.updatedAt,
+                        number: discussion.number,
+                        title: discussion.title,
+                        category: discussion.category?.name ?? null,
+                        body: discussion.body
+                    });
+                }
+
+                try {
+                    for (const comment of await this.listDiscussionComments(discussion)) {
+                        if (comment.author?.login !== login) continue;
+                        result.discussionComments.push({
+                            repository,
+                            url: comment.url,
+                            createdAt: comment.createdAt,
+                            updatedAt: comment.updatedAt,
+                            discussionNumber: discussion.number,
+                            body: comment.body,
+                            ...(comment.replyTo ? { replyTo: comment.replyTo } : {})
+                        });
+                    }
+                } catch (error: any) {
+                    result.notices.push(`Comments on discussion ${discussion.url} could not be listed completely: ${error.message}`);
+                }
+            }
+        } catch (error: any) {
+            result.notices.push(`GitHub discussions could not be searched: ${error.message}`);
+        }
+    }
+
+    /**
+     * Every comment and reply of a discussion, paging past the ones the search returned
+     */
+    private async listDiscussionComments(discussion: any): Promise<any[]> {
+        const comments = [...discussion.comments.nodes];
+        let page = discussion.comments.pageInfo;
+        while (page?.hasNextPage) {
+            const response: any = await this.octokit.graphql(DISCUSSION_COMMENTS_QUERY, { id: discussion.id, cursor: page.endCursor });
+            comments.push(...response.node.comments.nodes);
+            page = response.node.comments.pageInfo;
+        }
+
+        const replies: any[] = [];
+        for (const comment of comments) {
+            const thread = [...(comment.replies?.nodes || [])];
+            let replyPage = comment.replies?.pageInfo;
+            while (replyPage?.hasNextPage) {
+                const response: any = await this.octokit.graphql(DISCUSSION_REPLIES_QUERY, { id: comment.id, cursor: replyPage.endCursor });
+                thread.push(...response.node.replies.nodes);
+                replyPage = response.node.replies.pageInfo;
+            }
+            replies.push(...thread.map(reply => ({ ...reply, replyTo: comment.url })));
+        }
+
+        return [...comments, ...replies];
+    }
+
+    private toIssueRecord(item: any): GitHubIssueRecord {
+        return {
+            repository: this.repositoryName(item),
+            url: item.html_url,
+            createdAt: item.created_at,
+            updatedAt: item.updated_at,
+            number: item.number,
+            title: item.title,
+            state: item.state,
+            body: item.body ?? null,
+            labels: (item.labels || []).map((label: any) => typeof label === 'string' ? label : label.name),
+            closedAt: item.closed_at ?? null
+        };
+    }
+
+    /**
+     * Extract "owner/name" from a search result's repository_url
+     */
+    private repositoryName(item: any): string {
+        return item.repository_url.split('/repos/')[1];
+    }
+}
+
+/**
+ * Group activity records by repository, counting each section
+ */
+export function groupActivityByRepository(sections: Record<string, unknown>): Record<string, Record<string, number>> {
+    const groups: Record<string, Record<string, number>> = {};
+
+    for (const [section, records] of Object.entries(sections)) {
+        if (!Array.isArray(records)) continue;
+        for (const record of records) {
+            const repository = record?.repository;
+            if (typeof repository !== 'string') continue;
+            groups[repository] = groups[repository] || {};
+            groups[repository][section] = (groups[repository][section] || 0) + 1;
+        }
+    }
+
+    return groups;
+}
@@ -0,0 +1,98 @@
+/**
+ * GitHub Audit Log Exporter
+ * Queries an organization's audit log for entries performed by or targeting a user
+ */
+
+import { Octokit } from '@octokit/rest';
+
+export interface GitHubAuditQuery {
+    login: string;
+    since?: string;
+    until?: string;
+}
+
+export interface GitHubAuditLogStatus {
+    status: 'exported' | 'unavailable';
+    phrases: string[];
+    entries: number;
+    reason?: string;
+}
+
+export interface GitHubAuditExport {
+    entries: any[];
+    auditLog: GitHubAuditLogStatus;
+}
+
+export class GitHubAuditExporter {
+    private octokit: Octokit;
+
+    constructor(octokit: Octokit) {
+        this.octokit = octokit;
+    }
+
+    /**
+     * Export every audit log entry where the user is the actor or the affected user
+     */
+    async exportAuditLog(org: string, query: GitHubAuditQuery): Promise<GitHubAuditExport> {
+        const phrases = buildAuditPhrases(query);
+        const entries = new Map<string, any>();
+
+        try {
+            for (const phrase of phrases) {
+                const iterator = this.octokit.paginate.iterator('GET /orgs/{org}/audit-log' as any, {
+                    org,
+                    phrase,
+                    include: 'all',
+                    per_page: 100
+                });
+
+                for await (const { data } of iterator) {
+                    for (const entry of data as any[]) {
+                        const key = entry._document_id || JSON.stringify(entry);
+                        entries.set(key, entry);
+                    }
+                }
+            }
+        } catch (error: any) {
+            const reason = error.status === 403 || error.status === 404
+                ? `Audit log for ${org} is not accessible; the token needs the admin:org scope and the organization must be on GitHub Enterprise Cloud (${error.message})`
+                : `Audit log for ${org} could not be read: ${error.message}`;
+
+            return {
+                entries: [],
+                auditLog: { status: 'unavailable', phrases, entries: 0, reason }
+            };
+        }
+
+        const sorted = [...entries.values()].sort((a, b) => (a['@timestamp'] || 0) - (b['@timestamp'] || 0));
+        return {
+            entries: sorted,
+            auditLog: { status: 'exported', phrases, entries: sorted.length }
+        };
+    }
+}
+
+/**
+ * Build audit log search phrases for the actor and the affected user
+ */
+export function buildAuditPhrases(query: GitHubAuditQuery): string[] {
+    const created = buildCreatedQualifier(query.since, query.until);
+    return ['actor', 'user'].map(qualifier =>
+        [`${qualifier}:${query.login}`, created].filter(Boolean).join(' ')
+    );
+}
+
+function buildCreatedQualifier(since?: string, until?: string): string | undefined {
+    const day = (iso: string) => iso.slice(0, 10);
+
+    if (since && until) {
+        return `created:${day(since)}..${day(until)}`;
+    }
+    if (since) {
+        return `created:>=${day(since)}`;
+    }
+    if (until) {
+        return `created:<=${day(until)}`;
+    }
+    return undefined;
+}
@@ -0,0 +1,97 @@
+/**
+ * GitHub Authentication
+ * Builds Octokit clients for github.com or GitHub Enterprise Server using
+ * either a personal access token or GitHub App installation credentials
+ */
+
+import { Octokit } from '@octokit/rest';
+import { createAppAuth } from '@octokit/auth-app';
+import { existsSync, readFileSync } from 'fs';
+import { RetryOptions, withRetry } from '../utils/retry.js';
+
+export type GitHubCredentials =
+    | { type: 'token'; token: string }
+    | { type: 'app'; appId: string; privateKey: string; installationId: string };
+
+export interface GitHubConnection {
+    credentials: GitHubCredentials;
+    baseUrl?: string;
+}
+
+/**
+ * Read GitHub credentials from the environment, preferring GitHub App auth
+ */
+export function resolveGitHubConnection(env: Record<string, string | undefined>): GitHubConnection | null {
+    const baseUrl = env.GITHUB_API_URL || undefined;
+
+    if (env.GITHUB_APP_ID && env.GITHUB_APP_INSTALLATION_ID) {
+        const privateKey = readPrivateKey(env);
+        if (privateKey) {
+            return {
+                baseUrl,
+                credentials: {
+                    type: 'app',
+                    appId: env.GITHUB_APP_ID,
+                    privateKey,
+                    installationId: env.GITHUB_APP_INSTALLATION_ID
+                }
+            };
+        }
+    }
+
+    if (env.GITHUB_TOKEN) {
+        return { baseUrl, credentials: { type: 'token', token: env.GITHUB_TOKEN } };
+    }
+
+    return null;
+}
+
+/**
+ * Create an Octokit client for the connection
+ *
+ * Every request is retried on rate limits (primary and secondary), server errors and
+ * network failures, honouring Retry-After and x-ratelimit-reset.
+ */
+export function createGitHubClient(connection: GitHubConnection, retry: RetryOptions = {}): Octokit {
+    const baseUrl = connection.baseUrl ? normalizeBaseUrl(connection.baseUrl) : undefined;
+
+    const octokit = connection.credentials.type === 'app'
+        ? new Octokit({
+            baseUrl,
+            authStrategy: createAppAuth,
+            auth: {
+                appId: connection.credentials.appId,
+                privateKey: connection.credentials.privateKey,
+                installationId: Number(connection.credentials.installationId)
+            }
+        })
+        : new Octokit({
+            baseUrl,
+            auth: connection.credentials.token,
+        });
+
+    octokit.hook.wrap('request', (request, options) => withRetry(async () => request(options), retry));
+    return octokit;
+}
+
+/**
+ * Accept either a GHES host URL or its REST API URL
+ */
+export function normalizeBaseUrl(url: string): string {
+    const trimmed = url.replace(/\/+$/, '');
+    if (/^https:\/\/api\.github\.com$/i.test(trimmed) || /\/api\/v3$/.test(trimmed)) {
+        return trimmed;
+    }
+    return `${trimmed}/api/v3`;
+}
+
+function readPrivateKey(env: Record<string, string | undefined>): string | null {
+    if (env.GITHUB_APP_PRIVATE_KEY) {
+        // Keys stored in a single env var usually carry escaped newlines
+        return env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
+    }
+    if (env.GITHUB_APP_PRIVATE_KEY_PATH && existsSync(env.GITHUB_APP_PRIVATE_KEY_PATH)) {
+        return readFileSync(env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf8');
+    }
+    return null;
+}
@@ -0,0 +1,137 @@
+/**
+ * GitHub Commit Exporter
+ * Walks every branch of an organization's repositories and lists commits
+ * attributed to a set of email addresses as author, committer or co-author
+ */
+
+import { Octokit } from '@octokit/rest';
+import { GitHubActivityRecord } from './githubActivity.js';
+
+export type GitHubCommitRole = 'author' | 'committer' | 'co-author';
+
+export interface GitHubCommitRecord extends GitHubActivityRecord {
+    sha: string;
+    message: string;
+    roles: GitHubCommitRole[];
+}
+
+export interface GitHubCommitQuery {
+    emails: string[];
+    since?: string;
+    until?: string;
+}
+
+export interface GitHubCommitExport {
+    commits: GitHubCommitRecord[];
+    repositoriesScanned: number;
+    notices: string[];
+}
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:.*<([^>]+)>\s*$/gim;
+
+export class GitHubCommitExporter {
+    private octokit: Octokit;
+
+    constructor(octokit: Octokit) {
+        this.octokit = octokit;
+    }
+
+    /**
+     * List commits on every branch of every organization repository that match the query emails
+     */
+    async exportCommits(org: string, query: GitHubCommitQuery): Promise<GitHubCommitExport> {
+        const result: GitHubCommitExport = {
+            commits: [],
+            repositoriesScanned: 0,
+            notices: []
+        };
+        const emails = new Set(query.emails.map(email => email.trim().toLowerCase()));
+
+        if (!query.since && !query.until) {
+            result.notices.push(`No date range given; the full commit history of every ${org} repository was scanned`);
+        }
+
+        const repositories = await this.octokit.paginate(this.octokit.rest.repos.listForOrg, {
+            org,
+            type: 'all',
+            per_page: 100
+        });
+
+        for (const repository of repositories) {
+            result.repositoriesScanned++;
+
+            try {
+                const branches = await this.octokit.paginate(this.octokit.rest.repos.listBranches, {
+                    owner: repository.owner.login,
+                    repo: repository.name,
+                    per_page: 100
+                });
+
+                // Branches share history, so each commit is only recorded once per repository
+                const seen = new Set<string>();
+                for (const branch of branches) {
+                    const iterator = this.octokit.paginate.iterator(this.octokit.rest.repos.listCommits, {
+                        owner: repository.owner.login,
+                        repo: repository.name,
+                        sha: branch.name,
+                        since: query.since,
+                        until: query.until,
+                        per_page: 100
+                    });
+
+                    for await (const { data: commits } of iterator) {
+                        for (const commit of commits) {
+                            if (seen.has(commit.sha)) continue;
+                            seen.add(commit.sha);
+
+                            const roles = matchCommitRoles(commit.commit, emails);
+                            if (roles.length === 0) continue;
+
+                            result.commits.push({
+                                repository: repository.full_name,
+                                url: commit.html_url,
+                                createdAt: commit.commit.author?.date || commit.commit.committer?.date || '',
+                                sha: commit.sha,
+                                message: commit.commit.message,
+                                roles
+                            });
+                        }
+                    }
+                }
+            } catch (error: any) {
+                // Empty repositories answer 409 Conflict
+                if (error.status !== 409) {
+                    result.notices.push(`Commits in ${repository.full_name} could not be listed: ${error.message}`);
+                }
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Determine how a commit is attributed to any of the given (lowercased) emails
+ */
+export function matchCommitRoles(
+    commit: { author?: { email?: string } | null; committer?: { email?: string } | null; message: string },
+    emails: Set<string>
+): GitHubCommitRole[] {
+    const roles: GitHubCommitRole[] = [];
+
+    if (commit.author?.email && emails.has(commit.author.email.toLowerCase())) {
+        roles.push('author');
+    }
+    if (commit.committer?.email && emails.has(commit.committer.email.toLowerCase())) {
+        roles.push('committer');
+    }
+
+    for (const trailer of commit.message.matchAll(CO_AUTHOR_TRAILER)) {
+        if (emails.has(trailer[1].trim().toLowerCase())) {
+            roles.push('co-author');
+            break;
+        }
+    }
+
+    return roles;
+}
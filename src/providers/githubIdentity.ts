@@ -0,0 +1,294 @@
+/**
+ * GitHub Identity Resolver
+ * Maps a data subject's email address to a GitHub login
+ */
+
+import { Octokit } from '@octokit/rest';
+import { MatchConfidence } from './types.js';
+
+export type GitHubMatchMethod =
+    | 'saml-identity'
+    | 'scim-identity'
+    | 'verified-domain-email'
+    | 'org-member-email'
+    | 'commit-author'
+    | 'public-email-search';
+
+export interface GitHubIdentityMatch {
+    login: string;
+    method: GitHubMatchMethod;
+    confidence: MatchConfidence;
+    evidence: string;
+}
+
+export interface GitHubResolutionAttempt {
+    method: GitHubMatchMethod;
+    status: 'matched' | 'no-match' | 'unavailable' | 'skipped';
+    detail?: string;
+}
+
+export interface GitHubIdentityResolution {
+    email: string;
+    /** Organization whose member and identity data was searched */
+    org?: string;
+    login: string | null;
+    confidence: MatchConfidence | null;
+    matches: GitHubIdentityMatch[];
+    attempts: GitHubResolutionAttempt[];
+}
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+const EXTERNAL_IDENTITIES_QUERY = `
+query($org: String!, $userName: String, $cursor: String) {
+  organization(login: $org) {
+    samlIdentityProvider {
+      externalIdentities(first: 100, after: $cursor, userName: $userName) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          samlIdentity { nameId emails { value } }
+          scimIdentity { username emails { value } }
+          user { login }
+        }
+      }
+    }
+  }
+}`;
+
+const ORG_MEMBERS_QUERY = `
+query($org: String!, $cursor: String) {
+  organization(login: $org) {
+    membersWithRole(first: 100, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes { login email organizationVerifiedDomainEmails(login: $org) }
+    }
+  }
+}`;
+
+export class GitHubIdentityResolver {
+    private octokit: Octokit;
+
+    constructor(octokit: Octokit) {
+        this.octokit = octokit;
+    }
+
+    /**
+     * Resolve an email to a GitHub login, trying the most authoritative sources first
+     */
+    async resolve(email: string, org?: string): Promise<GitHubIdentityResolution> {
+        const target = email.trim().toLowerCase();
+        const resolution: GitHubIdentityResolution = {
+            email,
+            org,
+            login: null,
+            confidence: null,
+            matches: [],
+            attempts: []
+        };
+
+        const strategies: Array<{
+            methods: GitHubMatchMethod[];
+            requiresOrg: boolean;
+            run: () => Promise<GitHubIdentityMatch[]>;
+        }> = [
+            { methods: ['saml-identity', 'scim-identity'], requiresOrg: true, run: () => this.matchExternalIdentities(target, org!) },
+            { methods: ['verified-domain-email', 'org-member-email'], requiresOrg: true, run: () => this.matchOrgMembers(target, org!) },
+            { methods: ['commit-author'], requiresOrg: false, run: () => this.matchCommitAuthors(target, org) },
+            { methods: ['public-email-search'], requiresOrg: false, run: () => this.matchPublicEmail(target) }
+        ];
+
+        for (const strategy of strategies) {
+            if (strategy.requiresOrg && !org) {
+                for (const method of strategy.methods) {
+                    resolution.attempts.push({ method, status: 'skipped', detail: 'No GitHub organization provided' });
+                }
+                continue;
+            }
+
+            try {
+                const matches = await strategy.run();
+                for (const method of strategy.methods) {
+                    const found = matches.filter(m => m.method === method);
+                    resolution.attempts.push({
+                        method,
+                        status: found.length > 0 ? 'matched' : 'no-match',
+                        detail: found.length > 0 ? found.map(m => m.login).join(', ') : undefined
+                    });
+                }
+                resolution.matches.push(...matches);
+            } catch (error: any) {
+                for (const method of strategy.methods) {
+                    resolution.attempts.push({ method, status: 'unavailable', detail: error.message });
+                }
+            }
+
+            // Stop once an authoritative match has been found
+            if (resolution.matches.some(m => m.confidence === 'high')) {
+                break;
+            }
+        }
+
+        resolution.matches = this.dedupeMatches(resolution.matches);
+        if (resolution.matches.length > 0) {
+            resolution.login = resolution.matches[0].login;
+            resolution.confidence = resolution.matches[0].confidence;
+        }
+
+        return resolution;
+    }
+
+    /**
+     * Match SAML NameID/emails and SCIM usernames/emails linked to org members
+     */
+    private async matchExternalIdentities(email: string, org: string): Promise<GitHubIdentityMatch[]> {
+        // Ask for the exact userName first, then fall back to scanning every identity
+        let nodes = await this.fetchExternalIdentities(org, email);
+        if (nodes.length === 0) {
+            nodes = await this.fetchExternalIdentities(org);
+        }
+
+        const matches: GitHubIdentityMatch[] = [];
+        for (const node of nodes) {
+            const login = node.user?.login;
+            if (!login) continue;
+
+            const samlValues = [node.samlIdentity?.nameId, ...(node.samlIdentity?.emails || []).map((e: any) => e.value)];
+            if (samlValues.some(value => value?.toLowerCase() === email)) {
+                matches.push({
+                    login,
+                    method: 'saml-identity',
+                    confidence: 'high',
+                    evidence: `SAML identity for ${org} is linked to ${login}`
+                });
+                continue;
+            }
+
+            const scimValues = [node.scimIdentity?.username, ...(node.scimIdentity?.emails || []).map((e: any) => e.value)];
+            if (scimValues.some(value => value?.toLowerCase() === email)) {
+                matches.push({
+                    login,
+                    method: 'scim-identity',
+                    confidence: 'high',
+                    evidence: `SCIM identity for ${org} is linked to ${login}`
+                });
+            }
+        }
+
+        return matches;
+    }
+
+    private async fetchExternalIdentities(org: string, userName?: string): Promise<any[]> {
+        const nodes: any[] = [];
+        let cursor: string | null = null;
+
+        do {
+            const response: any = await this.octokit.graphql(EXTERNAL_IDENTITIES_QUERY, { org, userName, cursor });
+            const provider = response.organization?.samlIdentityProvider;
+            if (!provider) {
+                throw new Error(`Organization ${org} has no SAML identity provider`);
+            }
+
+            nodes.push(...provider.externalIdentities.nodes);
+            cursor = provider.externalIdentities.pageInfo.hasNextPage
+                ? provider.externalIdentities.pageInfo.endCursor
+                : null;
+        } while (cursor);
+
+        return nodes;
+    }
+
+    /**
+     * Match org members by verified-domain email or public profile email
+     */
+    private async matchOrgMembers(email: string, org: string): Promise<GitHubIdentityMatch[]> {
+        const matches: GitHubIdentityMatch[] = [];
+        let cursor: string | null = null;
+
+        do {
+            const response: any = await this.octokit.graphql(ORG_MEMBERS_QUERY, { org, cursor });
+            const members = response.organization.membersWithRole;
+
+            for (const member of members.nodes) {
+                const verified: string[] = member.organizationVerifiedDomainEmails || [];
+                if (verified.some(value => value.toLowerCase() === email)) {
+                    matches.push({
+                        login: member.login,
+                        method: 'verified-domain-email',
+                        confidence: 'high',
+                        evidence: `Email is a verified domain email of ${org} member ${member.login}`
+                    });
+                } else if (member.email && member.email.toLowerCase() === email) {
+                    matches.push({
+                        login: member.login,
+                        method: 'org-member-email',
+                        confidence: 'high',
+                        evidence: `Email is the public profile email of ${org} member ${member.login}`
+                    });
+                }
+            }
+
+            cursor = members.pageInfo.hasNextPage ? members.pageInfo.endCursor : null;
+        } while (cursor);
+
+        return matches;
+    }
+
+    /**
+     * Match the GitHub account attached to commits authored with the email
+     */
+    private async matchCommitAuthors(email: string, org?: string): Promise<GitHubIdentityMatch[]> {
+        const query = org ? `author-email:${email} org:${org}` : `author-email:${email}`;
+        const response = await this.octokit.rest.search.commits({ q: query, per_page: 100 });
+
+        const logins = new Map<string, number>();
+        for (const item of response.data.items) {
+            const login = item.author?.login;
+            if (login) {
+                logins.set(login, (logins.get(login) || 0) + 1);
+            }
+        }
+
+        return [...logins.entries()].map(([login, count]) => ({
+            login,
+            method: 'commit-author' as const,
+            confidence: 'medium' as const,
+            evidence: `${count} commit(s) authored with this email are attributed to ${login}`
+        }));
+    }
+
+    /**
+     * Match a user whose public profile email equals the subject's email
+     */
+    private async matchPublicEmail(email: string): Promise<GitHubIdentityMatch[]> {
+        const response = await this.octokit.rest.search.users({ q: `${email} in:email` });
+
+        // An ambiguous search result is not evidence of identity
+        if (response.data.items.length !== 1) {
+            return [];
+        }
+
+        const login = response.data.items[0].login;
+        return [{
+            login,
+            method: 'public-email-search',
+            confidence: 'low',
+            evidence: `User search for the email returned ${login}`
+        }];
+    }
+
+    /**
+     * Keep the most confident match per login, best first
+     */
+    private dedupeMatches(matches: GitHubIdentityMatch[]): GitHubIdentityMatch[] {
+        const byLogin = new Map<string, GitHubIdentityMatch>();
+        for (const match of matches) {
+            const key = match.login.toLowerCase();
+            const existing = byLogin.get(key);
+            if (!existing || CONFIDENCE_RANK[match.confidence] > CONFIDENCE_RANK[existing.confidence]) {
+                byLogin.set(key, match);
+            }
+        }
+
+        return [...byLogin.values()].sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence]);
+    }
+}
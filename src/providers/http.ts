@@ -0,0 +1,409 @@
+/**
+ * HTTP API Provider
+ * Calls the REST endpoints declared in the provider config, following their
+ * pagination and extracting record sets with JSONPath
+ */
+
+import { JSONPath } from 'jsonpath-plus';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectVariables } from './subject.js';
+import { fetchWithRetry } from '../utils/retry.js';
+
+export interface HttpRequestTemplate {
+    method?: 'GET' | 'POST';
+    /** Absolute URL or path relative to the source baseUrl; {name} placeholders are URL-encoded */
+    url: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+export type HttpAuthConfig =
+    | { type: 'bearer'; token: string }
+    | { type: 'basic'; username: string; password: string }
+    | { type: 'header'; name: string; value: string };
+
+export type HttpPagination =
+    /** Read the next cursor (or next page URL) from the response and send it as a query parameter */
+    | { type: 'cursor'; cursorPath: string; param: string }
+    /** Increment a page number until a page yields no records */
+    | { type: 'page'; param: string; start?: number; sizeParam?: string; size?: number }
+    /** Follow the rel="next" URL of the Link header */
+    | { type: 'link' };
+
+export interface HttpRecordSet {
+    name: string;
+    path: string;
+    label?: string;
+    description?: string;
+}
+
+export interface HttpIdentifierRequest extends HttpRequestTemplate {
+    /** Variable the extracted values are bound to, e.g. "userId" */
+    name: string;
+    path: string;
+}
+
+export interface HttpEndpointConfig extends HttpRequestTemplate {
+    name: string;
+    pagination?: HttpPagination;
+    maxPages?: number;
+    records: HttpRecordSet[];
+}
+
+export interface HttpSourceConfig {
+    name: string;
+    baseUrl?: string;
+    auth?: HttpAuthConfig;
+    headers?: Record<string, string>;
+    identify?: HttpIdentifierRequest[];
+    endpoints: HttpEndpointConfig[];
+}
+
+export interface HttpExportResult {
+    /** Records keyed by "<source>.<record set>" */
+    records: Record<string, unknown[]>;
+    notices: string[];
+}
+
+type Variables = Record<string, unknown[]>;
+
+const DEFAULT_MAX_PAGES = 100;
+const PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export class HttpProvider implements DataSourceProvider<HttpExportResult> {
+    readonly id = 'http';
+    readonly displayName = 'HTTP APIs';
+
+    private sources: HttpSourceConfig[];
+    private range: { since?: string; until?: string };
+    /** Failed identify requests per subject email, reported with the export */
+    private identifyNotices = new Map<string, string[]>();
+
+    constructor(sources: HttpSourceConfig[], range: { since?: string; until?: string } = {}) {
+        for (const source of sources) {
+            if (!source.name || !source.endpoints?.length) {
+                throw new Error('HTTP sources need a name and at least one endpoint');
+            }
+        }
+        this.sources = sources;
+        this.range = range;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const matches: SubjectMatch[] = [];
+        const notices: string[] = [];
+
+        for (const source of this.sources) {
+            const variables = this.baseVariables(subject);
+            for (const identifier of source.identify || []) {
+                const values = new Map<string, unknown>();
+                try {
+                    for (const binding of expandVariables(identifier, variables)) {
+                        const response = await this.send(source, identifier, binding);
+                        if (response.status === 404) continue;
+                        if (!response.ok) {
+                            throw new Error(`${response.status} ${response.statusText}`);
+                        }
+                        for (const value of extract(identifier.path, await response.json())) {
+                            if (value !== null && value !== undefined) values.set(String(value), value);
+                        }
+                    }
+                } catch (error: any) {
+                    // Like a failed endpoint, a failed identify request only leaves its endpoints without values
+                    notices.push(`HTTP source ${source.name} identify "${identifier.name}" failed: ${error.message}`);
+                    values.clear();
+                }
+                variables[identifier.name] = mergeValues(variables[identifier.name], [...values.values()]);
+
+                for (const value of values.keys()) {
+                    matches.push({
+                        providerId: this.id,
+                        identifier: value,
+                        kind: identifier.name,
+                        method: `http:${source.name}`,
+                        confidence: 'high',
+                        evidence: `Returned by the ${source.name} "${identifier.name}" identify request`
+                    });
+                }
+            }
+        }
+
+        this.identifyNotices.set(subject.email, notices);
+        return matches;
+    }
+
+    async exportData(subject: DataSubject, matches: SubjectMatch[]): Promise<HttpExportResult> {
+        const result: HttpExportResult = { records: {}, notices: [...this.identifyNotices.get(subject.email) || []] };
+        this.identifyNotices.delete(subject.email);
+
+        for (const source of this.sources) {
+            const variables = this.baseVariables(subject);
+            for (const identifier of source.identify || []) {
+                variables[identifier.name] = mergeValues(variables[identifier.name], matches
+                    .filter(match => match.method === `http:${source.name}` && match.kind === identifier.name)
+                    .map(match => match.identifier));
+            }
+
+            for (const endpoint of source.endpoints) {
+                for (const set of endpoint.records) {
+                    result.records[`${source.name}.${set.name}`] = [];
+                }
+
+                const missing = templateVariables(endpoint).filter(name => !(name in variables));
+                if (missing.length > 0) {
+                    result.notices.push(`HTTP endpoint ${source.name}.${endpoint.name} references unknown variables: ${missing.join(', ')}`);
+                    continue;
+                }
+
+                try {
+                    for (const binding of expandVariables(endpoint, variables)) {
+                        await this.collectPages(source, endpoint, binding, result);
+                    }
+                } catch (error: any) {
+                    result.notices.push(`HTTP endpoint ${source.name}.${endpoint.name} failed: ${error.message}`);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return this.sources.flatMap(source => source.endpoints.flatMap(endpoint => endpoint.records.map(set => ({
+            key: `${source.name}.${set.name}`,
+            label: set.label || `${source.name} ${set.name}`,
+            description: set.description || `Records extracted from the ${endpoint.name} endpoint of ${source.name}`
+        }))));
+    }
+
+    countRecords(result: HttpExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const category of this.describeDataCategories()) {
+            counts[category.key] = result.records[category.key]?.length || 0;
+        }
+        return counts;
+    }
+
+    listRecords(result: HttpExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const category of this.describeDataCategories()) {
+            records[category.key] = result.records[category.key] || [];
+        }
+        return records;
+    }
+
+    private async collectPages(
+        source: HttpSourceConfig,
+        endpoint: HttpEndpointConfig,
+        binding: Record<string, unknown>,
+        result: HttpExportResult
+    ): Promise<void> {
+        const pagination = endpoint.pagination;
+        const maxPages = endpoint.maxPages || DEFAULT_MAX_PAGES;
+        const extraQuery: Record<string, string> = {};
+        // Next page URLs come from the response; the source credentials are only sent back to where the first page came from
+        const firstUrl = new URL(renderString(endpoint.url, binding, encodeURIComponent), source.baseUrl);
+        let nextUrl: string | undefined;
+        let page = pagination?.type === 'page' ? pagination.start ?? 1 : 0;
+
+        for (let fetched = 0; ; fetched++) {
+            if (fetched === maxPages) {
+                result.notices.push(`HTTP endpoint ${source.name}.${endpoint.name} stopped after ${maxPages} pages`);
+                return;
+            }
+
+            if (pagination?.type === 'page') {
+                extraQuery[pagination.param] = String(page);
+                if (pagination.sizeParam && pagination.size) {
+                    extraQuery[pagination.sizeParam] = String(pagination.size);
+                }
+            }
+
+            const response = await this.send(source, endpoint, binding, extraQuery, nextUrl);
+            if (response.status === 404) return;
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+
+            const body = await response.json();
+            let extracted = 0;
+            for (const set of endpoint.records) {
+                const records = extract(set.path, body);
+                result.records[`${source.name}.${set.name}`].push(...records);
+                extracted += records.length;
+            }
+
+            if (!pagination) return;
+
+            if (pagination.type === 'page') {
+                if (extracted === 0) return;
+                page++;
+            } else if (pagination.type === 'cursor') {
+                const cursor = extract(pagination.cursorPath, body)[0];
+                if (cursor === null || cursor === undefined || cursor === '') return;
+                if (typeof cursor === 'string' && /^https?:\/\//i.test(cursor)) {
+                    nextUrl = cursor;
+                } else {
+                    extraQuery[pagination.param] = String(cursor);
+                }
+            } else {
+                const link = parseNextLink(response.headers.get('link'));
+                if (!link) return;
+                nextUrl = new URL(link, nextUrl || firstUrl).href;
+            }
+
+            if (nextUrl && new URL(nextUrl).origin !== firstUrl.origin) {
+                result.notices.push(`HTTP endpoint ${source.name}.${endpoint.name} stopped: the next page is on another host (${new URL(nextUrl).origin})`);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Render the request template for one variable binding and send it
+     */
+    private async send(
+        source: HttpSourceConfig,
+        template: HttpRequestTemplate,
+        binding: Record<string, unknown>,
+        extraQuery: Record<string, string> = {},
+        nextUrl?: string
+    ): Promise<Response> {
+        let url: URL;
+        if (nextUrl) {
+            url = new URL(nextUrl);
+        } else {
+            const path = renderString(template.url, binding, encodeURIComponent);
+            url = new URL(path, source.baseUrl);
+            for (const [key, value] of Object.entries(template.query || {})) {
+                const rendered = renderString(value, binding);
+                if (rendered !== '') url.searchParams.set(key, rendered);
+            }
+        }
+        for (const [key, value] of Object.entries(extraQuery)) {
+            url.searchParams.set(key, value);
+        }
+
+        const headers: Record<string, string> = { accept: 'application/json' };
+        for (const [key, value] of Object.entries({ ...source.headers, ...template.headers })) {
+            headers[key] = renderString(value, binding);
+        }
+        Object.assign(headers, authorizationHeaders(source.auth));
+
+        const init: RequestInit = { method: template.method || 'GET', headers };
+        if (template.body !== undefined) {
+            headers['content-type'] = 'application/json';
+            init.body = JSON.stringify(renderValue(template.body, binding));
+        }
+
+        return fetchWithRetry(url, init);
+    }
+
+    private baseVariables(subject: DataSubject): Variables {
+        return {
+            ...subjectVariables(subject),
+            since: [this.range.since ?? ''],
+            until: [this.range.until ?? '']
+        };
+    }
+}
+
+function mergeValues(known: unknown[] = [], found: unknown[]): unknown[] {
+    const values = new Map<string, unknown>();
+    for (const value of [...known, ...found]) {
+        values.set(String(value), value);
+    }
+    return [...values.values()];
+}
+
+/**
+ * Evaluate a JSONPath expression, always returning a flat list of matches
+ */
+function extract(path: string, json: any): unknown[] {
+    return JSONPath({ path, json, wrap: true }) as unknown[];
+}
+
+/**
+ * Extract the rel="next" URL from a Link header
+ */
+export function parseNextLink(header: string | null): string | undefined {
+    if (!header) return undefined;
+    for (const part of header.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;.*\brel="?next"?/i);
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+function authorizationHeaders(auth?: HttpAuthConfig): Record<string, string> {
+    if (!auth) return {};
+    switch (auth.type) {
+        case 'bearer':
+            return { authorization: `Bearer ${auth.token}` };
+        case 'basic':
+            return { authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+        case 'header':
+            return { [auth.name]: auth.value };
+    }
+}
+
+function renderString(template: string, binding: Record<string, unknown>, encode: (value: string) => string = value => value): string {
+    return template.replace(PLACEHOLDER, (_match, name: string) => {
+        if (!(name in binding)) {
+            throw new Error(`Missing value for template variable {${name}}`);
+        }
+        return encode(String(binding[name] ?? ''));
+    });
+}
+
+/**
+ * Render a JSON body template; a string that is exactly "{name}" keeps the value's type
+ */
+function renderValue(value: unknown, binding: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+        const whole = value.match(/^\{([A-Za-z_][A-Za-z0-9_]*)\}$/);
+        return whole && whole[1] in binding ? binding[whole[1]] : renderString(value, binding);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => renderValue(item, binding));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, binding)]));
+    }
+    return value;
+}
+
+function templateVariables(template: HttpRequestTemplate): string[] {
+    const text = JSON.stringify([template.url, template.query, template.headers, template.body]);
+    return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+/**
+ * One binding per combination of the list values the template references
+ */
+function expandVariables(template: HttpRequestTemplate, variables: Variables): Array<Record<string, unknown>> {
+    let bindings: Array<Record<string, unknown>> = [{}];
+    for (const name of templateVariables(template)) {
+        bindings = bindings.flatMap(partial => (variables[name] || []).map(value => ({ ...partial, [name]: value })));
+    }
+    return bindings;
+}
+
+export const httpProviderFactory: ProviderFactory = {
+    id: 'http',
+    displayName: 'HTTP APIs',
+    icon: '🌐',
+    isConfigured: (options: ProviderOptions) => Boolean(options.config?.http?.length),
+    create: (options: ProviderOptions) => new HttpProvider(options.config!.http!, {
+        since: options.since,
+        until: options.until
+    })
+};
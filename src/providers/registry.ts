@@ -0,0 +1,115 @@
+/**
+ * Provider Registry
+ * Holds the data source providers the generate pipeline iterates over
+ */
+
+import { auth0ProviderFactory } from './auth0.js';
+import { fileProviderFactory } from './files.js';
+import { githubProviderFactory } from './github.js';
+import { httpProviderFactory } from './http.js';
+import { s3ProviderFactory } from './s3.js';
+import { sqlProviderFactory } from './sql.js';
+import { stripeProviderFactory } from './stripe.js';
+import { zendeskProviderFactory } from './zendesk.js';
+import { DataSourceProvider, DataSubject, ProviderExport, ProviderFactory, ProviderOptions } from './types.js';
+
+export interface ProviderSelection {
+    providers: Array<{ factory: ProviderFactory; provider: DataSourceProvider }>;
+    missingRequired: ProviderFactory[];
+    skipped: ProviderFactory[];
+}
+
+export class ProviderRegistry {
+    private factories = new Map<string, ProviderFactory>();
+
+    /**
+     * Register a provider factory (replaces any factory with the same id)
+     */
+    register(factory: ProviderFactory): this {
+        this.factories.set(factory.id, factory);
+        return this;
+    }
+
+    /**
+     * Remove a provider factory
+     */
+    unregister(id: string): boolean {
+        return this.factories.delete(id);
+    }
+
+    get(id: string): ProviderFactory | undefined {
+        return this.factories.get(id);
+    }
+
+    /**
+     * List factories in registration order
+     */
+    list(): ProviderFactory[] {
+        return [...this.factories.values()];
+    }
+
+    /**
+     * Instantiate every configured provider, reporting the ones that were skipped
+     */
+    createProviders(options: ProviderOptions): ProviderSelection {
+        const selection: ProviderSelection = {
+            providers: [],
+            missingRequired: [],
+            skipped: []
+        };
+
+        for (const factory of this.factories.values()) {
+            if (factory.isConfigured(options)) {
+                selection.providers.push({ factory, provider: factory.create(options) });
+            } else if (factory.required) {
+                selection.missingRequired.push(factory);
+            } else {
+                selection.skipped.push(factory);
+            }
+        }
+
+        return selection;
+    }
+}
+
+/**
+ * Create a registry with the built-in providers
+ */
+export function createDefaultRegistry(): ProviderRegistry {
+    return new ProviderRegistry()
+        .register(githubProviderFactory)
+        .register(stripeProviderFactory)
+        .register(zendeskProviderFactory)
+        .register(auth0ProviderFactory)
+        .register(sqlProviderFactory)
+        .register(httpProviderFactory)
+        .register(fileProviderFactory)
+        .register(s3ProviderFactory);
+}
+
+/**
+ * Identify the subject in a provider and export their data
+ */
+export async function runProviderExport(provider: DataSourceProvider, subject: DataSubject): Promise<ProviderExport> {
+    const matches = await provider.identifySubject(subject);
+    const data = await provider.exportData(subject, matches);
+
+    // Only downloaded files can be archived; anything else under "attachments" is dropped
+    const reported: any[] = Array.isArray((data as any)?.attachments) ? (data as any).attachments : [];
+    const attachments = reported.filter(attachment => typeof attachment?.name === 'string' && typeof attachment?.path === 'string');
+    const notices: string[] = Array.isArray((data as any)?.notices) ? [...(data as any).notices] : [];
+    if (attachments.length < reported.length) {
+        notices.push(`${reported.length - attachments.length} attachments without a downloaded file were left out of the archive`);
+    }
+
+    return {
+        providerId: provider.id,
+        displayName: provider.displayName,
+        matches,
+        categories: provider.describeDataCategories(),
+        counts: provider.countRecords(data),
+        notices,
+        attachments,
+        data
+    };
+}
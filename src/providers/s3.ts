@@ -0,0 +1,385 @@
+/**
+ * S3 Object Storage Provider
+ * Lists and downloads the subject's objects from S3-compatible buckets using
+ * key prefix templates and user metadata search
+ */
+
+import {
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    S3Client
+} from '@aws-sdk/client-s3';
+import { createWriteStream, mkdirSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ProviderAttachment,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectVariables } from './subject.js';
+
+export interface S3MetadataSearch {
+    /** Prefix whose objects are inspected with HeadObject */
+    prefix: string;
+    /** User metadata keys compared against the subject's identifiers */
+    keys: string[];
+    maxObjects?: number;
+}
+
+export interface S3SourceConfig {
+    name: string;
+    label?: string;
+    bucket: string;
+    /** Key prefix templates such as "users/{userId}/"; without a trailing "/" a key must equal the rendered template or continue with "/" */
+    prefixes?: string[];
+    metadataSearch?: S3MetadataSearch;
+    region?: string;
+    /** Custom endpoint for S3-compatible storage such as MinIO */
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    credentials?: { accessKeyId: string; secretAccessKey: string; sessionToken?: string };
+    /** Set to false to record object metadata without downloading content */
+    download?: boolean;
+    maxObjects?: number;
+    maxBytes?: number;
+}
+
+export interface S3ObjectRecord {
+    bucket: string;
+    key: string;
+    size: number;
+    lastModified: string | null;
+    etag: string | null;
+    contentType: string | null;
+    metadata: Record<string, string>;
+    matchedBy: string;
+    /** Path of the downloaded copy inside the evidence archive */
+    attachment: string | null;
+}
+
+export interface S3ExportResult {
+    objects: Record<string, S3ObjectRecord[]>;
+    attachments: ProviderAttachment[];
+    notices: string[];
+}
+
+export type S3ClientFactory = (source: S3SourceConfig) => S3Client;
+
+interface S3Lookup {
+    objects: Record<string, S3ObjectRecord[]>;
+    matches: SubjectMatch[];
+    notices: string[];
+}
+
+const DEFAULT_MAX_OBJECTS = 1000;
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_METADATA_SCAN = 5000;
+const PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export class S3Provider implements DataSourceProvider<S3ExportResult> {
+    readonly id = 's3';
+    readonly displayName = 'S3 Storage';
+
+    private sources: S3SourceConfig[];
+    private attachmentDir?: string;
+    private createClient: S3ClientFactory;
+    private located = new Map<string, S3Lookup>();
+
+    constructor(sources: S3SourceConfig[], attachmentDir?: string, createClient: S3ClientFactory = createS3Client) {
+        for (const source of sources) {
+            if (!source.name || !source.bucket || (!source.prefixes?.length && !source.metadataSearch)) {
+                throw new Error('S3 sources need a name, a bucket and prefixes or a metadata search');
+            }
+        }
+        this.sources = sources;
+        this.attachmentDir = attachmentDir;
+        this.createClient = createClient;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const lookup = await this.locateObjects(subject);
+        this.located.set(subject.email, lookup);
+        return lookup.matches;
+    }
+
+    async exportData(subject: DataSubject): Promise<S3ExportResult> {
+        const lookup = this.located.get(subject.email) || await this.locateObjects(subject);
+        this.located.delete(subject.email);
+
+        const result: S3ExportResult = { objects: {}, attachments: [], notices: [...lookup.notices] };
+        let directory: string | undefined;
+
+        for (const source of this.sources) {
+            const client = this.createClient(source);
+            const records = lookup.objects[source.name] || [];
+
+            try {
+                // Fill in metadata for objects found by listing
+                for (const record of records) {
+                    if (record.matchedBy.startsWith('prefix:')) {
+                        const head = await client.send(new HeadObjectCommand({ Bucket: source.bucket, Key: record.key }));
+                        record.contentType = head.ContentType ?? null;
+                        record.metadata = head.Metadata || {};
+                    }
+                }
+
+                if (source.download !== false && records.length > 0) {
+                    // Each export downloads into its own directory so concurrent subjects never share files
+                    directory = directory || mkdtempSync(join(this.attachmentDir || tmpdir(), 'autopv-s3-'));
+                    await this.downloadObjects(client, source, directory, records, result);
+                }
+            } catch (error: any) {
+                result.notices.push(`S3 source ${source.name} could not be read: ${error.message}`);
+            }
+
+            result.objects[source.name] = records;
+        }
+
+        return result;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return this.sources.map(source => ({
+            key: source.name,
+            label: source.label || `S3: ${source.name}`,
+            description: `Objects stored for the subject in s3://${source.bucket}`
+        }));
+    }
+
+    countRecords(result: S3ExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const source of this.sources) {
+            counts[source.name] = result.objects[source.name]?.length || 0;
+        }
+        return counts;
+    }
+
+    listRecords(result: S3ExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const source of this.sources) {
+            records[source.name] = result.objects[source.name] || [];
+        }
+        return records;
+    }
+
+    /**
+     * List the subject's objects in every source; an identifier is only reported
+     * as a match once objects were found for it
+     */
+    private async locateObjects(subject: DataSubject): Promise<S3Lookup> {
+        const identifiers = subjectVariables(subject);
+        const lookup: S3Lookup = { objects: {}, matches: [], notices: [] };
+        const found = new Set<string>();
+        const matched = (kind: string, identifier: string, method: string, evidence: string) => {
+            if (found.has(`${kind}:${identifier}`)) return;
+            found.add(`${kind}:${identifier}`);
+            lookup.matches.push({ providerId: this.id, identifier, kind, method, confidence: 'high', evidence });
+        };
+
+        for (const source of this.sources) {
+            const client = this.createClient(source);
+            const objects = new Map<string, S3ObjectRecord>();
+            const maxObjects = source.maxObjects || DEFAULT_MAX_OBJECTS;
+
+            try {
+                for (const template of source.prefixes || []) {
+                    const prefixes = renderPrefixBindings(template, identifiers);
+                    if (prefixes.length === 0) {
+                        lookup.notices.push(`S3 prefix ${template} of ${source.name} references identifiers the subject does not have`);
+                    }
+                    for (const { prefix, values } of prefixes) {
+                        let listed = 0;
+                        for await (const object of listObjects(client, source.bucket, prefix)) {
+                            if (objects.size === maxObjects) break;
+                            // "users/{userId}" must not pick up users/421/ for user 42
+                            if (!template.endsWith('/') && object.Key !== prefix && !object.Key!.startsWith(`${prefix}/`)) continue;
+                            listed++;
+                            if (!objects.has(object.Key!)) {
+                                objects.set(object.Key!, toRecord(source.bucket, object, `prefix:${prefix}`));
+                            }
+                        }
+                        if (listed > 0) {
+                            for (const [kind, value] of values) {
+                                matched(kind, value, 'key-template', `Objects found under s3://${source.bucket}/${prefix}`);
+                            }
+                        }
+                    }
+                }
+
+                if (source.metadataSearch) {
+                    await this.searchMetadata(client, source, identifiers, objects, lookup.notices, (kind, value, key) =>
+                        matched(kind, value, 'object-metadata', `Object s3://${source.bucket}/${key} carries the identifier in its metadata`));
+                }
+
+                if (objects.size >= maxObjects) {
+                    lookup.notices.push(`S3 source ${source.name} stopped after ${maxObjects} objects`);
+                }
+            } catch (error: any) {
+                lookup.notices.push(`S3 source ${source.name} could not be read: ${error.message}`);
+            }
+
+            lookup.objects[source.name] = [...objects.values()];
+        }
+
+        return lookup;
+    }
+
+    private async searchMetadata(
+        client: S3Client,
+        source: S3SourceConfig,
+        identifiers: Record<string, string[]>,
+        objects: Map<string, S3ObjectRecord>,
+        notices: string[],
+        matched: (kind: string, value: string, key: string) => void
+    ): Promise<void> {
+        const search = source.metadataSearch!;
+        const wanted = new Map<string, [string, string]>();
+        for (const [kind, values] of Object.entries(identifiers)) {
+            for (const value of values) {
+                if (!wanted.has(value.toLowerCase())) wanted.set(value.toLowerCase(), [kind, value]);
+            }
+        }
+        const limit = search.maxObjects || DEFAULT_METADATA_SCAN;
+        let inspected = 0;
+
+        for await (const object of listObjects(client, source.bucket, search.prefix)) {
+            if (inspected === limit) {
+                notices.push(`S3 metadata search of ${source.name} stopped after inspecting ${limit} objects under ${search.prefix}`);
+                return;
+            }
+            inspected++;
+
+            const head = await client.send(new HeadObjectCommand({ Bucket: source.bucket, Key: object.Key! }));
+            const metadata = head.Metadata || {};
+            const key = search.keys.find(name => metadata[name] && wanted.has(metadata[name].toLowerCase()));
+            if (!key) continue;
+            matched(...wanted.get(metadata[key].toLowerCase())!, object.Key!);
+            if (objects.has(object.Key!)) continue;
+
+            objects.set(object.Key!, {
+                ...toRecord(source.bucket, object, `metadata:${key}`),
+                contentType: head.ContentType ?? null,
+                metadata
+            });
+        }
+    }
+
+    /**
+     * Stream objects to the attachment directory until the byte budget is spent
+     */
+    private async downloadObjects(
+        client: S3Client,
+        source: S3SourceConfig,
+        directory: string,
+        records: S3ObjectRecord[],
+        result: S3ExportResult
+    ): Promise<void> {
+        const maxBytes = source.maxBytes || DEFAULT_MAX_BYTES;
+        let downloaded = 0;
+
+        for (const record of records) {
+            if (downloaded + record.size > maxBytes) {
+                result.notices.push(`S3 object ${record.key} of ${source.name} was not downloaded; the ${maxBytes} byte limit was reached`);
+                continue;
+            }
+
+            const name = `attachments/${source.name}/${safeKey(record.key)}`;
+            const path = join(directory, name);
+            mkdirSync(dirname(path), { recursive: true });
+
+            const response = await client.send(new GetObjectCommand({ Bucket: source.bucket, Key: record.key }));
+            await pipeline(response.Body as Readable, createWriteStream(path));
+
+            downloaded += record.size;
+            record.attachment = name;
+            result.attachments.push({ name, path, size: record.size, contentType: record.contentType ?? undefined });
+        }
+    }
+}
+
+/**
+ * Expand a prefix template once per combination of identifier values
+ */
+export function renderPrefixes(template: string, identifiers: Record<string, string[]>): string[] {
+    return renderPrefixBindings(template, identifiers).map(({ prefix }) => prefix);
+}
+
+/**
+ * Rendered prefixes with the identifier values each one was built from
+ */
+function renderPrefixBindings(template: string, identifiers: Record<string, string[]>): Array<{ prefix: string; values: Array<[string, string]> }> {
+    let prefixes: Array<{ prefix: string; values: Array<[string, string]> }> = [{ prefix: template, values: [] }];
+    const names = [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+
+    for (const name of names) {
+        const values = identifiers[name] || [];
+        prefixes = prefixes.flatMap(({ prefix, values: bound }) => values.map(value => ({
+            prefix: prefix.split(`{${name}}`).join(value),
+            values: [...bound, [name, value] as [string, string]]
+        })));
+    }
+
+    return prefixes;
+}
+
+async function* listObjects(client: S3Client, bucket: string, prefix: string) {
+    let token: string | undefined;
+    do {
+        const page = await client.send(new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            ContinuationToken: token
+        }));
+        for (const object of page.Contents || []) {
+            // Skip "folder" placeholder objects
+            if (object.Key && !object.Key.endsWith('/')) yield object;
+        }
+        token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+}
+
+function toRecord(bucket: string, object: { Key?: string; Size?: number; LastModified?: Date; ETag?: string }, matchedBy: string): S3ObjectRecord {
+    return {
+        bucket,
+        key: object.Key!,
+        size: object.Size || 0,
+        lastModified: object.LastModified ? object.LastModified.toISOString() : null,
+        etag: object.ETag ? object.ETag.replace(/"/g, '') : null,
+        contentType: null,
+        metadata: {},
+        matchedBy,
+        attachment: null
+    };
+}
+
+/**
+ * Keep object keys from escaping the attachment directory
+ */
+function safeKey(key: string): string {
+    return key.split('/').filter(part => part && part !== '.' && part !== '..').join('/');
+}
+
+function createS3Client(source: S3SourceConfig): S3Client {
+    return new S3Client({
+        region: source.region || 'us-east-1',
+        endpoint: source.endpoint,
+        forcePathStyle: source.forcePathStyle ?? Boolean(source.endpoint),
+        credentials: source.credentials
+    });
+}
+
+export const s3ProviderFactory: ProviderFactory = {
+    id: 's3',
+    displayName: 'S3 Storage',
+    icon: '🪣',
+    isConfigured: (options: ProviderOptions) => Boolean(options.config?.s3?.length),
+    create: (options: ProviderOptions) => new S3Provider(options.config!.s3!, options.attachmentDir)
+};
@@ -0,0 +1,611 @@
+/**
+ * SQL Database Provider
+ * Runs the read-only, parameterized queries declared in the provider config
+ * against Postgres, MySQL or SQLite databases, and the erasure statements
+ * declared next to them
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ErasureAction,
+    ErasureOutcome,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectVariables } from './subject.js';
+
+export type SqlDriver = 'postgres' | 'mysql' | 'sqlite';
+
+export interface SqlIdentifierQuery {
+    /** Parameter name the returned values are bound to, e.g. "user_id" */
+    name: string;
+    sql: string;
+}
+
+export interface SqlQueryConfig {
+    name: string;
+    label?: string;
+    description?: string;
+    sql: string;
+}
+
+export interface SqlErasureStatement {
+    name: string;
+    description?: string;
+    /** DELETE or anonymizing UPDATE using the same :parameters as the export queries */
+    sql: string;
+    /** SELECT returning the number of rows the statement affects, shown in the erasure plan */
+    count?: string;
+}
+
+export interface SqlRetentionRule {
+    /** Export query whose rows are kept on erasure */
+    query: string;
+    /** Legal basis for keeping them, e.g. "Art. 17(3)(b) GDPR: invoices are kept for 10 years under tax law" */
+    reason: string;
+}
+
+export interface SqlSourceConfig {
+    name: string;
+    driver: SqlDriver;
+    /** Connection URL for postgres/mysql, database file path for sqlite */
+    connection: string;
+    identify?: SqlIdentifierQuery[];
+    queries: SqlQueryConfig[];
+    erase?: SqlErasureStatement[];
+    retain?: SqlRetentionRule[];
+}
+
+export type SqlRow = Record<string, unknown>;
+
+export interface SqlExportResult {
+    /** Rows keyed by "<source>.<query>" */
+    records: Record<string, SqlRow[]>;
+    notices: string[];
+}
+
+export interface SqlConnection {
+    query(sql: string, params: unknown[]): Promise<SqlRow[]>;
+    /** Run a write statement and return the number of rows it changed (write connections only) */
+    execute?(sql: string, params: unknown[]): Promise<number>;
+    /** Commit the writes made so far (write connections only) */
+    commit?(): Promise<void>;
+    close(): Promise<void>;
+}
+
+export type SqlConnector = (source: SqlSourceConfig, options?: { write?: boolean }) => Promise<SqlConnection>;
+
+// Parameters bound to the export date range rather than to the subject
+const RANGE_PARAMETERS = ['since', 'until'];
+
+const PLACEHOLDER = /'(?:[^']|'')*'|"(?:[^"]|"")*"|::|:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+export class SqlProvider implements DataSourceProvider<SqlExportResult> {
+    readonly id = 'sql';
+    readonly displayName = 'SQL Databases';
+
+    private sources: SqlSourceConfig[];
+    private range: { since?: string; until?: string };
+    private connect: SqlConnector;
+
+    constructor(
+        sources: SqlSourceConfig[],
+        range: { since?: string; until?: string } = {},
+        connect: SqlConnector = openSqlConnection
+    ) {
+        for (const source of sources) {
+            validateSource(source);
+        }
+        this.sources = sources;
+        this.range = range;
+        this.connect = connect;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const matches: SubjectMatch[] = [];
+
+        for (const source of this.sources) {
+            if (!source.identify?.length) continue;
+
+            const connection = await this.connect(source);
+            try {
+                const params = this.baseParameters(subject);
+                for (const identifier of source.identify) {
+                    const rows = await runQuery(connection, source.driver, identifier.sql, params);
+                    const values = uniqueValues(rows, identifier.name);
+                    params[identifier.name] = mergeValues(params[identifier.name], values);
+
+                    for (const value of values) {
+                        matches.push({
+                            providerId: this.id,
+                            identifier: String(value),
+                            kind: identifier.name,
+                            method: `sql:${source.name}`,
+                            confidence: 'high',
+                            evidence: `Returned by the ${source.name} "${identifier.name}" identify query`
+                        });
+                    }
+                }
+            } finally {
+                await connection.close();
+            }
+        }
+
+        return matches;
+    }
+
+    async exportData(subject: DataSubject, matches: SubjectMatch[]): Promise<SqlExportResult> {
+        const result: SqlExportResult = { records: {}, notices: [] };
+
+        for (const source of this.sources) {
+            const params = this.sourceParameters(source, subject, matches);
+
+            let connection: SqlConnection;
+            try {
+                connection = await this.connect(source);
+            } catch (error: any) {
+                result.notices.push(`SQL source ${source.name} could not be reached: ${error.message}`);
+                continue;
+            }
+
+            try {
+                for (const query of source.queries) {
+                    const key = `${source.name}.${query.name}`;
+                    const missing = referencedParameters(query.sql).filter(name => !(name in params));
+                    if (missing.length > 0) {
+                        result.notices.push(`SQL query ${key} references unknown parameters: ${missing.join(', ')}`);
+                        continue;
+                    }
+
+                    try {
+                        result.records[key] = await runQuery(connection, source.driver, query.sql, params);
+                    } catch (error: any) {
+                        result.notices.push(`SQL query ${key} failed: ${error.message}`);
+                    }
+                }
+            } finally {
+                await connection.close();
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Plan each source's erasure statements and the rows its retention rules keep
+     */
+    async planErasure(subject: DataSubject, matches: SubjectMatch[]): Promise<ErasureAction[]> {
+        const actions: ErasureAction[] = [];
+
+        for (const source of this.sources) {
+            if (!source.erase?.length && !source.retain?.length) continue;
+
+            const params = this.sourceParameters(source, subject, matches);
+            const connection = await this.connect(source);
+            try {
+                for (const statement of source.erase || []) {
+                    const counted = statement.count ? await runQuery(connection, source.driver, statement.count, params, false) : undefined;
+                    actions.push({
+                        id: `sql:${source.name}.${statement.name}`,
+                        providerId: this.id,
+                        type: 'delete',
+                        target: `${source.name} ${statement.name}`,
+                        description: statement.description || `Run the ${statement.name} erasure statement on ${source.name}`,
+                        records: counted?.reduce((total, row) => total + Number(Object.values(row)[0] || 0), 0),
+                        params: { source: source.name, statement: statement.name }
+                    });
+                }
+
+                for (const rule of source.retain || []) {
+                    const query = source.queries.find(candidate => candidate.name === rule.query)!;
+                    const rows = await runQuery(connection, source.driver, query.sql, params);
+                    if (rows.length === 0) continue;
+
+                    actions.push({
+                        id: `sql:${source.name}.${query.name}:retain`,
+                        providerId: this.id,
+                        type: 'retain',
+                        target: query.label || `${source.name} ${query.name}`,
+                        description: `Rows returned by the ${query.name} query on ${source.name}`,
+                        records: rows.length,
+                        reason: rule.reason,
+                        categories: [`${source.name}.${query.name}`]
+                    });
+                }
+            } finally {
+                await connection.close();
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * Run the planned statements of each source in one transaction; a failing
+     * statement rolls back every statement of its source
+     */
+    async executeErasure(subject: DataSubject, matches: SubjectMatch[], actions: ErasureAction[]): Promise<ErasureOutcome[]> {
+        const outcomes: ErasureOutcome[] = [];
+
+        for (const source of this.sources) {
+            const sourceActions = actions.filter(action => action.params?.source === source.name);
+            if (sourceActions.length === 0) continue;
+
+            const params = this.sourceParameters(source, subject, matches);
+            const completed: ErasureOutcome[] = [];
+            let connection: SqlConnection | undefined;
+            try {
+                connection = await this.connect(source, { write: true });
+                for (const action of sourceActions) {
+                    const statement = source.erase!.find(candidate => candidate.name === action.params!.statement)!;
+                    const records = await runStatement(connection, source.driver, statement.sql, params);
+                    completed.push({ actionId: action.id, status: 'deleted', records, completedAt: new Date().toISOString() });
+                }
+                await connection.commit!();
+                outcomes.push(...completed);
+            } catch (error: any) {
+                outcomes.push(...sourceActions.map(action => ({
+                    actionId: action.id,
+                    status: 'failed' as const,
+                    error: `${error.message} (no rows of ${source.name} were changed)`,
+                    completedAt: new Date().toISOString()
+                })));
+            } finally {
+                await connection?.close();
+            }
+        }
+
+        return outcomes;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return this.sources.flatMap(source => source.queries.map(query => ({
+            key: `${source.name}.${query.name}`,
+            label: query.label || `${source.name} ${query.name}`,
+            description: query.description || `Rows returned by the ${query.name} query on ${source.name}`
+        })));
+    }
+
+    countRecords(result: SqlExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const category of this.describeDataCategories()) {
+            counts[category.key] = result.records[category.key]?.length || 0;
+        }
+        return counts;
+    }
+
+    listRecords(result: SqlExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const category of this.describeDataCategories()) {
+            records[category.key] = result.records[category.key] || [];
+        }
+        return records;
+    }
+
+    /**
+     * Base parameters plus the ids the source's identify queries resolved
+     */
+    private sourceParameters(source: SqlSourceConfig, subject: DataSubject, matches: SubjectMatch[]): Record<string, unknown[]> {
+        const params = this.baseParameters(subject);
+        for (const identifier of source.identify || []) {
+            params[identifier.name] = mergeValues(params[identifier.name], matches
+                .filter(match => match.method === `sql:${source.name}` && match.kind === identifier.name)
+                .map(match => match.identifier));
+        }
+        return params;
+    }
+
+    /**
+     * Parameters every query may reference; values are lists so identify
+     * queries can resolve several ids for one subject
+     */
+    private baseParameters(subject: DataSubject): Record<string, unknown[]> {
+        return {
+            ...subjectVariables(subject),
+            since: [this.range.since ?? null],
+            until: [this.range.until ?? null]
+        };
+    }
+}
+
+/**
+ * Reject anything other than a single SELECT (or WITH ... SELECT) statement
+ */
+export function assertReadOnlyStatement(sql: string): void {
+    const statement = sql.trim().replace(/;\s*$/, '');
+    if (!/^(select|with)\b/i.test(statement)) {
+        throw new Error('Only SELECT statements are allowed in SQL provider queries');
+    }
+    if (statement.replace(PLACEHOLDER, match => match.startsWith(':') ? match : '').includes(';')) {
+        throw new Error('SQL provider queries must contain a single statement');
+    }
+}
+
+/**
+ * Accept a single DELETE or UPDATE statement whose WHERE clause references a subject
+ * parameter, such as :email, :userId or an identify query's name
+ */
+export function assertErasureStatement(sql: string): void {
+    const statement = sql.trim().replace(/;\s*$/, '');
+    if (!/^(delete|update)\b/i.test(statement)) {
+        throw new Error('SQL erasure statements must be a DELETE or UPDATE');
+    }
+    if (statement.replace(PLACEHOLDER, match => match.startsWith(':') ? match : '').includes(';')) {
+        throw new Error('SQL erasure statements must contain a single statement');
+    }
+    // Without a subject parameter in its WHERE clause the statement would erase every subject's rows;
+    // :since and :until narrow it by date but not to the subject
+    const code = statement.replace(PLACEHOLDER, match => match.startsWith(':') ? match : ' ');
+    const where = code.search(/\bwhere\b/i);
+    const scoped = where >= 0 && referencedParameters(code.slice(where)).some(name => !RANGE_PARAMETERS.includes(name));
+    if (!scoped) {
+        throw new Error('SQL erasure statements must be scoped to the subject with a WHERE clause on a subject parameter such as :email');
+    }
+}
+
+/**
+ * Convert :name placeholders to the driver's positional syntax
+ */
+export function compileNamedParameters(
+    sql: string,
+    driver: SqlDriver,
+    values: Record<string, unknown>
+): { text: string; params: unknown[] } {
+    const params: unknown[] = [];
+    const text = sql.replace(PLACEHOLDER, (match, name?: string) => {
+        if (!name) return match;
+        if (!(name in values)) {
+            throw new Error(`Missing value for SQL parameter :${name}`);
+        }
+        params.push(values[name]);
+        return driver === 'postgres' ? `$${params.length}` : '?';
+    });
+    return { text, params };
+}
+
+/**
+ * Open a connection inside a transaction, loading the driver package on demand
+ *
+ * Connections are read-only unless `write` is set; writes are only kept once committed.
+ */
+export async function openSqlConnection(source: SqlSourceConfig, options: { write?: boolean } = {}): Promise<SqlConnection> {
+    switch (source.driver) {
+        case 'postgres': {
+            const { default: pg } = await import('pg');
+            const client = new pg.Client({ connectionString: source.connection });
+            await client.connect();
+            await client.query(options.write ? 'BEGIN' : 'BEGIN TRANSACTION READ ONLY');
+            return {
+                query: async (sql, params) => {
+                    // A failed query aborts the whole transaction; rolling back to the savepoint keeps it usable
+                    await client.query('SAVEPOINT autopv_query');
+                    try {
+                        const { rows } = await client.query(sql, params);
+                        await client.query('RELEASE SAVEPOINT autopv_query');
+                        return rows;
+                    } catch (error) {
+                        await client.query('ROLLBACK TO SAVEPOINT autopv_query');
+                        throw error;
+                    }
+                },
+                execute: async (sql, params) => (await client.query(sql, params)).rowCount ?? 0,
+                commit: async () => {
+                    await client.query('COMMIT');
+                },
+                close: async () => {
+                    // A broken connection fails the rollback; the client is still closed
+                    try {
+                        await client.query('ROLLBACK');
+                    } finally {
+                        await client.end();
+                    }
+                }
+            };
+        }
+        case 'mysql': {
+            const mysql = await import('mysql2/promise');
+            const connection = await mysql.createConnection(source.connection);
+            await connection.query(options.write ? 'START TRANSACTION' : 'START TRANSACTION READ ONLY');
+            return {
+                query: async (sql, params) => {
+                    const [rows] = await connection.execute(sql, params as any[]);
+                    return rows as SqlRow[];
+                },
+                execute: async (sql, params) => {
+                    const [result] = await connection.execute(sql, params as any[]);
+                    return (result as any).affectedRows ?? 0;
+                },
+                commit: async () => {
+                    await connection.query('COMMIT');
+                },
+                close: async () => {
+                    try {
+                        await connection.query('ROLLBACK');
+                    } finally {
+                        await connection.end();
+                    }
+                }
+            };
+        }
+        case 'sqlite': {
+            // sql.js works on an in-memory copy; the database file is only written back on commit
+            const { default: initSqlJs } = await import('sql.js');
+            const SQL = await initSqlJs();
+            const database = new SQL.Database(readFileSync(source.connection));
+            return {
+                query: async (sql, params) => {
+                    const statement = database.prepare(sql);
+                    try {
+                        statement.bind(params as any[]);
+                        const rows: SqlRow[] = [];
+                        while (statement.step()) {
+                            rows.push(statement.getAsObject());
+                        }
+                        return rows;
+                    } finally {
+                        statement.free();
+                    }
+                },
+                execute: async (sql, params) => {
+                    database.run(sql, params as any[]);
+                    return database.getRowsModified();
+                },
+                commit: async () => writeFileSync(source.connection, database.export()),
+                close: async () => database.close()
+            };
+        }
+        default:
+            throw new Error(`Unsupported SQL driver: ${(source as SqlSourceConfig).driver}`);
+    }
+}
+
+/**
+ * Run a query once per combination of list parameter values and concatenate the rows
+ *
+ * A row matched by several combinations (the subject's two emails on one ticket) is
+ * kept once, unless `distinct` is false, as for counts that are summed.
+ */
+async function runQuery(
+    connection: SqlConnection,
+    driver: SqlDriver,
+    sql: string,
+    params: Record<string, unknown[]>,
+    distinct: boolean = true
+): Promise<SqlRow[]> {
+    const rows: SqlRow[] = [];
+    const names = referencedParameters(sql);
+    // Rows a single combination returns more than once are genuine duplicates and are all kept
+    const kept = new Map<string, number>();
+
+    for (const values of combinations(names, params)) {
+        const { text, params: positional } = compileNamedParameters(sql, driver, values);
+        const returned = new Map<string, number>();
+        for (const row of await connection.query(text, positional)) {
+            const normalized = normalizeRow(row);
+            const key = JSON.stringify(normalized);
+            const occurrence = (returned.get(key) || 0) + 1;
+            returned.set(key, occurrence);
+            if (!distinct || occurrence > (kept.get(key) || 0)) {
+                kept.set(key, occurrence);
+                rows.push(normalized);
+            }
+        }
+    }
+
+    return rows;
+}
+
+/**
+ * Run a write statement once per combination of list parameter values and total the changed rows
+ */
+async function runStatement(
+    connection: SqlConnection,
+    driver: SqlDriver,
+    sql: string,
+    params: Record<string, unknown[]>
+): Promise<number> {
+    let changed = 0;
+    for (const values of combinations(referencedParameters(sql), params)) {
+        const { text, params: positional } = compileNamedParameters(sql, driver, values);
+        changed += await connection.execute!(text, positional);
+    }
+    return changed;
+}
+
+function referencedParameters(sql: string): string[] {
+    const names = new Set<string>();
+    for (const match of sql.matchAll(PLACEHOLDER)) {
+        if (match[1]) names.add(match[1]);
+    }
+    return [...names];
+}
+
+function combinations(names: string[], params: Record<string, unknown[]>): Array<Record<string, unknown>> {
+    let result: Array<Record<string, unknown>> = [{}];
+    for (const name of names) {
+        result = result.flatMap(partial => (params[name] || []).map(value => ({ ...partial, [name]: value })));
+    }
+    return result;
+}
+
+function mergeValues(known: unknown[] = [], found: unknown[]): unknown[] {
+    const values = new Map<string, unknown>();
+    for (const value of [...known, ...found]) {
+        values.set(String(value), value);
+    }
+    return [...values.values()];
+}
+
+function uniqueValues(rows: SqlRow[], column: string): unknown[] {
+    const values = new Map<string, unknown>();
+    for (const row of rows) {
+        const value = column in row ? row[column] : Object.values(row)[0];
+        if (value !== null && value !== undefined) {
+            values.set(String(value), value);
+        }
+    }
+    return [...values.values()];
+}
+
+/**
+ * Make driver values JSON friendly
+ */
+function normalizeRow(row: SqlRow): SqlRow {
+    const normalized: SqlRow = {};
+    for (const [column, value] of Object.entries(row)) {
+        if (value instanceof Date) {
+            normalized[column] = value.toISOString();
+        } else if (typeof value === 'bigint') {
+            normalized[column] = value.toString();
+        } else if (value instanceof Uint8Array) {
+            normalized[column] = Buffer.from(value).toString('base64');
+        } else {
+            normalized[column] = value;
+        }
+    }
+    return normalized;
+}
+
+function validateSource(source: SqlSourceConfig): void {
+    if (!source.name || !source.driver || !source.connection) {
+        throw new Error('SQL sources need a name, driver and connection');
+    }
+    for (const statement of [...(source.identify || []), ...(source.queries || [])]) {
+        if (!statement.name) {
+            throw new Error(`Every identify and export query of SQL source ${source.name} needs a name`);
+        }
+        assertReadOnlyStatement(statement.sql);
+    }
+    for (const statement of source.erase || []) {
+        if (!statement.name) {
+            throw new Error(`Every erasure statement of SQL source ${source.name} needs a name`);
+        }
+        assertErasureStatement(statement.sql);
+        if (statement.count) {
+            assertReadOnlyStatement(statement.count);
+        }
+    }
+    for (const rule of source.retain || []) {
+        if (!source.queries.some(query => query.name === rule.query)) {
+            throw new Error(`SQL source ${source.name} retains unknown query ${rule.query}`);
+        }
+        if (!rule.reason) {
+            throw new Error(`SQL source ${source.name} must give a reason for retaining ${rule.query}`);
+        }
+    }
+}
+
+export const sqlProviderFactory: ProviderFactory = {
+    id: 'sql',
+    displayName: 'SQL Databases',
+    icon: '🗄️',
+    isConfigured: (options: ProviderOptions) => Boolean(options.config?.sql?.length),
+    create: (options: ProviderOptions) => new SqlProvider(options.config!.sql!, {
+        since: options.since,
+        until: options.until
+    })
+};
@@ -1,70 +1,542 @@
 import Stripe from 'stripe';
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ErasureAction,
+    ErasureOutcome,
+    ProviderFactory,
+    ProviderOptions,
+    RectificationChange,
+    RectificationOutcome,
+    SubjectMatch
+} from './types.js';
+import { subjectEmails } from './subject.js';
+import { RetryOptions, retryRequest } from '../utils/retry.js';
 
-export interface StripeExportResult {
+export interface StripeObjects {
     customers: Stripe.Customer[];
     charges: Stripe.Charge[];
     methods: Stripe.PaymentMethod[];
+    invoices: Stripe.Invoice[];
+    subscriptions: Stripe.Subscription[];
+    refunds: Stripe.Refund[];
+    disputes: Stripe.Dispute[];
+    checkoutSessions: Stripe.Checkout.Session[];
+    taxIds: Stripe.TaxId[];
+    balanceTransactions: Stripe.CustomerBalanceTransaction[];
+    quotes: Stripe.Quote[];
 }
 
-export class StripeProvider {
+export interface StripeAccountExport extends StripeObjects {
+    accountId: string;
+    accountName: string | null;
+}
+
+export interface StripeExportResult extends StripeObjects {
+    connectedAccounts: StripeAccountExport[];
+    notices: string[];
+}
+
+export interface StripeProviderOptions {
+    connect?: boolean;
+    accounts?: string[];
+    customerIds?: string[];
+    metadata?: Record<string, string>;
+}
+
+export interface StripeCustomerLookup {
+    email: string;
+    /** Further emails searched alongside the primary one */
+    emails?: string[];
+    customerIds?: string[];
+    metadata?: Record<string, string>;
+}
+
+export type StripeLookupMethod = 'email-search' | 'email-list' | 'customer-id' | 'metadata-search';
+
+export interface StripeCustomerMatch {
+    customer: Stripe.Customer;
+    methods: StripeLookupMethod[];
+}
+
+interface LocatedAccount {
+    accountId?: string;
+    accountName: string | null;
+    matches: StripeCustomerMatch[];
+}
+
+const OBJECT_KEYS: Array<keyof StripeObjects> = [
+    'customers',
+    'charges',
+    'methods',
+    'invoices',
+    'subscriptions',
+    'refunds',
+    'disputes',
+    'checkoutSessions',
+    'taxIds',
+    'balanceTransactions',
+    'quotes'
+];
+
+// Customer fields `autopv rectify` can correct, besides "address.<line>"
+const CUSTOMER_FIELDS = ['name', 'email', 'phone'] as const;
+const ADDRESS_FIELDS = ['line1', 'line2', 'city', 'state', 'postal_code', 'country'] as const;
+
+// Deleting a customer leaves its charges and invoices in Stripe, which keeps them as financial records
+const FINANCIAL_RECORDS_REASON = 'Art. 17(3)(b) GDPR: payment and invoice records are kept to meet statutory bookkeeping '
+    + 'and tax retention obligations, and Stripe retains them after the customer is deleted';
+
+export class StripeProvider implements DataSourceProvider<StripeExportResult> {
+    readonly id = 'stripe';
+    readonly displayName = 'Stripe';
+
     private stripe: Stripe;
+    private options: StripeProviderOptions;
+    private located = new Map<string, LocatedAccount[]>();
 
-    constructor(secretKey: string) {
+    constructor(secretKey: string, options: StripeProviderOptions = {}) {
         this.stripe = new Stripe(secretKey, {
             apiVersion: '2023-10-16',
+            // Retries are handled by the client below so they follow Retry-After and back off with jitter
+            maxNetworkRetries: 0,
+            httpClient: createRetryingHttpClient()
         });
+        this.options = options;
     }
 
-    async exportCustomerData(email: string): Promise<StripeExportResult> {
-        const result: StripeExportResult = {
-            customers: [],
-            charges: [],
-            methods: []
-        };
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const notices: string[] = [];
+        const located = await this.locateCustomers(this.buildLookup(subject), notices);
+        this.located.set(subject.email, located);
+
+        return located.flatMap(account => account.matches.map(match => ({
+            providerId: this.id,
+            identifier: match.customer.id,
+            kind: 'customer',
+            method: match.methods.join('+'),
+            confidence: 'high' as const,
+            evidence: account.accountId
+                ? `Found on connected account ${account.accountId}`
+                : 'Found on the platform account'
+        })));
+    }
+
+    async exportData(subject: DataSubject): Promise<StripeExportResult> {
+        const lookup = this.buildLookup(subject);
+        const located = this.located.get(subject.email);
+        this.located.delete(subject.email);
+
+        return located
+            ? this.exportLocatedCustomers(lookup, located)
+            : this.exportCustomerData(lookup);
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return [
+            { key: 'customers', label: 'Stripe Customers', description: 'Customer records matching the subject email' },
+            { key: 'charges', label: 'Stripe Charges', description: 'Payment charges made by the customer' },
+            { key: 'methods', label: 'Stripe Payment Methods', description: 'Stored payment methods' },
+            { key: 'invoices', label: 'Stripe Invoices', description: 'Invoices issued to the customer' },
+            { key: 'subscriptions', label: 'Stripe Subscriptions', description: 'Active and past subscriptions' },
+            { key: 'refunds', label: 'Stripe Refunds', description: 'Refunds issued on the customer\'s charges' },
+            { key: 'disputes', label: 'Stripe Disputes', description: 'Chargebacks raised on the customer\'s charges' },
+            { key: 'checkoutSessions', label: 'Stripe Checkout Sessions', description: 'Checkout sessions started by the customer' },
+            { key: 'taxIds', label: 'Stripe Tax IDs', description: 'Tax identifiers stored on the customer' },
+            { key: 'balanceTransactions', label: 'Stripe Balance Transactions', description: 'Customer credit balance adjustments' },
+            { key: 'quotes', label: 'Stripe Quotes', description: 'Quotes prepared for the customer' }
+        ];
+    }
+
+    countRecords(result: StripeExportResult): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const key of OBJECT_KEYS) {
+            counts[key] = result[key].length
+                + result.connectedAccounts.reduce((total, account) => total + account[key].length, 0);
+        }
+        return counts;
+    }
+
+    listRecords(result: StripeExportResult): Record<string, unknown[]> {
+        const records: Record<string, unknown[]> = {};
+        for (const key of OBJECT_KEYS) {
+            records[key] = [
+                ...result[key],
+                ...result.connectedAccounts.flatMap(account => account[key].map(record => ({ connectedAccount: account.accountId, ...record })))
+            ];
+        }
+        return records;
+    }
+
+    /**
+     * Plan to delete every matched customer, keeping their charges and invoices
+     */
+    async planErasure(subject: DataSubject): Promise<ErasureAction[]> {
+        const located = this.located.get(subject.email) || await this.locateCustomers(this.buildLookup(subject), []);
+        this.located.delete(subject.email);
+        const actions: ErasureAction[] = [];
 
         try {
-            // Search for customers by email
-            const customerSearch = await this.stripe.customers.search({
-                query: `email:'${email}'`,
-                limit: 100
-            });
+            for (const account of located) {
+                const requestOptions = account.accountId ? { stripeAccount: account.accountId } : undefined;
+                const location = account.accountId ? ` on ${account.accountId}` : '';
 
-            result.customers = customerSearch.data;
+                for (const { customer, methods } of account.matches) {
+                    actions.push({
+                        id: `stripe:customer:${customer.id}`,
+                        providerId: this.id,
+                        type: 'delete',
+                        target: `Stripe customer ${customer.id}${location}`,
+                        description: 'Delete the customer; Stripe also removes its saved payment methods and cancels its subscriptions',
+                        records: 1,
+                        match: { method: methods.join('+'), confidence: 'high' },
+                        params: account.accountId ? { customerId: customer.id, accountId: account.accountId } : { customerId: customer.id }
+                    });
 
-            if (result.customers.length === 0) {
-                console.warn(`No Stripe customers found with email: ${email}`);
-                return result;
+                    const charges = await this.listAll(this.stripe.charges.list({ customer: customer.id, limit: 100 }, requestOptions));
+                    const invoices = await this.listAll(this.stripe.invoices.list({ customer: customer.id, limit: 100 }, requestOptions));
+                    if (charges.length + invoices.length > 0) {
+                        actions.push({
+                            id: `stripe:financial-records:${customer.id}`,
+                            providerId: this.id,
+                            type: 'retain',
+                            target: `Charges and invoices of ${customer.id}${location}`,
+                            description: `${charges.length} charges and ${invoices.length} invoices remain after the customer is deleted`,
+                            records: charges.length + invoices.length,
+                            reason: FINANCIAL_RECORDS_REASON,
+                            categories: ['charges', 'refunds', 'disputes', 'invoices']
+                        });
+                    }
+                }
             }
+        } catch (error: any) {
+            throw new Error(`Stripe API error: ${error.statusCode ? `${error.statusCode} ` : ''}${error.message}`);
+        }
 
-            // For each customer, get their charges and payment methods
-            for (const customer of result.customers) {
-                try {
-                    // Get charges for this customer
-                    const charges = await this.stripe.charges.list({
-                        customer: customer.id,
-                        limit: 100
-                    });
-                    result.charges.push(...charges.data);
+        return actions;
+    }
+
+    async executeErasure(_subject: DataSubject, _matches: SubjectMatch[], actions: ErasureAction[]): Promise<ErasureOutcome[]> {
+        const outcomes: ErasureOutcome[] = [];
 
-                    // Get payment methods for this customer
-                    const paymentMethods = await this.stripe.paymentMethods.list({
-                        customer: customer.id,
-                        limit: 100
+        for (const action of actions) {
+            const { customerId, accountId } = action.params || {};
+            try {
+                await this.stripe.customers.del(customerId, {}, accountId ? { stripeAccount: accountId } : undefined);
+                outcomes.push({ actionId: action.id, status: 'deleted', records: 1, completedAt: new Date().toISOString() });
+            } catch (error: any) {
+                outcomes.push({ actionId: action.id, status: 'failed', error: error.message, completedAt: new Date().toISOString() });
+            }
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Plan the corrections of every matched customer whose current value differs
+     */
+    async planRectification(subject: DataSubject, _matches: SubjectMatch[], corrections: Record<string, string>): Promise<RectificationChange[]> {
+        const located = this.located.get(subject.email) || await this.locateCustomers(this.buildLookup(subject), []);
+        this.located.delete(subject.email);
+        const changes: RectificationChange[] = [];
+
+        for (const account of located) {
+            const location = account.accountId ? ` on ${account.accountId}` : '';
+            for (const { customer } of account.matches) {
+                for (const [field, after] of Object.entries(corrections)) {
+                    const before = customerField(customer, field);
+                    if (before === undefined || before === after) continue;
+
+                    changes.push({
+                        id: `stripe:customer:${customer.id}:${field}`,
+                        providerId: this.id,
+                        target: `Stripe customer ${customer.id}${location}`,
+                        field,
+                        before,
+                        after,
+                        params: account.accountId ? { customerId: customer.id, accountId: account.accountId } : { customerId: customer.id }
                     });
-                    result.methods.push(...paymentMethods.data);
+                }
+            }
+        }
+
+        return changes;
+    }
 
-                } catch (customerError: any) {
-                    console.warn(`Error fetching data for customer ${customer.id}:`, customerError.message);
+    /**
+     * Apply each customer's changes in one update
+     *
+     * Address lines are merged into the customer's current address, since Stripe
+     * replaces the address as a whole.
+     */
+    async executeRectification(_subject: DataSubject, _matches: SubjectMatch[], changes: RectificationChange[]): Promise<RectificationOutcome[]> {
+        const outcomes: RectificationOutcome[] = [];
+        const byCustomer = new Map<string, RectificationChange[]>();
+        for (const change of changes) {
+            const key = `${change.params?.accountId || ''}/${change.params?.customerId}`;
+            byCustomer.set(key, [...(byCustomer.get(key) || []), change]);
+        }
+
+        for (const customerChanges of byCustomer.values()) {
+            const { customerId, accountId } = customerChanges[0].params || {};
+            const requestOptions = accountId ? { stripeAccount: accountId } : undefined;
+            try {
+                const update: Stripe.CustomerUpdateParams = {};
+                if (customerChanges.some(change => change.field.startsWith('address.'))) {
+                    const current = await this.stripe.customers.retrieve(customerId, {}, requestOptions);
+                    if (current.deleted) {
+                        throw new Error(`Customer ${customerId} has been deleted`);
+                    }
+                    const { address } = current as Stripe.Customer;
+                    update.address = ADDRESS_FIELDS.reduce((merged, key) => ({ ...merged, [key]: address?.[key] ?? '' }), {});
                 }
+                for (const change of customerChanges) {
+                    if (change.field.startsWith('address.')) {
+                        update.address = { ...update.address as Stripe.AddressParam, [change.field.slice('address.'.length)]: change.after };
+                    } else {
+                        (update as Record<string, string>)[change.field] = change.after;
+                    }
+                }
+
+                const updated = await this.stripe.customers.update(customerId, update, requestOptions);
+                outcomes.push(...customerChanges.map(change => ({
+                    changeId: change.id,
+                    status: 'updated' as const,
+                    value: customerField(updated, change.field) ?? null,
+                    completedAt: new Date().toISOString()
+                })));
+            } catch (error: any) {
+                outcomes.push(...customerChanges.map(change => ({
+                    changeId: change.id,
+                    status: 'failed' as const,
+                    error: error.message,
+                    completedAt: new Date().toISOString()
+                })));
+            }
+        }
+
+        return outcomes;
+    }
+
+    async exportCustomerData(lookup: string | StripeCustomerLookup): Promise<StripeExportResult> {
+        const normalized = typeof lookup === 'string' ? { email: lookup } : lookup;
+        const notices: string[] = [];
+        const located = await this.locateCustomers(normalized, notices);
+        const result = await this.exportLocatedCustomers(normalized, located);
+        result.notices.unshift(...notices);
+        return result;
+    }
+
+    private async exportLocatedCustomers(lookup: StripeCustomerLookup, located: LocatedAccount[]): Promise<StripeExportResult> {
+        const result: StripeExportResult = {
+            ...this.createEmptyObjects(),
+            connectedAccounts: [],
+            notices: []
+        };
+
+        try {
+            for (const account of located) {
+                const target: StripeObjects = account.accountId
+                    ? { accountId: account.accountId, accountName: account.accountName, ...this.createEmptyObjects() } as StripeAccountExport
+                    : result;
+                target.customers = account.matches.map(match => match.customer);
+
+                // For each customer, get every object type that references them
+                const requestOptions = account.accountId ? { stripeAccount: account.accountId } : undefined;
+                for (const customer of target.customers) {
+                    try {
+                        await this.exportCustomerObjects(customer.id, target, requestOptions);
+                    } catch (customerError: any) {
+                        const location = account.accountId ? ` on ${account.accountId}` : '';
+                        result.notices.push(`Error fetching data for customer ${customer.id}${location}: ${customerError.message}`);
+                    }
+                }
+
+                if (account.accountId && target.customers.length > 0) {
+                    result.connectedAccounts.push(target as StripeAccountExport);
+                }
+            }
+
+            if (result.customers.length === 0 && result.connectedAccounts.length === 0) {
+                result.notices.push(`No Stripe customers found with email: ${[...new Set([lookup.email, ...(lookup.emails || [])])].join(', ')}`);
             }
 
         } catch (error: any) {
-            throw new Error(`Stripe API error: ${error.message}`);
+            throw new Error(`Stripe API error: ${error.statusCode ? `${error.statusCode} ` : ''}${error.message}`);
         }
 
         return result;
     }
 
+    /**
+     * Find the subject's customers on the platform and, with Connect enabled, on connected accounts
+     */
+    private async locateCustomers(lookup: StripeCustomerLookup, notices: string[]): Promise<LocatedAccount[]> {
+        try {
+            const located: LocatedAccount[] = [{
+                accountName: null,
+                matches: await this.findCustomers(lookup, notices)
+            }];
+
+            // Stripe Connect: repeat the lookup on each connected account
+            if (this.options.connect || this.options.accounts?.length) {
+                for (const account of await this.listConnectedAccounts()) {
+                    located.push({
+                        accountId: account.id,
+                        accountName: account.business_profile?.name || account.settings?.dashboard?.display_name || null,
+                        matches: await this.findCustomers(lookup, notices, account.id)
+                    });
+                }
+            }
+
+            return located;
+        } catch (error: any) {
+            throw new Error(`Stripe API error: ${error.statusCode ? `${error.statusCode} ` : ''}${error.message}`);
+        }
+    }
+
+    /**
+     * Look up customers in one account by email, known IDs and metadata
+     *
+     * The Search API is eventually consistent and not available in every region,
+     * so its results are merged with an exact customers.list lookup.
+     */
+    private async findCustomers(lookup: StripeCustomerLookup, notices: string[], stripeAccount?: string): Promise<StripeCustomerMatch[]> {
+        const requestOptions = stripeAccount ? { stripeAccount } : undefined;
+        const location = stripeAccount ? ` on ${stripeAccount}` : '';
+        const matches = new Map<string, StripeCustomerMatch>();
+        const add = (customer: Stripe.Customer, method: StripeLookupMethod) => {
+            const existing = matches.get(customer.id);
+            if (existing) {
+                if (!existing.methods.includes(method)) existing.methods.push(method);
+            } else {
+                matches.set(customer.id, { customer, methods: [method] });
+            }
+        };
+
+        for (const email of [...new Set([lookup.email, ...(lookup.emails || [])])]) {
+            try {
+                const found = await this.listAll(this.stripe.customers.search({
+                    query: `email:'${escapeSearchValue(email)}'`,
+                    limit: 100
+                }, requestOptions));
+                found.forEach(customer => add(customer, 'email-search'));
+            } catch (error: any) {
+                notices.push(`Stripe customer search unavailable${location}, using customer list only: ${error.message}`);
+            }
+
+            const listed = await this.listAll(this.stripe.customers.list({ email, limit: 100 }, requestOptions));
+            listed.forEach(customer => add(customer, 'email-list'));
+        }
+
+        // Known IDs are only looked up on the platform account
+        if (!stripeAccount) {
+            for (const customerId of lookup.customerIds || []) {
+                try {
+                    const customer = await this.stripe.customers.retrieve(customerId);
+                    if ('deleted' in customer && customer.deleted) {
+                        notices.push(`Stripe customer ${customerId} has been deleted`);
+                    } else {
+                        add(customer as Stripe.Customer, 'customer-id');
+                    }
+                } catch (error: any) {
+                    notices.push(`Stripe customer ${customerId} could not be retrieved: ${error.message}`);
+                }
+            }
+        }
+
+        for (const [key, value] of Object.entries(lookup.metadata || {})) {
+            try {
+                const found = await this.listAll(this.stripe.customers.search({
+                    query: `metadata['${escapeSearchValue(key)}']:'${escapeSearchValue(value)}'`,
+                    limit: 100
+                }, requestOptions));
+                found.forEach(customer => add(customer, 'metadata-search'));
+            } catch (error: any) {
+                notices.push(`Stripe metadata search for ${key}${location} failed: ${error.message}`);
+            }
+        }
+
+        return [...matches.values()];
+    }
+
+    private buildLookup(subject: DataSubject): StripeCustomerLookup {
+        return {
+            email: subject.email,
+            emails: subjectEmails(subject),
+            customerIds: [...new Set([...(this.options.customerIds || []), ...(subject.stripeCustomerIds || [])])],
+            metadata: this.options.metadata
+        };
+    }
+
+    /**
+     * Fetch all objects belonging to one customer, following every page
+     */
+    private async exportCustomerObjects(
+        customerId: string,
+        target: StripeObjects,
+        requestOptions?: Stripe.RequestOptions
+    ): Promise<void> {
+        const charges = await this.listAll(this.stripe.charges.list({ customer: customerId, limit: 100 }, requestOptions));
+        target.charges.push(...charges);
+
+        target.methods.push(...await this.listAll(this.stripe.paymentMethods.list({ customer: customerId, limit: 100 }, requestOptions)));
+        target.invoices.push(...await this.listAll(this.stripe.invoices.list({ customer: customerId, limit: 100 }, requestOptions)));
+        target.subscriptions.push(...await this.listAll(this.stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 100 }, requestOptions)));
+        target.checkoutSessions.push(...await this.listAll(this.stripe.checkout.sessions.list({ customer: customerId, limit: 100 }, requestOptions)));
+        target.taxIds.push(...await this.listAll(this.stripe.customers.listTaxIds(customerId, { limit: 100 }, requestOptions)));
+        target.balanceTransactions.push(...await this.listAll(this.stripe.customers.listBalanceTransactions(customerId, { limit: 100 }, requestOptions)));
+        target.quotes.push(...await this.listAll(this.stripe.quotes.list({ customer: customerId, limit: 100 }, requestOptions)));
+
+        // Refunds and disputes are only listable per charge
+        for (const charge of charges) {
+            if (charge.amount_refunded > 0) {
+                target.refunds.push(...await this.listAll(this.stripe.refunds.list({ charge: charge.id, limit: 100 }, requestOptions)));
+            }
+            if (charge.disputed) {
+                target.disputes.push(...await this.listAll(this.stripe.disputes.list({ charge: charge.id, limit: 100 }, requestOptions)));
+            }
+        }
+    }
+
+    /**
+     * Connected accounts to search, either the configured ones or every account on the platform
+     */
+    private async listConnectedAccounts(): Promise<Stripe.Account[]> {
+        if (this.options.accounts?.length) {
+            return Promise.all(this.options.accounts.map(id => this.stripe.accounts.retrieve(id)));
+        }
+        return this.listAll(this.stripe.accounts.list({ limit: 100 }));
+    }
+
+    /**
+     * Collect every item of a Stripe list or search, auto-paginating
+     */
+    private async listAll<T>(list: AsyncIterable<T>): Promise<T[]> {
+        const items: T[] = [];
+        for await (const item of list) {
+            items.push(item);
+        }
+        return items;
+    }
+
+    private createEmptyObjects(): StripeObjects {
+        return {
+            customers: [],
+            charges: [],
+            methods: [],
+            invoices: [],
+            subscriptions: [],
+            refunds: [],
+            disputes: [],
+            checkoutSessions: [],
+            taxIds: [],
+            balanceTransactions: [],
+            quotes: []
+        };
+    }
+
     calculateTotalCharges(charges: Stripe.Charge[]): number {
         return charges.reduce((total, charge) => {
             // Only count successful charges
@@ -83,3 +555,53 @@ export class StripeProvider {
         }).format(amount);
     }
 }
+
+/**
+ * Escape a value for use inside a quoted Stripe search query string
+ */
+export function escapeSearchValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Node HTTP client that retries reads on 429s, server errors and dropped connections
+ *
+ * Writes are sent once: without idempotency keys a retried POST could apply twice.
+ */
+function createRetryingHttpClient(retry: RetryOptions = {}): Stripe.HttpClient {
+    const client = Stripe.createNodeHttpClient();
+    return {
+        getClientName: () => client.getClientName(),
+        makeRequest: (...request) => request[3] !== 'GET' ? client.makeRequest(...request) : retryRequest(
+            () => client.makeRequest(...request),
+            response => ({ status: response.getStatusCode(), headers: response.getHeaders() }),
+            retry,
+            async response => { response.getRawResponse().resume(); }
+        )
+    };
+}
+
+/**
+ * A rectifiable field of a customer, or undefined when Stripe customers do not have it
+ */
+function customerField(customer: Stripe.Customer, field: string): string | null | undefined {
+    if (field.startsWith('address.')) {
+        const key = field.slice('address.'.length) as typeof ADDRESS_FIELDS[number];
+        return ADDRESS_FIELDS.includes(key) ? customer.address?.[key] ?? null : undefined;
+    }
+    return CUSTOMER_FIELDS.includes(field as typeof CUSTOMER_FIELDS[number])
+        ? customer[field as typeof CUSTOMER_FIELDS[number]] ?? null
+        : undefined;
+}
+
+export const stripeProviderFactory: ProviderFactory = {
+    id: 'stripe',
+    displayName: 'Stripe',
+    icon: '💳',
+    isConfigured: (options: ProviderOptions) => Boolean(options.env.STRIPE_SECRET_KEY),
+    create: (options: ProviderOptions) => new StripeProvider(options.env.STRIPE_SECRET_KEY!, {
+        connect: options.stripeConnect || options.env.STRIPE_CONNECT === 'true',
+        accounts: options.stripeAccounts,
+        metadata: options.stripeMetadata
+    })
+};
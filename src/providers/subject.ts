@@ -0,0 +1,233 @@
+/**
+ * Data Subject Definition
+ * Builds the subject's alias set (emails, GitHub logins, Stripe customer IDs,
+ * user IDs and external IDs) from repeatable flags, subject files and batch queues
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parseCsvLine } from './files.js';
+import { DataSubject, SubjectMatch } from './types.js';
+
+/**
+ * Shape of a subject file; every field is optional and may repeat values
+ */
+export interface SubjectDefinition {
+    emails?: string[];
+    githubLogins?: string[];
+    stripeCustomerIds?: string[];
+    userIds?: string[];
+    /** External IDs keyed by name, e.g. { "zendeskId": ["1234"] } */
+    identifiers?: Record<string, string[]>;
+}
+
+export interface SubjectIdentifier {
+    kind: string;
+    value: string;
+}
+
+const LIST_FIELDS = ['emails', 'githubLogins', 'stripeCustomerIds', 'userIds'] as const;
+
+// CSV queue columns mapped onto subject fields; other columns become external identifiers
+const CSV_COLUMNS: Record<string, typeof LIST_FIELDS[number]> = {
+    email: 'emails',
+    emails: 'emails',
+    githublogin: 'githubLogins',
+    githublogins: 'githubLogins',
+    stripecustomer: 'stripeCustomerIds',
+    stripecustomerid: 'stripeCustomerIds',
+    stripecustomerids: 'stripeCustomerIds',
+    userid: 'userIds',
+    userids: 'userIds'
+};
+
+/**
+ * Load a subject definition from a JSON file
+ */
+export function loadSubjectFile(path: string): SubjectDefinition {
+    const absolutePath = resolve(path);
+    const parsed = readJsonFile(absolutePath, 'Subject file');
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Subject file ${absolutePath} must contain a JSON object`);
+    }
+    return validateDefinition(parsed, 'Subject file');
+}
+
+/**
+ * Load a batch queue of subjects from a CSV file (one subject per row) or a JSON array
+ *
+ * CSV cells may hold several values separated by semicolons.
+ */
+export function loadSubjectQueue(path: string): SubjectDefinition[] {
+    const absolutePath = resolve(path);
+
+    if (extname(absolutePath).toLowerCase() === '.json') {
+        const parsed = readJsonFile(absolutePath, 'Subject queue');
+        if (!Array.isArray(parsed)) {
+            throw new Error(`Subject queue ${absolutePath} must contain a JSON array`);
+        }
+        return parsed.map((entry, index) => {
+            const where = `Subject queue entry ${index + 1}`;
+            if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+                throw new Error(`${where} must be an object`);
+            }
+            // A single "email" is accepted as shorthand for "emails"
+            const { email, ...definition } = entry;
+            if (typeof email === 'string') {
+                definition.emails = [email, ...(definition.emails || [])];
+            }
+            return validateDefinition(definition, where);
+        });
+    }
+
+    if (!existsSync(absolutePath)) {
+        throw new Error(`Subject queue not found: ${absolutePath}`);
+    }
+    const lines = readFileSync(absolutePath, 'utf8').split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) {
+        return [];
+    }
+
+    const header = parseCsvLine(lines[0]).map(column => column.trim());
+    if (!header.some(column => CSV_COLUMNS[column.toLowerCase()] === 'emails')) {
+        throw new Error(`Subject queue ${absolutePath} needs an email column`);
+    }
+
+    return lines.slice(1).map(line => {
+        const definition: Required<SubjectDefinition> = { emails: [], githubLogins: [], stripeCustomerIds: [], userIds: [], identifiers: {} };
+        parseCsvLine(line).forEach((cell, index) => {
+            const column = header[index];
+            const values = cell.split(';').map(value => value.trim()).filter(Boolean);
+            if (!column || values.length === 0) return;
+
+            const field = CSV_COLUMNS[column.toLowerCase()];
+            if (field) {
+                definition[field].push(...values);
+            } else {
+                definition.identifiers[column] = [...(definition.identifiers[column] || []), ...values];
+            }
+        });
+        return definition;
+    });
+}
+
+/**
+ * Merge definitions into one subject; the first email becomes the primary one
+ */
+export function createSubject(...definitions: SubjectDefinition[]): DataSubject {
+    const merged: Required<SubjectDefinition> = {
+        emails: [],
+        githubLogins: [],
+        stripeCustomerIds: [],
+        userIds: [],
+        identifiers: {}
+    };
+
+    for (const definition of definitions) {
+        for (const field of LIST_FIELDS) {
+            merged[field] = unique([...merged[field], ...(definition[field] || [])]);
+        }
+        for (const [name, values] of Object.entries(definition.identifiers || {})) {
+            merged.identifiers[name] = unique([...(merged.identifiers[name] || []), ...values]);
+        }
+    }
+
+    // Emails are compared case-insensitively; keep the first spelling seen
+    const emails = new Map<string, string>();
+    for (const email of merged.emails) {
+        if (!emails.has(email.toLowerCase())) emails.set(email.toLowerCase(), email);
+    }
+    merged.emails = [...emails.values()];
+
+    if (merged.emails.length === 0) {
+        throw new Error('The data subject needs at least one email address');
+    }
+
+    return {
+        email: merged.emails[0],
+        ...merged
+    };
+}
+
+/**
+ * Every email of the subject, primary first
+ */
+export function subjectEmails(subject: DataSubject): string[] {
+    return unique([subject.email, ...(subject.emails || [])]);
+}
+
+/**
+ * Whether a match is certain enough to change or delete the subject's data automatically:
+ * the identifier was supplied or matched with high confidence
+ */
+export function isConfirmedMatch(match: SubjectMatch): boolean {
+    return match.method === 'supplied' || match.confidence === 'high';
+}
+
+/**
+ * Identifier lists keyed by the names templates and queries reference:
+ * email, githubLogin, stripeCustomerId, userId and each external ID name
+ */
+export function subjectVariables(subject: DataSubject): Record<string, string[]> {
+    const variables: Record<string, string[]> = { ...subject.identifiers };
+    const known: Array<[string, string[] | undefined]> = [
+        ['githubLogin', subject.githubLogins],
+        ['stripeCustomerId', subject.stripeCustomerIds],
+        ['userId', subject.userIds]
+    ];
+
+    for (const [name, values] of known) {
+        if (values?.length) {
+            variables[name] = unique([...(variables[name] || []), ...values]);
+        }
+    }
+    variables.email = subjectEmails(subject);
+
+    return variables;
+}
+
+/**
+ * Flat list of every identifier searched for the subject
+ */
+export function listSubjectIdentifiers(subject: DataSubject): SubjectIdentifier[] {
+    const { email, ...rest } = subjectVariables(subject);
+    return [
+        ...email.map(value => ({ kind: 'email', value })),
+        ...Object.entries(rest).flatMap(([kind, values]) => values.map(value => ({ kind, value })))
+    ];
+}
+
+function readJsonFile(absolutePath: string, label: string): any {
+    if (!existsSync(absolutePath)) {
+        throw new Error(`${label} not found: ${absolutePath}`);
+    }
+
+    try {
+        return JSON.parse(readFileSync(absolutePath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`${label} ${absolutePath} is not valid JSON: ${error.message}`);
+    }
+}
+
+function validateDefinition(parsed: any, where: string): SubjectDefinition {
+    for (const field of LIST_FIELDS) {
+        if (parsed[field] !== undefined && !isStringList(parsed[field])) {
+            throw new Error(`${where} field "${field}" must be a list of strings`);
+        }
+    }
+    for (const [name, values] of Object.entries(parsed.identifiers || {})) {
+        if (!isStringList(values)) {
+            throw new Error(`${where} identifier "${name}" must be a list of strings`);
+        }
+    }
+    return parsed as SubjectDefinition;
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values.map(value => value.trim()).filter(Boolean))];
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,189 @@
+/**
+ * Data Source Provider contract
+ * Common shape shared by every system the generate pipeline exports from
+ */
+
+import type { ProvidersConfig } from './config.js';
+
+export interface DataSubject {
+    /** Primary email, used in file names and messages */
+    email: string;
+    /** Every email of the subject, including the primary one */
+    emails?: string[];
+    githubLogins?: string[];
+    stripeCustomerIds?: string[];
+    userIds?: string[];
+    /** External identifiers such as { zendeskId: ['42'] }, used by config-driven providers */
+    identifiers?: Record<string, string[]>;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+export interface SubjectMatch {
+    providerId: string;
+    identifier: string;
+    kind: string;
+    method: string;
+    confidence: MatchConfidence;
+    evidence?: string;
+}
+
+export interface DataCategory {
+    key: string;
+    label: string;
+    description: string;
+}
+
+export interface ProviderOptions {
+    env: Record<string, string | undefined>;
+    config?: ProvidersConfig;
+    /** Directory providers download attachments into */
+    attachmentDir?: string;
+    githubOrgs?: string[];
+    githubAllOrgs?: boolean;
+    githubCommits?: boolean;
+    stripeConnect?: boolean;
+    stripeAccounts?: string[];
+    stripeMetadata?: Record<string, string>;
+    since?: string;
+    until?: string;
+}
+
+export interface DataSourceProvider<TResult = any> {
+    readonly id: string;
+    readonly displayName: string;
+
+    /**
+     * Locate the data subject in this system
+     */
+    identifySubject(subject: DataSubject): Promise<SubjectMatch[]>;
+
+    /**
+     * Export everything held about the identified subject
+     */
+    exportData(subject: DataSubject, matches: SubjectMatch[]): Promise<TResult>;
+
+    /**
+     * Describe the categories of personal data this provider exports
+     */
+    describeDataCategories(): DataCategory[];
+
+    /**
+     * Count exported records per data category key
+     *
+     * Export limitations are reported through a `notices` string array on the result,
+     * and downloaded files through an `attachments` array of ProviderAttachment.
+     */
+    countRecords(result: TResult): Record<string, number>;
+
+    /**
+     * Exported records per data category key, for the Art. 20 portability export;
+     * providers without it are left out of that export
+     */
+    listRecords?(result: TResult): Record<string, unknown[]>;
+
+    /**
+     * Plan the erasure of the identified subject (Art. 17); providers that
+     * cannot erase data leave this out
+     */
+    planErasure?(subject: DataSubject, matches: SubjectMatch[]): Promise<ErasureAction[]>;
+
+    /**
+     * Carry out the plan's delete actions, reporting one outcome per action
+     */
+    executeErasure?(subject: DataSubject, matches: SubjectMatch[], actions: ErasureAction[]): Promise<ErasureOutcome[]>;
+
+    /**
+     * Plan the correction of the identified subject's records (Art. 16), with the
+     * current value of every field that differs; providers that cannot update data leave this out
+     */
+    planRectification?(subject: DataSubject, matches: SubjectMatch[], corrections: Record<string, string>): Promise<RectificationChange[]>;
+
+    /**
+     * Apply the planned changes, reporting one outcome per change
+     */
+    executeRectification?(subject: DataSubject, matches: SubjectMatch[], changes: RectificationChange[]): Promise<RectificationOutcome[]>;
+}
+
+export interface ProviderFactory {
+    id: string;
+    displayName: string;
+    icon: string;
+    required?: boolean;
+    setupHint?: string[];
+    isConfigured(options: ProviderOptions): boolean;
+    create(options: ProviderOptions): DataSourceProvider;
+}
+
+export interface ProviderAttachment {
+    /** Path inside the evidence archive */
+    name: string;
+    /** Local file the attachment was downloaded to */
+    path: string;
+    size: number;
+    contentType?: string;
+}
+
+export interface ProviderExport<TResult = any> {
+    providerId: string;
+    displayName: string;
+    matches: SubjectMatch[];
+    categories: DataCategory[];
+    counts: Record<string, number>;
+    notices: string[];
+    attachments: ProviderAttachment[];
+    data: TResult;
+}
+
+export interface ErasureAction {
+    /** Unique within the plan, e.g. "stripe:customer:cus_123" */
+    id: string;
+    providerId: string;
+    type: 'delete' | 'retain';
+    /** What is deleted or kept, e.g. "Stripe customer cus_123" */
+    target: string;
+    description: string;
+    records?: number;
+    /** Legal basis for keeping the data; every retain action has one */
+    reason?: string;
+    /** Data category keys the retained records fall under, so verification can tell them from data left behind */
+    categories?: string[];
+    /** How the subject was matched to what a delete action removes, shown in the plan for review */
+    match?: { method: string; confidence: MatchConfidence };
+    /** Provider-specific values needed to carry out the action */
+    params?: Record<string, string>;
+}
+
+export type ErasureStatus = 'deleted' | 'retained' | 'failed';
+
+export interface ErasureOutcome {
+    actionId: string;
+    status: ErasureStatus;
+    /** Records actually deleted, when the system reports it */
+    records?: number;
+    error?: string;
+    completedAt: string;
+}
+
+export interface RectificationChange {
+    /** Unique within the plan, e.g. "stripe:customer:cus_123:name" */
+    id: string;
+    providerId: string;
+    /** Record being corrected, e.g. "Stripe customer cus_123" */
+    target: string;
+    /** Corrected field, e.g. "name" or "address.city" */
+    field: string;
+    before: string | null;
+    after: string;
+    /** Provider-specific values needed to apply the change */
+    params?: Record<string, string>;
+}
+
+export interface RectificationOutcome {
+    changeId: string;
+    status: 'updated' | 'failed';
+    /** Value the system holds after the update */
+    value?: string | null;
+    error?: string;
+    completedAt: string;
+}
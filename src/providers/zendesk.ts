@@ -0,0 +1,297 @@
+/**
+ * Zendesk Support Provider
+ * Finds the requester by email and exports their tickets, comments,
+ * attachment metadata and satisfaction ratings
+ */
+
+import {
+    DataCategory,
+    DataSourceProvider,
+    DataSubject,
+    ProviderFactory,
+    ProviderOptions,
+    SubjectMatch
+} from './types.js';
+import { subjectEmails } from './subject.js';
+import { fetchWithRetry } from '../utils/retry.js';
+
+export interface ZendeskCredentials {
+    subdomain: string;
+    email: string;
+    apiToken: string;
+}
+
+export interface ZendeskAttachmentRecord {
+    id: number;
+    fileName: string;
+    contentType: string;
+    size: number;
+    url: string;
+}
+
+export interface ZendeskCommentRecord {
+    id: number;
+    ticketId: number;
+    authorId: number;
+    bySubject: boolean;
+    public: boolean;
+    body: string;
+    createdAt: string;
+    attachments: ZendeskAttachmentRecord[];
+}
+
+export interface ZendeskSatisfactionRecord {
+    ticketId: number;
+    score: string;
+    comment: string | null;
+}
+
+export type ZendeskTicketRole = 'requester' | 'cc';
+
+export interface ZendeskTicketRecord {
+    id: number;
+    subject: string;
+    description: string;
+    status: string;
+    priority: string | null;
+    tags: string[];
+    roles: ZendeskTicketRole[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ZendeskExportResult {
+    users: any[];
+    tickets: ZendeskTicketRecord[];
+    comments: ZendeskCommentRecord[];
+    /** Not named "attachments": that key holds downloaded files in every provider result */
+    attachmentMetadata: ZendeskAttachmentRecord[];
+    satisfactionRatings: ZendeskSatisfactionRecord[];
+    notices: string[];
+}
+
+interface ZendeskUserLookup {
+    users: any[];
+    /** Search results left out because none of their identities equals a subject email */
+    notices: string[];
+}
+
+export class ZendeskProvider implements DataSourceProvider<ZendeskExportResult> {
+    readonly id = 'zendesk';
+    readonly displayName = 'Zendesk';
+
+    private credentials: ZendeskCredentials;
+    private baseUrl: string;
+    private located = new Map<string, ZendeskUserLookup>();
+
+    constructor(credentials: ZendeskCredentials) {
+        this.credentials = credentials;
+        this.baseUrl = `https://${credentials.subdomain}.zendesk.com/api/v2`;
+    }
+
+    async identifySubject(subject: DataSubject): Promise<SubjectMatch[]> {
+        const lookup = await this.findSubjectUsers(subject);
+        this.located.set(subject.email, lookup);
+        const emails = new Set(subjectEmails(subject).map(email => email.toLowerCase()));
+
+        return lookup.users.map(user => ({
+            providerId: this.id,
+            identifier: String(user.id),
+            kind: 'user',
+            method: 'email-search',
+            confidence: emails.has(user.email?.toLowerCase()) ? 'high' as const : 'medium' as const,
+            evidence: emails.has(user.email?.toLowerCase())
+                ? 'Primary email matches the subject'
+                : 'A secondary email identity equals the subject email'
+        }));
+    }
+
+    async exportData(subject: DataSubject): Promise<ZendeskExportResult> {
+        const { users, notices } = this.located.get(subject.email) || await this.findSubjectUsers(subject);
+        this.located.delete(subject.email);
+
+        const result: ZendeskExportResult = {
+            users,
+            tickets: [],
+            comments: [],
+            attachmentMetadata: [],
+            satisfactionRatings: [],
+            notices: [...notices]
+        };
+
+        if (users.length === 0) {
+            result.notices.push(`No Zendesk user found with email: ${subjectEmails(subject).join(', ')}`);
+            return result;
+        }
+
+        const userIds = new Set<number>(users.map(user => user.id));
+        const tickets = new Map<number, { ticket: any; roles: ZendeskTicketRole[] }>();
+        for (const user of users) {
+            for (const [role, path] of [['requester', 'requested'], ['cc', 'ccd']] as const) {
+                for (const ticket of await this.listAll(`/users/${user.id}/tickets/${path}.json`, 'tickets')) {
+                    const entry = tickets.get(ticket.id) || { ticket, roles: [] };
+                    if (!entry.roles.includes(role)) entry.roles.push(role);
+                    tickets.set(ticket.id, entry);
+                }
+            }
+        }
+
+        for (const { ticket, roles } of tickets.values()) {
+            result.tickets.push({
+                id: ticket.id,
+                subject: ticket.subject,
+                description: ticket.description,
+                status: ticket.status,
+                priority: ticket.priority ?? null,
+                tags: ticket.tags || [],
+                roles,
+                createdAt: ticket.created_at,
+                updatedAt: ticket.updated_at
+            });
+
+            // Ratings are embedded in the ticket; "unoffered" means the survey was never sent
+            const rating = ticket.satisfaction_rating;
+            if (rating && rating.score && rating.score !== 'unoffered') {
+                result.satisfactionRatings.push({ ticketId: ticket.id, score: rating.score, comment: rating.comment || null });
+            }
+
+            try {
+                for (const comment of await this.listAll(`/tickets/${ticket.id}/comments.json`, 'comments')) {
+                    const attachments: ZendeskAttachmentRecord[] = (comment.attachments || []).map((attachment: any) => ({
+                        id: attachment.id,
+                        fileName: attachment.file_name,
+                        contentType: attachment.content_type,
+                        size: attachment.size,
+                        url: attachment.content_url
+                    }));
+                    result.comments.push({
+                        id: comment.id,
+                        ticketId: ticket.id,
+                        authorId: comment.author_id,
+                        bySubject: userIds.has(comment.author_id),
+                        public: comment.public,
+                        body: comment.body,
+                        createdAt: comment.created_at,
+                        attachments
+                    });
+                    result.attachmentMetadata.push(...attachments);
+                }
+            } catch (error: any) {
+                result.notices.push(`Comments on Zendesk ticket ${ticket.id} could not be listed: ${error.message}`);
+            }
+        }
+
+        return result;
+    }
+
+    describeDataCategories(): DataCategory[] {
+        return [
+            { key: 'users', label: 'Zendesk Profiles', description: 'Support desk user profiles matching the subject email' },
+            { key: 'tickets', label: 'Zendesk Tickets', description: 'Tickets the subject requested or was copied on' },
+            { key: 'comments', label: 'Zendesk Comments', description: 'Conversation history on those tickets' },
+            { key: 'attachments', label: 'Zendesk Attachments', description: 'Metadata of files attached to ticket comments' },
+            { key: 'satisfactionRatings', label: 'Zendesk Satisfaction Ratings', description: 'Satisfaction survey answers on those tickets' }
+        ];
+    }
+
+    countRecords(result: ZendeskExportResult): Record<string, number> {
+        return {
+            users: result.users.length,
+            tickets: result.tickets.length,
+            comments: result.comments.length,
+            attachments: result.attachmentMetadata.length,
+            satisfactionRatings: result.satisfactionRatings.length
+        };
+    }
+
+    listRecords(result: ZendeskExportResult): Record<string, unknown[]> {
+        return {
+            users: result.users,
+            tickets: result.tickets,
+            comments: result.comments,
+            attachments: result.attachmentMetadata,
+            satisfactionRatings: result.satisfactionRatings
+        };
+    }
+
+    /**
+     * Look up every email of the subject, keeping each user once
+     *
+     * The search is full-text, so a user whose primary email differs is only kept
+     * when one of its email identities equals a subject email exactly.
+     */
+    private async findSubjectUsers(subject: DataSubject): Promise<ZendeskUserLookup> {
+        const emails = new Set(subjectEmails(subject).map(email => email.toLowerCase()));
+        const found = new Map<string, any>();
+        for (const email of subjectEmails(subject)) {
+            for (const user of await this.findUsers(email)) {
+                found.set(String(user.id), user);
+            }
+        }
+
+        const lookup: ZendeskUserLookup = { users: [], notices: [] };
+        for (const user of found.values()) {
+            if (emails.has(user.email?.toLowerCase())) {
+                lookup.users.push(user);
+                continue;
+            }
+            const identities = await this.listAll(`/users/${user.id}/identities.json`, 'identities');
+            if (identities.some(identity => identity.type === 'email' && emails.has(String(identity.value).toLowerCase()))) {
+                lookup.users.push(user);
+            } else {
+                lookup.notices.push(`Zendesk user ${user.id} was returned by the email search but none of its identities equals the subject email; it was left out`);
+            }
+        }
+        return lookup;
+    }
+
+    /**
+     * Search users by email; the search also matches secondary email identities
+     */
+    private async findUsers(email: string): Promise<any[]> {
+        const query = encodeURIComponent(`type:user email:"${email}"`);
+        return this.listAll(`/users/search.json?query=${query}`, 'users');
+    }
+
+    /**
+     * Follow cursor pagination and collect every item under the given key
+     */
+    private async listAll(path: string, key: string): Promise<any[]> {
+        const items: any[] = [];
+        const separator = path.includes('?') ? '&' : '?';
+        let url: string | null = `${this.baseUrl}${path}${separator}page[size]=100`;
+
+        while (url) {
+            const response = await fetchWithRetry(url, {
+                headers: {
+                    accept: 'application/json',
+                    authorization: `Basic ${Buffer.from(`${this.credentials.email}/token:${this.credentials.apiToken}`).toString('base64')}`
+                }
+            });
+            if (!response.ok) {
+                throw new Error(`Zendesk API error: ${response.status} ${response.statusText} (${path})`);
+            }
+
+            const page: any = await response.json();
+            items.push(...(page[key] || []));
+            url = page.meta?.has_more ? page.links?.next ?? null : null;
+        }
+
+        return items;
+    }
+}
+
+export const zendeskProviderFactory: ProviderFactory = {
+    id: 'zendesk',
+    displayName: 'Zendesk',
+    icon: '🎫',
+    setupHint: ['Run: autopv login --zendesk-subdomain acme --zendesk-email agent@acme.com --zendesk-token ...'],
+    isConfigured: (options: ProviderOptions) => Boolean(
+        options.env.ZENDESK_SUBDOMAIN && options.env.ZENDESK_EMAIL && options.env.ZENDESK_API_TOKEN
+    ),
+    create: (options: ProviderOptions) => new ZendeskProvider({
+        subdomain: options.env.ZENDESK_SUBDOMAIN!,
+        email: options.env.ZENDESK_EMAIL!,
+        apiToken: options.env.ZENDESK_API_TOKEN!
+    })
+};
@@ -0,0 +1,67 @@
+/**
+ * Request Command
+ * Base for the `autopv requests` commands: opening the request store and
+ * printing a request with its deadline
+ */
+
+import { Command } from '@oclif/core';
+import { DsarRequest, RequestStore, daysRemaining, dueDate } from './utils/requests.js';
+import { encryptedConfig } from './subjectCommand.js';
+
+// Open requests due within this many days are flagged
+const DUE_SOON_DAYS = 7;
+
+export abstract class RequestCommand extends Command {
+    /**
+     * Open the request store with the archive password
+     */
+    protected openStore(): RequestStore {
+        const archivePassword = process.env.ARCHIVE_PW || encryptedConfig.ARCHIVE_PW;
+        if (!archivePassword) {
+            this.log('❌ Archive password not found!');
+            this.log('💡 Run: autopv login');
+            this.log('   Or set ARCHIVE_PW environment variable');
+            throw new Error('Archive password required to read the encrypted request store');
+        }
+
+        try {
+            return RequestStore.open(archivePassword);
+        } catch (error: any) {
+            this.error(error.message);
+        }
+    }
+
+    /**
+     * Print a request with its deadline status, verification and linked outputs
+     */
+    protected logRequest(request: DsarRequest): void {
+        const days = daysRemaining(request);
+        let icon = '📬';
+        let due = `due ${dueDate(request)}`;
+        if (request.status === 'closed') {
+            icon = '✅';
+            due = `closed ${request.closure!.closedAt.slice(0, 10)} as ${request.closure!.outcome}${request.closure!.onTime ? '' : ' (late)'}`;
+        } else if (days < 0) {
+            icon = '🚨';
+            due += ` (${-days} day${days === -1 ? '' : 's'} overdue)`;
+        } else {
+            if (days <= DUE_SOON_DAYS) icon = '⏳';
+            due += days === 0 ? ' (due today)' : ` (${days} day${days === 1 ? '' : 's'} left)`;
+        }
+
+        this.log(`${icon} ${request.id}  ${request.type}  ${request.subject}`);
+        this.log(`   Received ${request.receivedAt} · ${due} · identity ${request.verification.status}`);
+        if (request.verification.method) {
+            this.log(`   Verification: ${request.verification.method}`);
+        }
+        if (request.extension) {
+            this.log(`   Extended from ${request.deadline}: ${request.extension.reason}`);
+        }
+        for (const output of request.outputs) {
+            this.log(`   📦 ${output.command}: ${output.path}`);
+        }
+        if (request.closure?.note) {
+            this.log(`   Note: ${request.closure.note}`);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Subject Command
+ * Base for commands that act on one data subject: the subject and provider flags
+ * they share, and the parsing behind them
+ */
+
+import { Command, Flags } from '@oclif/core';
+import { config } from 'dotenv';
+import { createInterface } from 'readline';
+import { createSubject, loadSubjectFile } from './providers/subject.js';
+import Login from './commands/login.js';
+
+// Load environment variables
+config();
+
+// Load encrypted config as fallback
+export const encryptedConfig = Login.loadConfigAsEnv();
+for (const [key, value] of Object.entries(encryptedConfig)) {
+    if (!process.env[key]) {
+        process.env[key] = value as string;
+    }
+}
+
+/**
+ * Flags identifying the data subject
+ */
+export const subjectFlags = {
+    email: Flags.string({ char: 'e', multiple: true, description: 'User email; repeat for every address the subject uses (the first is the primary one)' }),
+    githubLogin: Flags.string({ multiple: true, description: 'Known GitHub login of the subject (repeatable)' }),
+    userId: Flags.string({ multiple: true, description: 'Internal user ID of the subject (repeatable)' }),
+    subject: Flags.string({ char: 's', description: 'JSON subject file listing emails, githubLogins, stripeCustomerIds, userIds and identifiers' }),
+    stripeCustomer: Flags.string({ multiple: true, description: 'Known Stripe customer ID for the subject (repeatable)' }),
+    subjectId: Flags.string({ multiple: true, description: 'External subject identifier for config-driven providers, as name=value (repeatable)' }),
+};
+
+/**
+ * Flags choosing where providers look for the subject
+ */
+export const providerFlags = {
+    githubOrg: Flags.string({ char: 'g', multiple: true, description: 'GitHub org (repeatable); omit to export public activity only' }),
+    githubAllOrgs: Flags.boolean({ description: 'Export from every GitHub org the credentials can access' }),
+    stripeConnect: Flags.boolean({ description: 'Also search every Stripe Connect connected account for the subject' }),
+    stripeAccount: Flags.string({ multiple: true, description: 'Connected account ID to search (repeatable, implies --stripeConnect)' }),
+    stripeMetadata: Flags.string({ multiple: true, description: 'Stripe customer metadata to match, as key=value (repeatable)' }),
+    config: Flags.string({ char: 'c', description: 'Provider config file (defaults to $AUTOPV_CONFIG or ./autopv.config.json)' }),
+};
+
+export abstract class SubjectCommand extends Command {
+    /**
+     * Validate a date flag and normalize it to an ISO 8601 timestamp
+     */
+    protected parseDateFlag(name: string, value?: string): string | undefined {
+        if (!value) {
+            return undefined;
+        }
+
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            this.error(`Invalid --${name} date: ${value}`);
+        }
+        return date.toISOString();
+    }
+
+    /**
+     * Combine the subject file with the repeatable identifier flags
+     */
+    protected buildSubject(flags: {
+        email?: string[];
+        githubLogin?: string[];
+        stripeCustomer?: string[];
+        userId?: string[];
+        subjectId?: string[];
+        subject?: string;
+    }) {
+        if (!flags.email && !flags.subject) {
+            this.error('Pass the subject\'s --email or a --subject file');
+        }
+
+        try {
+            return createSubject(
+                {
+                    emails: flags.email,
+                    githubLogins: flags.githubLogin,
+                    stripeCustomerIds: flags.stripeCustomer,
+                    userIds: flags.userId,
+                    identifiers: this.parseIdentifierFlags(flags.subjectId)
+                },
+                flags.subject ? loadSubjectFile(flags.subject) : {}
+            );
+        } catch (error: any) {
+            this.error(error.message);
+        }
+    }
+
+    /**
+     * Collect repeatable name=value identifier flags into lists per name
+     */
+    protected parseIdentifierFlags(values?: string[]): Record<string, string[]> | undefined {
+        if (!values) {
+            return undefined;
+        }
+
+        const identifiers: Record<string, string[]> = {};
+        for (const value of values) {
+            const [[name, identifier]] = Object.entries(this.parseKeyValueFlags('subjectId', [value])!);
+            identifiers[name] = [...(identifiers[name] || []), identifier];
+        }
+        return identifiers;
+    }
+
+    /**
+     * Parse repeatable key=value flags into a record
+     */
+    protected parseKeyValueFlags(name: string, values?: string[]): Record<string, string> | undefined {
+        if (!values) {
+            return undefined;
+        }
+
+        const parsed: Record<string, string> = {};
+        for (const value of values) {
+            const separator = value.indexOf('=');
+            if (separator <= 0) {
+                this.error(`Invalid --${name} value: ${value} (expected key=value)`);
+            }
+            parsed[value.slice(0, separator)] = value.slice(separator + 1);
+        }
+        return parsed;
+    }
+
+    /**
+     * Require the subject's primary email to be typed back (or passed with --confirm)
+     * before changing their data; `{email}` in the prompt is replaced with it
+     */
+    protected async confirmSubject(email: string, confirmation: string | undefined, prompt: string): Promise<void> {
+        if (confirmation === undefined) {
+            if (!process.stdin.isTTY) {
+                this.error(`Pass --confirm ${email} to continue without an interactive prompt`);
+            }
+
+            const rl = createInterface({ input: process.stdin, output: process.stdout });
+            confirmation = await new Promise<string>(resolve =>
+                rl.question(`\n⚠️  ${prompt.replace('{email}', email)}: `, answer => {
+                    rl.close();
+                    resolve(answer.trim());
+                }));
+        }
+
+        if (confirmation.toLowerCase() !== email.toLowerCase()) {
+            this.error('Confirmation did not match the subject\'s primary email; nothing was changed');
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runBatch, writeBatchSummary } from '../batch.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-batch-'));
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createPipeline() {
+  return {
+    run: vi.fn(async (subject: any) => {
+      if (subject.email === 'broken@company.com') throw new Error('Stripe API unavailable');
+      return {
+        subject,
+        providers: [{ counts: { customers: 1, invoices: 2 }, notices: ['Partial export'] }],
+        archive: { success: true, archivePath: `evidence_pack_${subject.email}.zip` }
+      };
+    })
+  } as any;
+}
+
+describe('runBatch', () => {
+  it('should record each subject and keep going after a failure', async () => {
+    const pipeline = createPipeline();
+    const onResult = vi.fn();
+
+    const summary = await runBatch(pipeline, [
+      { emails: ['jane@company.com'] },
+      { emails: ['broken@company.com'] },
+      { githubLogins: ['nomail'] },
+      { emails: ['bob@company.com'] }
+    ], { concurrency: 2, onResult });
+
+    expect(summary).toMatchObject({ total: 4, succeeded: 2, failed: 2 });
+    expect(summary.results.map(result => result.status)).toEqual(['succeeded', 'failed', 'failed', 'succeeded']);
+    expect(summary.results[0]).toMatchObject({ email: 'jane@company.com', records: 3, notices: 1, archivePath: 'evidence_pack_jane@company.com.zip' });
+    expect(summary.results[1].error).toBe('Stripe API unavailable');
+    expect(summary.results[2]).toMatchObject({ email: 'entry 3', error: 'The data subject needs at least one email address' });
+    expect(pipeline.run).toHaveBeenCalledTimes(3);
+    expect(onResult).toHaveBeenCalledTimes(4);
+    expect(onResult.mock.calls.map(call => call[1])).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should write the summary report', async () => {
+    const summary = await runBatch(createPipeline(), [{ emails: ['jane@company.com'] }], { concurrency: 1 });
+    const path = writeBatchSummary(summary, directory);
+
+    expect(path.startsWith(join(directory, 'batch_summary_'))).toBe(true);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(summary);
+  });
+});
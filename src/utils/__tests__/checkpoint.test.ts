@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheckpointStore } from '../checkpoint.js';
+
+let rootDir: string;
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'autopv-checkpoint-'));
+});
+
+afterEach(() => {
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('CheckpointStore', () => {
+  const subject = { email: 'jane@company.com', githubLogins: ['janedoe'] };
+
+  it('should reopen a run with its subject, options and completed stages', () => {
+    const store = CheckpointStore.create(subject, { githubOrgs: ['acme'] }, 'secret', rootDir);
+    store.save('merge', { email: 'jane@company.com', stripe: { customers: 2 } });
+    store.save('classify', null);
+
+    const reopened = CheckpointStore.open(store.runId, 'secret', rootDir);
+
+    expect(reopened.subject).toEqual(subject);
+    expect(reopened.options).toEqual({ githubOrgs: ['acme'] });
+    expect(reopened.completedStages).toEqual(['merge', 'classify']);
+    expect(reopened.load('merge')).toEqual({ email: 'jane@company.com', stripe: { customers: 2 } });
+    expect(reopened.load('classify')).toBeNull();
+    expect(reopened.load('pack')).toBeUndefined();
+  });
+
+  it('should keep checkpoints encrypted at rest', () => {
+    const store = CheckpointStore.create(subject, {}, 'secret', rootDir);
+    store.save('merge', { email: 'jane@company.com' });
+
+    for (const file of readdirSync(store.directory).filter(name => name.endsWith('.enc'))) {
+      expect(readFileSync(join(store.directory, file)).toString('latin1')).not.toContain('jane@company.com');
+    }
+    expect(() => CheckpointStore.open(store.runId, 'wrong', rootDir)).toThrow('was the archive password changed?');
+    expect(() => CheckpointStore.open('../elsewhere', 'secret', rootDir)).toThrow('No checkpoints found');
+  });
+
+  it('should store provider attachments and restore them for a resumed run', () => {
+    const store = CheckpointStore.create(subject, {}, 'secret', rootDir);
+    const downloaded = join(rootDir, 'contract.pdf');
+    writeFileSync(downloaded, 'signed contract');
+    store.saveExport({
+      providerId: 's3',
+      displayName: 'S3',
+      matches: [],
+      categories: [],
+      counts: { objects: 1 },
+      notices: [],
+      attachments: [{ name: 's3/contracts/contract.pdf', path: downloaded, size: 15 }],
+      data: { objects: [] }
+    });
+    rmSync(downloaded);
+
+    const restored = CheckpointStore.open(store.runId, 'secret', rootDir).loadExport('s3', rootDir)!;
+
+    expect(restored.counts).toEqual({ objects: 1 });
+    expect(restored.attachments[0].name).toBe('s3/contracts/contract.pdf');
+    expect(readFileSync(restored.attachments[0].path, 'utf8')).toBe('signed contract');
+  });
+
+  it('should remove completed runs and prune stale ones', () => {
+    const finished = CheckpointStore.create(subject, {}, 'secret', rootDir);
+    const stale = CheckpointStore.create(subject, {}, 'secret', rootDir);
+    const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+    utimesSync(stale.directory, old, old);
+
+    finished.remove();
+
+    expect(existsSync(finished.directory)).toBe(false);
+    expect(CheckpointStore.prune(24 * 7, rootDir)).toEqual([stale.runId]);
+  });
+});
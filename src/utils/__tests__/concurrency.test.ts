@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { createLimiter, mapWithConcurrency } from '../concurrency.js';
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('createLimiter', () => {
+  it('should never run more tasks than its concurrency', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => limit(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should reject invalid concurrency', () => {
+    expect(() => createLimiter(0)).toThrow('positive integer');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ErasureEvidenceBuilder, buildErasurePlan, executeErasurePlan, unconfirmedMatches } from '../erasure.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-erasure-'));
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createProviders() {
+  const billing = {
+    id: 'billing',
+    displayName: 'Billing',
+    identifySubject: vi.fn(async () => [{ providerId: 'billing', identifier: 'cus_1', kind: 'customer', method: 'email', confidence: 'high', evidence: '' }]),
+    planErasure: vi.fn(async () => [
+      { id: 'billing:customer', providerId: 'billing', type: 'delete', target: 'Customer cus_1', description: 'Delete the customer', records: 1 },
+      { id: 'billing:profile', providerId: 'billing', type: 'delete', target: 'Profile', description: 'Delete the profile' },
+      { id: 'billing:invoices', providerId: 'billing', type: 'retain', target: 'Invoices', description: 'Invoices', records: 4, reason: 'Art. 17(3)(b) GDPR' }
+    ]),
+    // The profile is missing from the outcomes to check it is reported as failed
+    executeErasure: vi.fn(async () => [
+      { actionId: 'billing:customer', status: 'deleted', records: 1, completedAt: '2024-01-01T00:00:00.000Z' }
+    ])
+  };
+  const broken = {
+    id: 'broken',
+    displayName: 'Broken',
+    identifySubject: vi.fn(async () => []),
+    planErasure: vi.fn(async () => [
+      { id: 'broken:account', providerId: 'broken', type: 'delete', target: 'Account', description: 'Delete the account' }
+    ]),
+    executeErasure: vi.fn(async () => {
+      throw new Error('API unavailable');
+    })
+  };
+  const readOnly = { id: 'files', displayName: 'Files', identifySubject: vi.fn() };
+
+  return [billing, broken, readOnly].map(provider => ({ factory: {} as any, provider: provider as any }));
+}
+
+describe('buildErasurePlan', () => {
+  it('should plan every provider that supports erasure and list the others', async () => {
+    const providers = createProviders();
+
+    const plan = await buildErasurePlan(providers, { email: 'jane@company.com' });
+
+    expect(plan.providers.map(provider => provider.providerId)).toEqual(['billing', 'broken']);
+    expect(plan.providers[0].matches).toHaveLength(1);
+    expect(plan.unsupported).toEqual(['Files']);
+    expect(providers[2].provider.identifySubject).not.toHaveBeenCalled();
+  });
+});
+
+describe('unconfirmedMatches', () => {
+  it('should list identifiers matched only with medium or low confidence', () => {
+    const match = (identifier: string, method: string, confidence: string) =>
+      ({ providerId: 'github', identifier, kind: 'login', method, confidence, evidence: '' }) as any;
+
+    const unconfirmed = unconfirmedMatches({
+      providerId: 'github',
+      displayName: 'GitHub',
+      actions: [],
+      matches: [
+        match('jdoe', 'supplied', 'high'),
+        match('jdoe', 'commit-author', 'medium'),
+        match('jane-dev', 'public-email-search', 'low'),
+        match('jane-dev', 'commit-author', 'medium'),
+        match('janed', 'public-email-search', 'low')
+      ]
+    });
+
+    expect(unconfirmed.map(({ identifier, method }) => `${identifier} ${method}`)).toEqual(['jane-dev commit-author', 'janed public-email-search']);
+  });
+});
+
+describe('executeErasurePlan', () => {
+  it('should only send deletions to providers and record every outcome', async () => {
+    const providers = createProviders();
+    const plan = await buildErasurePlan(providers, { email: 'jane@company.com' });
+    const onOutcome = vi.fn();
+
+    const report = await executeErasurePlan(plan, providers, onOutcome);
+
+    expect(providers[0].provider.executeErasure.mock.calls[0][2].map((action: any) => action.id))
+      .toEqual(['billing:customer', 'billing:profile']);
+    expect(report.outcomes.map(outcome => [outcome.actionId, outcome.status])).toEqual([
+      ['billing:customer', 'deleted'],
+      ['billing:profile', 'failed'],
+      ['billing:invoices', 'retained'],
+      ['broken:account', 'failed']
+    ]);
+    expect(report.outcomes[3].error).toBe('API unavailable');
+    expect(report.summary).toEqual({ deleted: 1, retained: 1, failed: 2 });
+    expect(onOutcome).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('ErasureEvidenceBuilder', () => {
+  it('should write the PDF record and the JSON report', async () => {
+    const providers = createProviders();
+    const report = await executeErasurePlan(await buildErasurePlan(providers, { email: 'jane@company.com' }), providers);
+
+    const result = await new ErasureEvidenceBuilder(directory).generate(report);
+
+    expect(result.filesCreated).toEqual([result.pdfPath, result.jsonPath]);
+    expect(readFileSync(result.pdfPath).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(JSON.parse(readFileSync(result.jsonPath, 'utf8')).summary).toEqual(report.summary);
+  });
+
+  it('should write the record for a subject email the PDF fonts cannot encode', async () => {
+    const providers = createProviders();
+    const report = await executeErasurePlan(await buildErasurePlan(providers, { email: 'jürgen@bücher.例え.jp' }), providers);
+
+    const result = await new ErasureEvidenceBuilder(directory).generate(report);
+
+    expect(readFileSync(result.pdfPath).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(JSON.parse(readFileSync(result.jsonPath, 'utf8')).plan.subject.email).toBe('jürgen@bücher.例え.jp');
+  });
+});
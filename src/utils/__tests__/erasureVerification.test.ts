@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadErasureRecord, verifyErasure } from '../erasureVerification.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-verify-'));
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createRecord(): any {
+  const match = (identifier: string) => ({ identifier, kind: 'id', method: 'email', confidence: 'high', evidence: '' });
+  return {
+    plan: {
+      subject: { email: 'jane@company.com' },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      providers: [
+        {
+          providerId: 'billing',
+          displayName: 'Billing',
+          matches: [match('cus_1')],
+          actions: [
+            { id: 'billing:customer', type: 'delete', target: 'Customer cus_1', description: '' },
+            { id: 'billing:invoices', type: 'retain', target: 'Invoices', description: '', records: 2, reason: 'Art. 17(3)(b) GDPR', categories: ['invoices'] }
+          ]
+        },
+        { providerId: 'app', displayName: 'App', matches: [match('1')], actions: [{ id: 'app:profile', type: 'delete', target: 'Profile', description: '' }] },
+        { providerId: 'crm', displayName: 'CRM', matches: [match('c1')], actions: [{ id: 'crm:contact', type: 'delete', target: 'Contact', description: '' }] },
+        { providerId: 'legacy', displayName: 'Legacy', matches: [], actions: [] }
+      ],
+      unsupported: []
+    },
+    executedAt: '2024-01-01T00:05:00.000Z',
+    outcomes: [
+      { actionId: 'billing:customer', status: 'deleted', completedAt: '' },
+      { actionId: 'billing:invoices', status: 'retained', completedAt: '' },
+      { actionId: 'app:profile', status: 'deleted', completedAt: '' },
+      { actionId: 'crm:contact', status: 'failed', error: 'API unavailable', completedAt: '' }
+    ],
+    summary: { deleted: 2, retained: 1, failed: 1 }
+  };
+}
+
+function createProvider(id: string, actions: any[] = [], matched: string[] = []) {
+  return {
+    factory: {} as any,
+    provider: {
+      id,
+      displayName: id.toUpperCase(),
+      identifySubject: vi.fn(async () => matched.map(identifier => ({ identifier, kind: 'id', method: 'email' }))),
+      planErasure: vi.fn(async () => actions),
+      exportData: vi.fn()
+    } as any
+  };
+}
+
+describe('verifyErasure', () => {
+  it('should classify each source as empty, retained or still holding data', async () => {
+    const sources = [
+      createProvider('billing', [{ id: 'billing:invoices', type: 'retain', target: 'Invoices', records: 2 }], ['cus_1']),
+      createProvider('app'),
+      createProvider('crm', [{ id: 'crm:contact', type: 'delete', target: 'Contact', records: 1 }], ['c1'])
+    ];
+    const report = await verifyErasure(sources, createRecord());
+
+    expect(report.sources.map(source => [source.providerId, source.status])).toEqual([
+      ['billing', 'retained'],
+      ['app', 'empty'],
+      ['crm', 'holding-data']
+    ]);
+    expect(report.sources[0]).toMatchObject({
+      before: { 'Customer cus_1': 1, Invoices: 2 },
+      matchedNow: ['cus_1'],
+      remaining: { Invoices: 2 },
+      exemptions: [{ target: 'Invoices', reason: 'Art. 17(3)(b) GDPR', records: 2, categories: ['invoices'] }]
+    });
+    expect(report.sources[2]).toMatchObject({ remaining: { Contact: 1 }, uncovered: ['Contact'], failedDeletions: ['Contact'] });
+    expect(report.unchecked).toEqual(['Legacy']);
+    expect(report.summary).toEqual({ empty: 1, retained: 1, 'holding-data': 1, failed: 0 });
+    expect(report.verified).toBe(false);
+    // Nothing is downloaded to verify
+    expect(sources.every(({ provider }) => provider.exportData.mock.calls.length === 0)).toBe(true);
+  });
+
+  it('should check sources without erasure support by identification', async () => {
+    const record = createRecord();
+    record.plan.providers = [];
+    const files = createProvider('files', [], ['jane@company.com']);
+    delete files.provider.planErasure;
+    const tickets = createProvider('tickets');
+    delete tickets.provider.planErasure;
+
+    const report = await verifyErasure([files, tickets], record);
+
+    expect(report.sources.map(source => [source.providerId, source.status, source.remaining])).toEqual([
+      ['files', 'holding-data', { id: 1 }],
+      ['tickets', 'empty', {}]
+    ]);
+  });
+
+  it('should report a failing provider and still check the others', async () => {
+    const record = createRecord();
+    record.plan.providers = record.plan.providers.slice(0, 2);
+    const app = createProvider('app');
+    app.provider.identifySubject.mockRejectedValue(new Error('API unavailable'));
+
+    const report = await verifyErasure([createProvider('billing'), app], record);
+
+    expect(report.sources[0].status).toBe('retained');
+    expect(report.sources[1]).toMatchObject({ status: 'failed', error: 'API unavailable', before: { Profile: 1 } });
+    expect(report.verified).toBe(false);
+  });
+
+  it('should verify when nothing remains outside an exemption', async () => {
+    const record = createRecord();
+    record.plan.providers = record.plan.providers.slice(0, 2);
+
+    const report = await verifyErasure([
+      createProvider('billing', [{ id: 'billing:invoices', type: 'retain', target: 'Invoices', records: 2 }]),
+      createProvider('app')
+    ], record);
+
+    expect(report.verified).toBe(true);
+  });
+});
+
+describe('loadErasureRecord', () => {
+  it('should load an erasure report and reject other files', () => {
+    const path = join(directory, 'erasure.json');
+    writeFileSync(path, JSON.stringify(createRecord()));
+    expect(loadErasureRecord(path).executedAt).toBe('2024-01-01T00:05:00.000Z');
+
+    writeFileSync(path, JSON.stringify({ records: {} }));
+    expect(() => loadErasureRecord(path)).toThrow('is not an erasure report');
+    expect(() => loadErasureRecord(join(directory, 'missing.json'))).toThrow('Erasure record not found');
+  });
+});
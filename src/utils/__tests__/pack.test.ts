@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { existsSync, rmSync, mkdirSync } from 'fs';
-import { EvidencePackBuilder } from '../pack.js';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { EvidencePackBuilder, addListPages, encodableText } from '../pack.js';
 
 describe('EvidencePackBuilder', () => {
   const testDir = './test-evidence';
@@ -231,3 +232,24 @@ describe('EvidencePackBuilder', () => {
     });
   });
 });
+
+describe('encodableText', () => {
+  it('should replace characters the standard fonts cannot encode', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+    expect(encodableText('contracts/Café – 2024.pdf', font)).toBe('contracts/Café – 2024.pdf');
+    expect(encodableText('docs/请求.pdf', font)).toBe('docs/<U+8BF7><U+6C42>.pdf');
+    expect(encodableText('Отчёт 📎', font)).toBe('<U+041E><U+0442><U+0447><U+0451><U+0442> <U+1F4CE>');
+  });
+
+  it('should let list pages hold object keys in any script', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    addListPages(pdfDoc, 'ATTACHMENTS', ['s3/uploads/请求.pdf (12 bytes)', 'S3: Skipped s3://bucket/Отчёт.pdf'], font, boldFont);
+
+    await expect(pdfDoc.save()).resolves.toBeInstanceOf(Uint8Array);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PORTABILITY_SCHEMA_VERSION, PortabilityExportBuilder, stripNoise } from '../portability.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-portability-'));
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('stripNoise', () => {
+  it('should drop node IDs and API URLs but keep links meant for people', () => {
+    expect(stripNoise({
+      id: 1,
+      node_id: 'MDU6SXNzdWUx',
+      url: 'https://api.github.com/repos/acme/api/issues/1',
+      html_url: 'https://github.com/acme/api/issues/1',
+      user: { login: 'jdoe', followers_url: 'https://api.github.com/users/jdoe/followers', following_url: 'https://api.github.com/users/jdoe/following{/other_user}' },
+      tickets: [{ id: 2, url: 'https://acme.zendesk.com/api/v2/tickets/2.json', subject: 'Help' }],
+      hosted_invoice_url: 'https://invoice.stripe.com/i/acct_1/test',
+      website_url: 'not a url'
+    })).toEqual({
+      id: 1,
+      html_url: 'https://github.com/acme/api/issues/1',
+      user: { login: 'jdoe' },
+      tickets: [{ id: 2, subject: 'Help' }],
+      hosted_invoice_url: 'https://invoice.stripe.com/i/acct_1/test',
+      website_url: 'not a url'
+    });
+  });
+});
+
+describe('PortabilityExportBuilder', () => {
+  it('should write one NDJSON file per provider with a manifest, schema and README', () => {
+    const result = new PortabilityExportBuilder(directory).generate('jane@company.com', '2024-01-01T00:00:00.000Z', [
+      {
+        providerId: 'stripe',
+        displayName: 'Stripe',
+        categories: [
+          { key: 'customers', label: 'Stripe Customers', description: 'Customer records' },
+          { key: 'quotes', label: 'Stripe Quotes', description: 'Quotes' }
+        ],
+        records: { customers: [{ id: 'cus_1', email: 'jane@company.com' }, { id: 'cus_2', node_id: 'x' }], quotes: [] }
+      },
+      { providerId: 'legacy', displayName: 'Legacy CRM', categories: [] }
+    ]);
+
+    expect(result.entries.map(entry => typeof entry === 'string' ? entry : entry.name)).toEqual([
+      'portability/stripe.ndjson', 'portability/manifest.json', 'portability/schema.json', 'portability/README.md'
+    ]);
+
+    const lines = readFileSync(join(directory, 'stripe.ndjson'), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      { type: 'stripe.customers', record: { id: 'cus_1', email: 'jane@company.com' } },
+      { type: 'stripe.customers', record: { id: 'cus_2' } }
+    ]);
+
+    const manifest = JSON.parse(readFileSync(join(directory, 'manifest.json'), 'utf8'));
+    expect(manifest).toMatchObject({ schemaVersion: PORTABILITY_SCHEMA_VERSION, subject: 'jane@company.com', excluded: ['Legacy CRM'] });
+    expect(manifest.files[0].recordTypes.map((recordType: any) => [recordType.type, recordType.count]))
+      .toEqual([['stripe.customers', 2], ['stripe.quotes', 0]]);
+
+    const schema = JSON.parse(readFileSync(join(directory, 'schema.json'), 'utf8'));
+    expect(schema.$id).toBe(`urn:autopv:portability:${PORTABILITY_SCHEMA_VERSION}`);
+
+    const readme = readFileSync(join(directory, 'README.md'), 'utf8');
+    expect(readme).toContain('| `stripe.customers` | 2 | Stripe Customers: Customer records |');
+    expect(readme).toContain('- Legacy CRM: see the evidence pack');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  RectificationEvidenceBuilder,
+  buildRectificationPlan,
+  describeRectificationChange,
+  executeRectificationPlan,
+  validateCorrections
+} from '../rectification.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-rectification-'));
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createProviders() {
+  const billing = {
+    id: 'billing',
+    displayName: 'Billing',
+    identifySubject: vi.fn(async () => []),
+    planRectification: vi.fn(async (_subject: any, _matches: any, corrections: Record<string, string>) => corrections.name
+      ? [{ id: 'billing:name', providerId: 'billing', target: 'Customer cus_1', field: 'name', before: 'Jane Doe', after: corrections.name }]
+      : []),
+    executeRectification: vi.fn(async (_subject: any, _matches: any, changes: any[]) => changes.map(change => ({
+      changeId: change.id, status: 'updated', value: change.after, completedAt: '2024-01-01T00:00:00.000Z'
+    })))
+  };
+  const readOnly = { id: 'files', displayName: 'Files', identifySubject: vi.fn() };
+
+  return [billing, readOnly].map(provider => ({ factory: {} as any, provider: provider as any }));
+}
+
+describe('validateCorrections', () => {
+  it('should accept known fields and reject unknown ones or invalid emails', () => {
+    expect(validateCorrections({ name: 'Jane Smith', 'address.city': 'Paris' })).toEqual({ name: 'Jane Smith', 'address.city': 'Paris' });
+    expect(() => validateCorrections({})).toThrow('at least one correction');
+    expect(() => validateCorrections({ nickname: 'JJ' })).toThrow('Unknown field nickname');
+    expect(() => validateCorrections({ email: 'not-an-email' })).toThrow('Invalid email correction');
+  });
+});
+
+describe('rectification plan', () => {
+  it('should report fields no record changes and providers without updates', async () => {
+    const providers = createProviders();
+
+    const plan = await buildRectificationPlan(providers, { email: 'jane@company.com' }, { name: 'Jane Smith', phone: '+49 30 1234' });
+
+    expect(plan.providers.map(provider => provider.changes.length)).toEqual([1]);
+    expect(plan.unchanged).toEqual(['phone']);
+    expect(plan.unsupported).toEqual(['Files']);
+    expect(describeRectificationChange(plan.providers[0].changes[0])).toBe('Customer cus_1 name: "Jane Doe" → "Jane Smith"');
+  });
+
+  it('should apply the changes and write the record with before and after values', async () => {
+    const providers = createProviders();
+    const plan = await buildRectificationPlan(providers, { email: 'jane@company.com' }, { name: 'Jane Smith' });
+
+    const report = await executeRectificationPlan(plan, providers);
+    const result = await new RectificationEvidenceBuilder(directory).generate(report);
+
+    expect(report.summary).toEqual({ updated: 1, failed: 0 });
+    expect(readFileSync(result.pdfPath).subarray(0, 5).toString()).toBe('%PDF-');
+    const record = JSON.parse(readFileSync(result.jsonPath, 'utf8'));
+    expect(record.plan.providers[0].changes[0]).toMatchObject({ before: 'Jane Doe', after: 'Jane Smith' });
+    expect(record.outcomes[0]).toMatchObject({ status: 'updated', value: 'Jane Smith' });
+  });
+
+  it('should write the record for values the PDF fonts cannot encode', async () => {
+    const providers = createProviders();
+    const plan = await buildRectificationPlan(providers, { email: 'hanako@例え.jp' }, { name: '山田 花子' });
+
+    const result = await new RectificationEvidenceBuilder(directory).generate(await executeRectificationPlan(plan, providers));
+
+    expect(readFileSync(result.pdfPath).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(JSON.parse(readFileSync(result.jsonPath, 'utf8')).outcomes[0]).toMatchObject({ value: '山田 花子' });
+  });
+});
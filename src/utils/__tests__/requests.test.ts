@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RequestStore, addMonths, daysRemaining, dueDate } from '../requests.js';
+
+let storePath: string;
+
+beforeEach(() => {
+  storePath = join(mkdtempSync(join(tmpdir(), 'autopv-requests-')), 'requests.enc');
+});
+
+afterEach(() => {
+  rmSync(join(storePath, '..'), { recursive: true, force: true });
+});
+
+const day = (date: string) => new Date(`${date}T12:00:00Z`);
+
+describe('addMonths', () => {
+  it('should keep the day of the month or fall back to the last day', () => {
+    expect(addMonths(day('2026-10-01'), 1).toISOString().slice(0, 10)).toBe('2026-11-01');
+    expect(addMonths(day('2026-01-31'), 1).toISOString().slice(0, 10)).toBe('2026-02-28');
+    expect(addMonths(day('2028-01-31'), 1).toISOString().slice(0, 10)).toBe('2028-02-29');
+    expect(addMonths(day('2026-11-30'), 3).toISOString().slice(0, 10)).toBe('2027-02-28');
+  });
+});
+
+describe('RequestStore', () => {
+  it('should track a request with its deadline and keep it encrypted at rest', () => {
+    const store = RequestStore.open('secret', storePath);
+    const request = store.create(
+      { type: 'access', subject: 'jane@company.com', receivedAt: day('2026-10-01') },
+      day('2026-10-02')
+    );
+
+    expect(request.id).toBe('DSAR-2026-0001');
+    expect(request.deadline).toBe('2026-11-01');
+    expect(request.verification.status).toBe('pending');
+    expect(daysRemaining(request, day('2026-10-25'))).toBe(7);
+    expect(daysRemaining(request, day('2026-11-03'))).toBe(-2);
+
+    expect(readFileSync(storePath).toString('latin1')).not.toContain('jane@company.com');
+    expect(RequestStore.open('secret', storePath).get('dsar-2026-0001').subject).toBe('jane@company.com');
+    expect(() => RequestStore.open('wrong', storePath)).toThrow('was the archive password changed?');
+  });
+
+  it('should number requests per year and list them by due date', () => {
+    const store = RequestStore.open('secret', storePath);
+    store.create({ type: 'access', subject: 'a@company.com', receivedAt: day('2026-10-10') }, day('2026-10-10'));
+    store.create({ type: 'erasure', subject: 'b@company.com', receivedAt: day('2026-10-01') }, day('2026-10-11'));
+
+    expect(store.list().map(request => request.id)).toEqual(['DSAR-2026-0002', 'DSAR-2026-0001']);
+    expect(() => store.create({ type: 'access', subject: 'c@company.com', receivedAt: day('2026-10-20') }, day('2026-10-19')))
+      .toThrow('is in the future');
+  });
+
+  it('should extend the deadline once, only within the first month', () => {
+    const store = RequestStore.open('secret', storePath);
+    const { id } = store.create({ type: 'access', subject: 'jane@company.com', receivedAt: day('2026-01-31') }, day('2026-01-31'));
+
+    expect(() => store.extend(id, '  ', day('2026-02-10'))).toThrow('needs a reason');
+    const extended = store.extend(id, 'Several linked accounts to search', day('2026-02-10'));
+    expect(extended.deadline).toBe('2026-02-28');
+    expect(dueDate(extended)).toBe('2026-04-30');
+    expect(() => store.extend(id, 'Again', day('2026-02-11'))).toThrow('already extended');
+
+    const late = store.create({ type: 'access', subject: 'joe@company.com', receivedAt: day('2026-01-01') }, day('2026-01-01'));
+    expect(() => store.extend(late.id, 'Complex request', day('2026-02-02'))).toThrow('can no longer be extended');
+  });
+
+  it('should require a verified identity to close a request as fulfilled', () => {
+    const store = RequestStore.open('secret', storePath);
+    const { id } = store.create({ type: 'access', subject: 'jane@company.com', receivedAt: day('2026-10-01') }, day('2026-10-01'));
+
+    expect(() => store.close(id, 'fulfilled', undefined, day('2026-10-20'))).toThrow('identity for request DSAR-2026-0001 is pending');
+    store.verify(id, 'verified', 'Signed in to the account', day('2026-10-02'));
+    store.linkOutput(id, 'generate', '/tmp/dsar_jane.zip', day('2026-10-20'));
+    const closed = store.close(id, 'fulfilled', undefined, day('2026-11-02'));
+
+    expect(closed.status).toBe('closed');
+    expect(closed.closure).toMatchObject({ outcome: 'fulfilled', onTime: false });
+    expect(closed.outputs).toEqual([{ command: 'generate', path: '/tmp/dsar_jane.zip', linkedAt: '2026-10-20T12:00:00.000Z' }]);
+    expect(() => store.linkOutput(id, 'generate', '/tmp/again.zip')).toThrow('was closed on 2026-11-02');
+
+    const refused = store.create({ type: 'erasure', subject: 'joe@company.com', receivedAt: day('2026-10-01') }, day('2026-10-01'));
+    expect(store.close(refused.id, 'refused', 'Identity could not be verified', day('2026-10-15')).closure?.onTime).toBe(true);
+  });
+});
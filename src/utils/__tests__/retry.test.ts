@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { backoffDelay, fetchWithRetry, parseRetryAfter, retryDelay, withRetry, withTimeout } from '../retry.js';
+
+const noSleep = { sleep: vi.fn(async () => {}), random: () => 1 };
+
+function httpError(status: number, headers: Record<string, string> = {}, message = 'Request failed') {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  noSleep.sleep.mockClear();
+});
+
+describe('retryDelay', () => {
+  it('should honour Retry-After in seconds and as a date', () => {
+    expect(retryDelay(429, { 'Retry-After': '7' }, 0)).toBe(7000);
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT')).toBe(30_000);
+    vi.useRealTimers();
+  });
+
+  it('should wait for the GitHub rate limit reset', () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 20);
+    const delay = retryDelay(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }, 0)!;
+
+    expect(delay).toBeGreaterThan(19_000);
+    expect(delay).toBeLessThanOrEqual(21_000);
+  });
+
+  it('should wait at least a minute after a secondary rate limit', () => {
+    expect(retryDelay(403, {}, 0, noSleep, 'You have exceeded a secondary rate limit')).toBe(60_000);
+  });
+
+  it('should not retry other client errors', () => {
+    expect(retryDelay(403, {}, 0, noSleep, 'Resource not accessible by integration')).toBeUndefined();
+    expect(retryDelay(404, {}, 0)).toBeUndefined();
+  });
+
+  it('should back off exponentially with jitter up to the maximum', () => {
+    expect(backoffDelay(0, { random: () => 0 })).toBe(500);
+    expect(backoffDelay(3, { random: () => 1 })).toBe(8000);
+    expect(backoffDelay(10, { random: () => 1, maxDelayMs: 30_000 })).toBe(30_000);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry rate limits and server errors until the request succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(task, noSleep)).resolves.toBe('ok');
+    expect(noSleep.sleep.mock.calls).toEqual([[2000], [2000]]);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const task = vi.fn(async () => { throw httpError(503, {}, 'Service Unavailable'); });
+
+    await expect(withRetry(task, { ...noSleep, retries: 2 })).rejects.toThrow('Service Unavailable (gave up after 3 attempts)');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not wait longer than the server-requested limit allows', async () => {
+    const task = vi.fn(async () => { throw httpError(429, { 'retry-after': '3600' }); });
+
+    await expect(withRetry(task, noSleep)).rejects.toThrow('Request failed');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry dropped connections', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(task, noSleep)).resolves.toBe('ok');
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('should retry failing responses and return the last one', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'retry-after': '1' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await fetchWithRetry('https://api.example.com/users', {}, noSleep);
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(noSleep.sleep).toHaveBeenCalledWith(1000);
+  });
+});
+
+describe('withTimeout', () => {
+  it('should reject slow work and pass through fast work', async () => {
+    const slow = new Promise(resolve => setTimeout(resolve, 1000));
+
+    await expect(withTimeout(slow, 10, 'GitHub export timed out after 0.01s')).rejects.toThrow('timed out');
+    await expect(withTimeout(Promise.resolve('done'), 10, 'unused')).resolves.toBe('done');
+    await expect(withTimeout(Promise.resolve('done'), 0, 'unused')).resolves.toBe('done');
+  });
+});
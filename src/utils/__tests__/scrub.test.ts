@@ -164,6 +164,20 @@ describe('PIIScrubber', () => {
     });
   });
 
+  describe('subject identifier redaction', () => {
+    it('should mask the subject\'s logins and IDs wherever they appear', () => {
+      const subjectScrubber = new PIIScrubber({ subjectIdentifiers: ['janedoe', 'cus_123', 'janedoe-work'] });
+      const data = { login: 'JaneDoe', note: 'merged by janedoe-work for cus_123', other: 'janedoe2' };
+      const scrubbed = subjectScrubber.scrubObject(data);
+      const stats = subjectScrubber.getScrubStats(JSON.stringify(data), JSON.stringify(scrubbed));
+
+      expect(scrubbed.login).toBe('[REDACTED]');
+      expect(scrubbed.note).toBe('merged by [REDACTED] for [REDACTED]');
+      expect(scrubbed.other).toBe('janedoe2');
+      expect(stats.subjectIdentifiersFound).toBe(3);
+    });
+  });
+
   describe('IP address handling', () => {
     it('should preserve IP addresses when configured', () => {
       const scrubberWithIPs = new PIIScrubber({ maskIPAddresses: false });
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { canonicalJson, loadSigningKey, signReport, verifyReportSignature } from '../signing.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'autopv-signing-'));
+const keyPath = join(directory, 'signing-key.pem');
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: null } }))
+      .toBe('{"a":{"c":null,"d":[{"y":2,"z":1}]},"b":1}');
+  });
+});
+
+describe('signReport', () => {
+  it('should create the key once and reuse it', () => {
+    const first = signReport({ ok: true }, loadSigningKey('pw', keyPath));
+    const second = signReport({ ok: true }, loadSigningKey('pw', keyPath));
+
+    expect(second.signature.keyFingerprint).toBe(first.signature.keyFingerprint);
+    expect(statSync(keyPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reject a different password', () => {
+    expect(() => loadSigningKey('wrong', keyPath)).toThrow('could not be decrypted');
+  });
+
+  it('should verify untouched reports regardless of key order and detect changes', () => {
+    const signed = signReport({ subject: 'jane@company.com', sources: [{ status: 'empty' }] }, loadSigningKey('pw', keyPath));
+    expect(verifyReportSignature(signed)).toBe(true);
+    expect(verifyReportSignature({ ...signed, report: { sources: [{ status: 'empty' }], subject: 'jane@company.com' } })).toBe(true);
+    expect(verifyReportSignature({ ...signed, report: { subject: 'jane@company.com', sources: [{ status: 'retained' }] } })).toBe(false);
+  });
+});
@@ -3,10 +3,15 @@
  * Creates password-protected zip archives for evidence files
  */
 
-import { createWriteStream, existsSync, unlinkSync, statSync, readFileSync } from 'fs';
+import { createWriteStream, existsSync, unlinkSync, statSync } from 'fs';
 import { join, basename } from 'path';
 import * as yazl from 'yazl';
 
+/**
+ * A file to archive, either stored under its basename or under an explicit archive path
+ */
+export type ArchiveEntry = string | { path: string; name: string };
+
 export interface ArchiveResult {
     archivePath: string;
     filesArchived: string[];
@@ -28,7 +33,7 @@ export class ArchiveCreator {
     /**
      * Create encrypted zip archive from evidence files
      */
-    async createEncryptedArchive(files: string[], archiveName?: string): Promise<ArchiveResult> {
+    async createEncryptedArchive(files: ArchiveEntry[], archiveName?: string): Promise<ArchiveResult> {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const defaultArchiveName = `evidence_pack_${timestamp}.zip`;
         const archivePath = join(this.outputDir, archiveName || defaultArchiveName);
@@ -43,16 +48,17 @@ export class ArchiveCreator {
 
         try {
             // Verify all input files exist
-            const validFiles: string[] = [];
+            const validFiles: Array<{ path: string; name: string }> = [];
             let totalOriginalSize = 0;
 
             for (const file of files) {
-                if (existsSync(file)) {
-                    validFiles.push(file);
-                    totalOriginalSize += statSync(file).size;
-                    result.filesArchived.push(basename(file));
+                const entry = typeof file === 'string' ? { path: file, name: basename(file) } : file;
+                if (existsSync(entry.path)) {
+                    validFiles.push(entry);
+                    totalOriginalSize += statSync(entry.path).size;
+                    result.filesArchived.push(entry.name);
                 } else {
-                    console.warn(`Warning: File not found: ${file}`);
+                    console.warn(`Warning: File not found: ${entry.path}`);
                 }
             }
 
@@ -85,7 +91,7 @@ export class ArchiveCreator {
     /**
      * Create zip archive using yazl
      */
-    private async createZipArchive(files: string[], archivePath: string): Promise<void> {
+    private async createZipArchive(files: Array<{ path: string; name: string }>, archivePath: string): Promise<void> {
         return new Promise((resolve, reject) => {
             // Remove existing archive if it exists
             if (existsSync(archivePath)) {
@@ -95,13 +101,12 @@ export class ArchiveCreator {
             // Create zip archive with password protection
             const zipFile = new yazl.ZipFile();
             
-            // Add files to the archive
+            // Add files to the archive; yazl streams each one from disk, so large attachments stay out of memory
             for (const file of files) {
                 try {
-                    const fileBuffer = readFileSync(file);
-                    zipFile.addBuffer(fileBuffer, basename(file));
+                    zipFile.addFile(file.path, file.name);
                 } catch (error: any) {
-                    reject(new Error(`Failed to read file ${file}: ${error.message}`));
+                    reject(new Error(`Failed to read file ${file.path}: ${error.message}`));
                     return;
                 }
             }
@@ -204,7 +209,7 @@ export class ArchiveCreator {
  * Convenience function to create encrypted archive
  */
 export async function createEncryptedArchive(
-    files: string[], 
+    files: ArchiveEntry[], 
     password: string, 
     outputDir?: string, 
     archiveName?: string
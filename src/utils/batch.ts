@@ -0,0 +1,100 @@
+/**
+ * Batch Processing
+ * Runs a queue of data subjects through the evidence pipeline with bounded
+ * concurrency and records the outcome of each one
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { SubjectDefinition, createSubject } from '../providers/subject.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { EvidencePipeline } from './pipeline.js';
+
+export interface BatchSubjectResult {
+    email: string;
+    status: 'succeeded' | 'failed';
+    archivePath?: string;
+    records?: number;
+    notices?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface BatchSummary {
+    startedAt: string;
+    finishedAt: string;
+    total: number;
+    succeeded: number;
+    failed: number;
+    results: BatchSubjectResult[];
+}
+
+export interface BatchOptions {
+    concurrency: number;
+    /** Called as each subject finishes, in completion order */
+    onResult?: (result: BatchSubjectResult, completed: number, total: number) => void;
+}
+
+/**
+ * Process every subject in the queue; a failing subject never stops the batch
+ */
+export async function runBatch(
+    pipeline: EvidencePipeline,
+    queue: SubjectDefinition[],
+    options: BatchOptions
+): Promise<BatchSummary> {
+    const startedAt = new Date().toISOString();
+    let completed = 0;
+
+    const results = await mapWithConcurrency(queue, options.concurrency, async (definition, index) => {
+        const started = Date.now();
+        let result: BatchSubjectResult;
+
+        try {
+            const subject = createSubject(definition);
+            const run = await pipeline.run(subject);
+            if (!run.archive.success) {
+                throw new Error(`Archive creation failed: ${run.archive.error}`);
+            }
+
+            result = {
+                email: subject.email,
+                status: 'succeeded',
+                archivePath: run.archive.archivePath,
+                records: run.providers.reduce((total, provider) =>
+                    total + Object.values(provider.counts).reduce((sum, count) => sum + count, 0), 0),
+                notices: run.providers.reduce((total, provider) => total + provider.notices.length, 0),
+                durationMs: Date.now() - started
+            };
+        } catch (error: any) {
+            result = {
+                email: definition.emails?.[0] || `entry ${index + 1}`,
+                status: 'failed',
+                error: error.message,
+                durationMs: Date.now() - started
+            };
+        }
+
+        options.onResult?.(result, ++completed, queue.length);
+        return result;
+    });
+
+    const succeeded = results.filter(result => result.status === 'succeeded').length;
+    return {
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+    };
+}
+
+/**
+ * Write the batch summary report next to the evidence packs
+ */
+export function writeBatchSummary(summary: BatchSummary, outputDir: string = '.'): string {
+    const path = join(outputDir, `batch_summary_${summary.startedAt.replace(/[:.]/g, '-')}.json`);
+    writeFileSync(path, JSON.stringify(summary, null, 2));
+    return path;
+}
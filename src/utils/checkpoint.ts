@@ -0,0 +1,199 @@
+/**
+ * Run Checkpoints
+ * Stores each completed pipeline stage, encrypted with the archive password,
+ * so a failed run can resume without exporting from every provider again
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, join } from 'path';
+import { DataSubject, ProviderExport } from '../providers/types.js';
+import { decrypt, deriveKey, encrypt } from './encryption.js';
+
+export const DEFAULT_CHECKPOINT_DIR = join(homedir(), '.autopv', 'runs');
+
+// Stages of a run in pipeline order; provider exports are checkpointed as "export:<providerId>"
+export const CHECKPOINT_STAGES = ['merge', 'scrub', 'classify', 'pack'] as const;
+
+export type CheckpointStage = typeof CHECKPOINT_STAGES[number] | `export:${string}`;
+
+export interface RunManifest {
+    runId: string;
+    createdAt: string;
+    updatedAt: string;
+    subject: DataSubject;
+    /** Command options needed to rebuild the providers on resume */
+    options: Record<string, any>;
+    completedStages: CheckpointStage[];
+}
+
+export class CheckpointStore {
+    readonly runId: string;
+    readonly directory: string;
+    private key: Buffer;
+    private manifest: RunManifest;
+
+    private constructor(directory: string, key: Buffer, manifest: RunManifest) {
+        this.runId = manifest.runId;
+        this.directory = directory;
+        this.key = key;
+        this.manifest = manifest;
+    }
+
+    /**
+     * Start checkpointing a new run
+     */
+    static create(
+        subject: DataSubject,
+        options: Record<string, any>,
+        password: string,
+        rootDir: string = DEFAULT_CHECKPOINT_DIR
+    ): CheckpointStore {
+        const now = new Date();
+        const runId = `${now.toISOString().replace(/[-:]/g, '').slice(0, 15)}-${randomBytes(3).toString('hex')}`;
+        const directory = join(rootDir, runId);
+        mkdirSync(join(directory, 'attachments'), { recursive: true, mode: 0o700 });
+
+        const store = new CheckpointStore(directory, runKey(password, runId), {
+            runId,
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString(),
+            subject,
+            options,
+            completedStages: []
+        });
+        store.writeManifest();
+        return store;
+    }
+
+    /**
+     * Reopen the checkpoints of an earlier run
+     */
+    static open(runId: string, password: string, rootDir: string = DEFAULT_CHECKPOINT_DIR): CheckpointStore {
+        const directory = join(rootDir, runId);
+        if (!/^[\w-]+$/.test(runId) || !existsSync(join(directory, 'run.enc'))) {
+            throw new Error(`No checkpoints found for run ${runId}`);
+        }
+
+        const key = runKey(password, runId);
+        let manifest: RunManifest;
+        try {
+            manifest = JSON.parse(decrypt(readFileSync(join(directory, 'run.enc')), key).toString('utf8'));
+        } catch {
+            throw new Error(`Checkpoints for run ${runId} could not be decrypted; was the archive password changed?`);
+        }
+        return new CheckpointStore(directory, key, manifest);
+    }
+
+    /**
+     * Delete runs last updated more than `maxAgeHours` ago
+     */
+    static prune(maxAgeHours: number = 24 * 7, rootDir: string = DEFAULT_CHECKPOINT_DIR): string[] {
+        if (!existsSync(rootDir)) {
+            return [];
+        }
+
+        const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+        const pruned: string[] = [];
+        for (const runId of readdirSync(rootDir)) {
+            const directory = join(rootDir, runId);
+            if (statSync(directory).mtimeMs < cutoffTime) {
+                rmSync(directory, { recursive: true, force: true });
+                pruned.push(runId);
+            }
+        }
+        return pruned;
+    }
+
+    get subject(): DataSubject {
+        return this.manifest.subject;
+    }
+
+    get options(): Record<string, any> {
+        return this.manifest.options;
+    }
+
+    get completedStages(): CheckpointStage[] {
+        return [...this.manifest.completedStages];
+    }
+
+    has(stage: CheckpointStage): boolean {
+        return this.manifest.completedStages.includes(stage);
+    }
+
+    /**
+     * Record a completed stage
+     */
+    save(stage: CheckpointStage, data: unknown): void {
+        writeFileSync(this.stagePath(stage), encrypt(Buffer.from(JSON.stringify(data), 'utf8'), this.key), { mode: 0o600 });
+        if (!this.has(stage)) {
+            this.manifest.completedStages.push(stage);
+        }
+        this.writeManifest();
+    }
+
+    /**
+     * Read a completed stage, or undefined when it has not run yet
+     */
+    load<T>(stage: CheckpointStage): T | undefined {
+        if (!this.has(stage)) {
+            return undefined;
+        }
+        return JSON.parse(decrypt(readFileSync(this.stagePath(stage)), this.key).toString('utf8'));
+    }
+
+    /**
+     * Record a provider export together with its downloaded attachments
+     *
+     * Attachments live in a temporary directory that is removed when the run ends,
+     * so their contents are stored (encrypted) alongside the stage.
+     */
+    saveExport(providerExport: ProviderExport): void {
+        const attachments = providerExport.attachments.map((attachment, index) => {
+            const stored = `${providerExport.providerId}-${index}.enc`;
+            writeFileSync(join(this.directory, 'attachments', stored), encrypt(readFileSync(attachment.path), this.key), { mode: 0o600 });
+            return { ...attachment, path: stored };
+        });
+        this.save(`export:${providerExport.providerId}`, { ...providerExport, attachments });
+    }
+
+    /**
+     * Read a provider export, restoring its attachments under `attachmentDir`
+     */
+    loadExport(providerId: string, attachmentDir: string): ProviderExport | undefined {
+        const providerExport = this.load<ProviderExport>(`export:${providerId}`);
+        if (!providerExport || providerExport.attachments.length === 0) {
+            return providerExport;
+        }
+
+        const directory = mkdtempSync(join(attachmentDir, `autopv-${providerId}-`));
+        providerExport.attachments = providerExport.attachments.map((attachment, index) => {
+            const path = join(directory, `${index}-${basename(attachment.name)}`);
+            writeFileSync(path, decrypt(readFileSync(join(this.directory, 'attachments', attachment.path)), this.key));
+            return { ...attachment, path };
+        });
+        return providerExport;
+    }
+
+    /**
+     * Delete the run's checkpoints once it has completed
+     */
+    remove(): void {
+        rmSync(this.directory, { recursive: true, force: true });
+    }
+
+    private stagePath(stage: CheckpointStage): string {
+        return join(this.directory, `${stage.replace(':', '-')}.enc`);
+    }
+
+    private writeManifest(): void {
+        this.manifest.updatedAt = new Date().toISOString();
+        writeFileSync(join(this.directory, 'run.enc'), encrypt(Buffer.from(JSON.stringify(this.manifest), 'utf8'), this.key), { mode: 0o600 });
+    }
+}
+
+function runKey(password: string, runId: string): Buffer {
+    // The run ID is random per run, so it doubles as the salt
+    return deriveKey(password, `autopv-run-${runId}`);
+}
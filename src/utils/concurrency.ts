@@ -0,0 +1,51 @@
+/**
+ * Concurrency Utilities
+ * Bounded parallelism for batch runs and shared per-provider request budgets
+ */
+
+/**
+ * Runs a task once a slot is free; tasks sharing a limiter share its budget
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that allows at most `concurrency` tasks in flight
+ */
+export function createLimiter(concurrency: number): Limiter {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+
+    let active = 0;
+    const waiting: Array<() => void> = [];
+
+    const release = () => {
+        active--;
+        waiting.shift()?.();
+    };
+
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+        if (active >= concurrency) {
+            await new Promise<void>(resolve => waiting.push(resolve));
+        }
+        active++;
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    };
+}
+
+/**
+ * Map items through an async worker with at most `concurrency` running at once,
+ * keeping results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const limit = createLimiter(concurrency);
+    return Promise.all(items.map((item, index) => limit(() => worker(item, index))));
+}
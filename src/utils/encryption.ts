@@ -0,0 +1,37 @@
+/**
+ * Local Encryption
+ * AES-256-GCM helpers for data autopv keeps on disk between runs, keyed from
+ * the archive password
+ */
+
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Derive a 256-bit key from the archive password
+ */
+export function deriveKey(password: string, salt: string | Buffer): Buffer {
+    return pbkdf2Sync(password, salt, 100000, 32, 'sha256');
+}
+
+/**
+ * Encrypt to iv | auth tag | ciphertext
+ */
+export function encrypt(plaintext: Buffer, key: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * Decrypt a payload written by encrypt(); throws when the key is wrong or the data was altered
+ */
+export function decrypt(payload: Buffer, key: Buffer): Buffer {
+    const decipher = createDecipheriv(ALGORITHM, key, payload.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
@@ -0,0 +1,243 @@
+/**
+ * Erasure Requests
+ * Builds an Art. 17 deletion plan from the configured providers, carries it out
+ * and records what was deleted, what was kept and why
+ */
+
+import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { isConfirmedMatch, listSubjectIdentifiers } from '../providers/subject.js';
+import {
+    DataSourceProvider,
+    DataSubject,
+    ErasureAction,
+    ErasureOutcome,
+    ErasureStatus,
+    ProviderFactory,
+    SubjectMatch
+} from '../providers/types.js';
+import { addListPages, encodableText } from './pack.js';
+
+export interface ProviderErasurePlan {
+    providerId: string;
+    displayName: string;
+    matches: SubjectMatch[];
+    actions: ErasureAction[];
+}
+
+export interface ErasurePlan {
+    subject: DataSubject;
+    createdAt: string;
+    providers: ProviderErasurePlan[];
+    /** Configured providers that cannot erase data; their data must be handled manually */
+    unsupported: string[];
+}
+
+export interface ErasureReport {
+    plan: ErasurePlan;
+    executedAt: string;
+    outcomes: ErasureOutcome[];
+    summary: Record<ErasureStatus, number>;
+}
+
+export interface ErasureEvidenceResult {
+    pdfPath: string;
+    jsonPath: string;
+    filesCreated: string[];
+}
+
+type ProviderEntry = { factory: ProviderFactory; provider: DataSourceProvider };
+
+/**
+ * Ask every provider that supports erasure what it would delete and keep
+ */
+export async function buildErasurePlan(providers: ProviderEntry[], subject: DataSubject): Promise<ErasurePlan> {
+    const supported = providers.filter(({ provider }) => provider.planErasure);
+
+    const plans = await Promise.all(supported.map(async ({ provider }) => {
+        const matches = await provider.identifySubject(subject);
+        return {
+            providerId: provider.id,
+            displayName: provider.displayName,
+            matches,
+            actions: await provider.planErasure!(subject, matches)
+        };
+    }));
+
+    return {
+        subject,
+        createdAt: new Date().toISOString(),
+        providers: plans,
+        unsupported: providers.filter(({ provider }) => !provider.planErasure).map(({ provider }) => provider.displayName)
+    };
+}
+
+/**
+ * Carry out the plan's delete actions provider by provider; retained data is recorded as such
+ */
+export async function executeErasurePlan(
+    plan: ErasurePlan,
+    providers: ProviderEntry[],
+    onOutcome?: (action: ErasureAction, outcome: ErasureOutcome) => void
+): Promise<ErasureReport> {
+    const outcomes: ErasureOutcome[] = [];
+
+    for (const providerPlan of plan.providers) {
+        const provider = providers.find(entry => entry.provider.id === providerPlan.providerId)!.provider;
+        const deletions = providerPlan.actions.filter(action => action.type === 'delete');
+
+        let results: ErasureOutcome[] = [];
+        if (deletions.length > 0) {
+            try {
+                results = await provider.executeErasure!(plan.subject, providerPlan.matches, deletions);
+            } catch (error: any) {
+                results = deletions.map(action => failedOutcome(action, error.message));
+            }
+        }
+
+        for (const action of providerPlan.actions) {
+            const outcome = action.type === 'retain'
+                ? { actionId: action.id, status: 'retained' as const, records: action.records, completedAt: new Date().toISOString() }
+                : results.find(result => result.actionId === action.id) || failedOutcome(action, 'The provider reported no outcome');
+            outcomes.push(outcome);
+            onOutcome?.(action, outcome);
+        }
+    }
+
+    return {
+        plan,
+        executedAt: new Date().toISOString(),
+        outcomes,
+        summary: {
+            deleted: outcomes.filter(outcome => outcome.status === 'deleted').length,
+            retained: outcomes.filter(outcome => outcome.status === 'retained').length,
+            failed: outcomes.filter(outcome => outcome.status === 'failed').length
+        }
+    };
+}
+
+/**
+ * One-line description of a planned action
+ */
+export function describeErasureAction(action: ErasureAction): string {
+    const records = action.records !== undefined ? ` (${action.records} records)` : '';
+    return `${action.target}${records}: ${action.description}`;
+}
+
+/**
+ * Identifiers a provider matched only with medium or low confidence; nothing is deleted for them
+ */
+export function unconfirmedMatches(plan: ProviderErasurePlan): SubjectMatch[] {
+    const confirmed = new Set(plan.matches.filter(isConfirmedMatch).map(match => match.identifier));
+    const unconfirmed = new Map<string, SubjectMatch>();
+    for (const match of plan.matches) {
+        if (confirmed.has(match.identifier)) continue;
+        if (unconfirmed.get(match.identifier)?.confidence !== 'medium') {
+            unconfirmed.set(match.identifier, match);
+        }
+    }
+    return [...unconfirmed.values()];
+}
+
+/**
+ * Writes the erasure evidence record as a PDF for people and JSON for systems
+ */
+export class ErasureEvidenceBuilder {
+    private outputDir: string;
+
+    constructor(outputDir: string = '.') {
+        this.outputDir = outputDir;
+    }
+
+    async generate(report: ErasureReport): Promise<ErasureEvidenceResult> {
+        const timestamp = report.executedAt.replace(/[:.]/g, '-');
+        const emailSafe = report.plan.subject.email.replace(/[^a-zA-Z0-9]/g, '_');
+
+        const pdfPath = join(this.outputDir, `erasure_${emailSafe}_${timestamp}.pdf`);
+        const jsonPath = join(this.outputDir, `erasure_${emailSafe}_${timestamp}.json`);
+
+        writeFileSync(pdfPath, await this.generatePDF(report));
+        writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+
+        return { pdfPath, jsonPath, filesCreated: [pdfPath, jsonPath] };
+    }
+
+    private async generatePDF(report: ErasureReport): Promise<Uint8Array> {
+        const pdfDoc = await PDFDocument.create();
+        const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+        const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        const { plan } = report;
+
+        // Cover page
+        const page = pdfDoc.addPage([612, 792]);
+        let yPosition = 750;
+
+        page.drawText('ERASURE EVIDENCE RECORD', { x: 50, y: yPosition, size: 24, font: boldFont, color: rgb(0, 0, 0.8) });
+        yPosition -= 40;
+        page.drawText(encodableText(`Art. 17 GDPR erasure request for ${plan.subject.email}`, font), { x: 50, y: yPosition, size: 14, font, color: rgb(0.2, 0.2, 0.2) });
+        yPosition -= 60;
+
+        const info = [
+            `Plan Reviewed: ${new Date(plan.createdAt).toLocaleString()}`,
+            `Erasure Executed: ${new Date(report.executedAt).toLocaleString()}`,
+            `Data Subject: ${plan.subject.email}`,
+            `Identifiers Searched: ${listSubjectIdentifiers(plan.subject).length}`,
+            `Items Deleted: ${report.summary.deleted}`,
+            `Items Retained: ${report.summary.retained}`,
+            `Items Failed: ${report.summary.failed}`,
+            `Generated by: AutoPrivacy CLI`,
+        ];
+        page.drawText('ERASURE SUMMARY', { x: 50, y: yPosition, size: 16, font: boldFont });
+        yPosition -= 30;
+        for (const line of info) {
+            page.drawText(encodableText(line, font), { x: 70, y: yPosition, size: 12, font });
+            yPosition -= 20;
+        }
+
+        const sections: Array<[string, ErasureStatus]> = [
+            ['DELETED', 'deleted'],
+            ['RETAINED', 'retained'],
+            ['FAILED', 'failed']
+        ];
+        for (const [title, status] of sections) {
+            const lines = this.buildOutcomeLines(report, status);
+            if (lines.length > 0) {
+                addListPages(pdfDoc, title, lines, font, boldFont);
+            }
+        }
+
+        const manual = [
+            ...plan.providers.flatMap(providerPlan => unconfirmedMatches(providerPlan).map(match =>
+                `${providerPlan.displayName}: ${match.identifier} was matched by ${match.method} (${match.confidence} confidence) only, so nothing was deleted for it`)),
+            ...plan.unsupported.map(name => `${name}: this system has no automated erasure; its data must be erased manually`)
+        ];
+        if (manual.length > 0) {
+            addListPages(pdfDoc, 'NOT ERASED AUTOMATICALLY', manual, font, boldFont);
+        }
+
+        return pdfDoc.save();
+    }
+
+    private buildOutcomeLines(report: ErasureReport, status: ErasureStatus): string[] {
+        const lines: string[] = [];
+        for (const providerPlan of report.plan.providers) {
+            for (const action of providerPlan.actions) {
+                const outcome = report.outcomes.find(candidate => candidate.actionId === action.id);
+                if (outcome?.status !== status) continue;
+
+                const records = outcome.records ?? action.records;
+                lines.push(`${providerPlan.displayName}: ${action.target}${records !== undefined ? ` (${records} records)` : ''} at ${outcome.completedAt}`);
+                lines.push(`- ${action.description}`);
+                if (action.match) lines.push(`- Matched by: ${action.match.method} (${action.match.confidence} confidence)`);
+                if (action.reason) lines.push(`- Reason: ${action.reason}`);
+                if (outcome.error) lines.push(`- Error: ${outcome.error}`);
+            }
+        }
+        return lines;
+    }
+}
+
+function failedOutcome(action: ErasureAction, error: string): ErasureOutcome {
+    return { actionId: action.id, status: 'failed', error, completedAt: new Date().toISOString() };
+}
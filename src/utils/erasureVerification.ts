@@ -0,0 +1,165 @@
+/**
+ * Erasure Verification
+ * Looks the subject up again after an erasure and compares what is still found
+ * with the record counts in the erasure record, so every source can be shown to
+ * be empty, retained under a stated exemption, or still holding data
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { DataSourceProvider, DataSubject, ErasureAction, ProviderFactory } from '../providers/types.js';
+import { ErasureReport } from './erasure.js';
+
+export type SourceVerificationStatus = 'empty' | 'retained' | 'holding-data' | 'failed';
+
+export interface ErasureExemption {
+    target: string;
+    reason: string;
+    /** Records kept when the erasure ran */
+    records?: number;
+    categories: string[];
+}
+
+export interface SourceVerification {
+    providerId: string;
+    displayName: string;
+    status: SourceVerificationStatus;
+    /** Records per erasure target when the erasure was planned, from the erasure record */
+    before: Record<string, number>;
+    /** Identifiers the provider still matches */
+    matchedNow: string[];
+    /**
+     * Records still found per erasure target; sources that cannot plan an erasure
+     * report the identifiers they still match per kind instead
+     */
+    remaining: Record<string, number>;
+    exemptions: ErasureExemption[];
+    /** Targets still holding records that no exemption covers */
+    uncovered: string[];
+    /** Deletions of this source that failed during the erasure */
+    failedDeletions: string[];
+    /** Why the source could not be checked */
+    error?: string;
+}
+
+export interface ErasureVerificationReport {
+    subject: DataSubject;
+    erasureExecutedAt: string;
+    verifiedAt: string;
+    sources: SourceVerification[];
+    /** Sources in the erasure record that were not configured for this verification */
+    unchecked: string[];
+    summary: Record<SourceVerificationStatus, number>;
+    /** True when no source holds data outside an exemption and every source was checked without failing */
+    verified: boolean;
+}
+
+type ProviderEntry = { factory: ProviderFactory; provider: DataSourceProvider };
+
+/**
+ * Load the JSON report written by `autopv erase`
+ */
+export function loadErasureRecord(path: string): ErasureReport {
+    const absolutePath = resolve(path);
+    if (!existsSync(absolutePath)) {
+        throw new Error(`Erasure record not found: ${absolutePath}`);
+    }
+
+    let record: any;
+    try {
+        record = JSON.parse(readFileSync(absolutePath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Erasure record ${absolutePath} is not valid JSON: ${error.message}`);
+    }
+    if (!record?.plan?.subject?.email || !Array.isArray(record.plan.providers) || !Array.isArray(record.outcomes)) {
+        throw new Error(`Erasure record ${absolutePath} is not an erasure report; use the .json file from the erasure record archive`);
+    }
+    return record as ErasureReport;
+}
+
+/**
+ * Look the erased subject up again in every provider and classify what remains
+ *
+ * Providers that can erase plan the erasure again, which counts what each target
+ * still holds without downloading it; the others are checked by identification
+ * alone. A provider that fails is reported as failed and the others still run.
+ */
+export async function verifyErasure(providers: ProviderEntry[], record: ErasureReport): Promise<ErasureVerificationReport> {
+    const subject = record.plan.subject;
+
+    const sources = await Promise.all(providers.map(async ({ provider }): Promise<SourceVerification> => {
+        const planned = record.plan.providers.find(candidate => candidate.providerId === provider.id);
+        const actions = planned?.actions || [];
+        const outcome = (actionId: string) => record.outcomes.find(candidate => candidate.actionId === actionId);
+
+        const exemptions = actions
+            .filter(action => action.type === 'retain' && outcome(action.id)?.status === 'retained')
+            .map(action => ({ target: action.target, reason: action.reason!, records: action.records, categories: action.categories || [] }));
+        const verification: SourceVerification = {
+            providerId: provider.id,
+            displayName: provider.displayName,
+            status: 'failed',
+            before: Object.fromEntries(actions.map(action => [action.target, actionRecords(action)])),
+            matchedNow: [],
+            remaining: {},
+            exemptions,
+            uncovered: [],
+            failedDeletions: actions
+                .filter(action => action.type === 'delete' && outcome(action.id)?.status !== 'deleted')
+                .map(action => action.target)
+        };
+
+        try {
+            const matches = await provider.identifySubject(subject);
+            verification.matchedNow = matches.map(match => match.identifier);
+
+            if (provider.planErasure) {
+                for (const action of await provider.planErasure(subject, matches)) {
+                    const records = actionRecords(action);
+                    if (records > 0) verification.remaining[action.target] = records;
+                }
+            } else {
+                // Supplied identifiers are matched whether or not the source holds anything
+                for (const match of matches.filter(candidate => candidate.method !== 'supplied')) {
+                    verification.remaining[match.kind] = (verification.remaining[match.kind] || 0) + 1;
+                }
+            }
+        } catch (error: any) {
+            verification.error = error.message;
+            return verification;
+        }
+
+        const exempted = new Set(exemptions.map(exemption => exemption.target));
+        verification.uncovered = Object.keys(verification.remaining).filter(target => !exempted.has(target));
+        verification.status = verification.uncovered.length > 0 ? 'holding-data' : exemptions.length > 0 ? 'retained' : 'empty';
+        return verification;
+    }));
+
+    const checked = new Set(providers.map(({ provider }) => provider.id));
+    const unchecked = record.plan.providers
+        .filter(planned => !checked.has(planned.providerId))
+        .map(planned => planned.displayName);
+    const summary = {
+        empty: sources.filter(source => source.status === 'empty').length,
+        retained: sources.filter(source => source.status === 'retained').length,
+        'holding-data': sources.filter(source => source.status === 'holding-data').length,
+        failed: sources.filter(source => source.status === 'failed').length
+    };
+
+    return {
+        subject,
+        erasureExecutedAt: record.executedAt,
+        verifiedAt: new Date().toISOString(),
+        sources,
+        unchecked,
+        summary,
+        verified: summary['holding-data'] === 0 && summary.failed === 0 && unchecked.length === 0
+    };
+}
+
+/**
+ * Records an action covers; actions that do not count them stand for one record
+ */
+function actionRecords(action: ErasureAction): number {
+    return action.records ?? 1;
+}
@@ -3,19 +3,27 @@
  * Generates PDF and CSV files for DSAR evidence packages
  */
 
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFFont, rgb, StandardFonts } from 'pdf-lib';
 import { Parser } from 'json2csv';
 import { writeFileSync } from 'fs';
 import { join } from 'path';
+import { ProviderExport } from '../providers/types.js';
+import { SubjectIdentifier } from '../providers/subject.js';
+import { groupActivityByRepository } from '../providers/githubActivity.js';
+
+export type ProviderSummary = Omit<ProviderExport, 'data'>;
 
 export interface EvidencePackData {
     email: string;
-    githubOrg?: string;
+    /** Every identifier searched for the subject, primary email first */
+    subjectIdentifiers?: SubjectIdentifier[];
+    githubOrgs?: string[];
     exportTimestamp: string;
     original: any;
     scrubbed: any;
     scrubStats?: any;
     gdprClassification?: any;
+    providers?: ProviderSummary[];
 }
 
 export interface EvidencePackResult {
@@ -95,7 +103,7 @@ export class EvidencePackBuilder {
         yPosition -= 40;
 
         // Subtitle
-        page.drawText(`Data Subject Access Request Evidence for ${data.email}`, {
+        page.drawText(encodableText(`Data Subject Access Request Evidence for ${data.email}`, font), {
             x: 50,
             y: yPosition,
             size: 14,
@@ -108,7 +116,8 @@ export class EvidencePackBuilder {
         const exportInfo = [
             `Export Date: ${new Date(data.exportTimestamp).toLocaleString()}`,
             `Data Subject: ${data.email}`,
-            `GitHub Organization: ${data.githubOrg || 'N/A'}`,
+            `Identifiers Searched: ${data.subjectIdentifiers?.length || 1}`,
+            `GitHub Organizations: ${data.githubOrgs?.join(', ') || 'N/A'}`,
             `Generated by: AutoPrivacy CLI`,
         ];
 
@@ -121,7 +130,7 @@ export class EvidencePackBuilder {
         yPosition -= 30;
 
         for (const info of exportInfo) {
-            page.drawText(info, {
+            page.drawText(encodableText(info, font), {
                 x: 70,
                 y: yPosition,
                 size: 12,
@@ -141,16 +150,18 @@ export class EvidencePackBuilder {
         });
         yPosition -= 30;
 
-        const dataSummary = [
-            `GitHub Events: ${data.scrubbed.github?.events?.length || 0}`,
-            `GitHub Audit Entries: ${data.scrubbed.github?.audit?.length || 0}`,
-            `Stripe Customers: ${data.scrubbed.stripe?.customers?.length || 0}`,
-            `Stripe Charges: ${data.scrubbed.stripe?.charges?.length || 0}`,
-            `Stripe Payment Methods: ${data.scrubbed.stripe?.methods?.length || 0}`,
-        ];
+        const dataSummary = data.providers
+            ? this.buildProviderSummary(data.providers)
+            : [
+                `GitHub Events: ${data.scrubbed.github?.events?.length || 0}`,
+                `GitHub Audit Entries: ${data.scrubbed.github?.audit?.length || 0}`,
+                `Stripe Customers: ${data.scrubbed.stripe?.customers?.length || 0}`,
+                `Stripe Charges: ${data.scrubbed.stripe?.charges?.length || 0}`,
+                `Stripe Payment Methods: ${data.scrubbed.stripe?.methods?.length || 0}`,
+            ];
 
         for (const summary of dataSummary) {
-            page.drawText(summary, {
+            page.drawText(encodableText(summary, font), {
                 x: 70,
                 y: yPosition,
                 size: 12,
@@ -159,6 +170,28 @@ export class EvidencePackBuilder {
             yPosition -= 20;
         }
 
+        // Subject Identification
+        if (data.providers && data.providers.length > 0) {
+            yPosition -= 30;
+            page.drawText('SUBJECT IDENTIFICATION', {
+                x: 50,
+                y: yPosition,
+                size: 16,
+                font: boldFont
+            });
+            yPosition -= 30;
+
+            for (const info of this.buildIdentificationSummary(data.providers)) {
+                page.drawText(encodableText(info, font), {
+                    x: 70,
+                    y: yPosition,
+                    size: 12,
+                    font: font
+                });
+                yPosition -= 20;
+            }
+        }
+
         // PII Scrubbing Information
         if (data.scrubStats) {
             yPosition -= 30;
@@ -176,11 +209,12 @@ export class EvidencePackBuilder {
                 `SSNs Redacted: ${data.scrubStats.ssnsFound}`,
                 `Credit Cards Redacted: ${data.scrubStats.creditCardsFound}`,
                 `API Keys Redacted: ${data.scrubStats.apiKeysFound}`,
+                `Subject Identifiers Redacted: ${data.scrubStats.subjectIdentifiersFound || 0}`,
                 `Data Size Reduction: ${data.scrubStats.totalReductions} bytes`,
             ];
 
             for (const info of scrubInfo) {
-                page.drawText(info, {
+                page.drawText(encodableText(info, font), {
                     x: 70,
                     y: yPosition,
                     size: 12,
@@ -209,7 +243,7 @@ export class EvidencePackBuilder {
             ];
 
             for (const info of gdprInfo) {
-                page.drawText(info, {
+                page.drawText(encodableText(info, font), {
                     x: 70,
                     y: yPosition,
                     size: 12,
@@ -251,7 +285,7 @@ export class EvidencePackBuilder {
             const lines = truncatedData.split('\n');
             for (const line of lines) {
                 if (yPosition < 100) break; // Avoid overflow
-                page.drawText(line.substring(0, 80), { // Limit line length
+                page.drawText(encodableText(line.substring(0, 80), font), { // Limit line length
                     x: 50,
                     y: yPosition,
                     size: 8,
@@ -261,9 +295,102 @@ export class EvidencePackBuilder {
             }
         }
 
+        // GitHub activity grouped by organization and repository
+        const repositoryLines = this.buildRepositorySummary(data);
+        if (repositoryLines.length > 0) {
+            addListPages(pdfDoc, 'GITHUB ACTIVITY BY ORGANIZATION', repositoryLines, font, boldFont);
+        }
+
+        // Every identifier searched and every account it matched
+        addListPages(pdfDoc, 'SUBJECT IDENTIFIERS', this.buildSubjectIdentifierList(data), font, boldFont);
+
+        // Limitations reported by providers during export
+        const noticeLines = (data.providers || []).flatMap(provider =>
+            provider.notices.map(notice => `${provider.displayName}: ${notice}`)
+        );
+        if (noticeLines.length > 0) {
+            addListPages(pdfDoc, 'EXPORT NOTICES', noticeLines, font, boldFont);
+        }
+
+        // Files bundled into the archive next to this report
+        const attachmentLines = (data.providers || []).flatMap(provider =>
+            (provider.attachments || []).map(attachment =>
+                `${attachment.name} (${attachment.size} bytes${attachment.contentType ? `, ${attachment.contentType}` : ''})`)
+        );
+        if (attachmentLines.length > 0) {
+            addListPages(pdfDoc, 'ATTACHMENTS', attachmentLines, font, boldFont);
+        }
+
         return pdfDoc.save();
     }
 
+    /**
+     * Summarize GitHub activity per organization and repository using the provider's category labels
+     */
+    private buildRepositorySummary(data: EvidencePackData): string[] {
+        const organizations: Record<string, Record<string, unknown>> = data.scrubbed?.github?.organizations || {};
+        const categories = data.providers?.find(p => p.providerId === 'github')?.categories || [];
+        const labelFor = (key: string) => categories.find(c => c.key === key)?.label.replace(/^GitHub /, '') || key;
+        const describe = (counts: Array<[string, number]>) => counts
+            .map(([section, count]) => `${count} ${labelFor(section).toLowerCase()}`)
+            .join(', ');
+
+        const lines: string[] = [];
+        for (const org of Object.keys(organizations).sort()) {
+            const totals = Object.entries(organizations[org])
+                .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+                .map(([section, records]): [string, number] => [section, records.length]);
+            lines.push(`${org}: ${describe(totals.filter(([, count]) => count > 0)) || 'no activity'}`);
+
+            const groups = groupActivityByRepository(organizations[org]);
+            for (const repository of Object.keys(groups).sort()) {
+                lines.push(`- ${repository}: ${describe(Object.entries(groups[repository]))}`);
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Build data summary lines from the providers that took part in the export
+     */
+    private buildProviderSummary(providers: ProviderSummary[]): string[] {
+        const lines: string[] = [];
+        for (const provider of providers) {
+            for (const category of provider.categories) {
+                lines.push(`${category.label}: ${provider.counts[category.key] || 0}`);
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Describe how the subject was matched in each provider
+     */
+    private buildIdentificationSummary(providers: ProviderSummary[]): string[] {
+        return providers.map(provider => {
+            const match = provider.matches[0];
+            if (!match) {
+                return `${provider.displayName}: no matching account found`;
+            }
+            return `${provider.displayName}: ${match.kind} ${match.identifier} (${match.method}, ${match.confidence} confidence)`;
+        });
+    }
+
+    /**
+     * List the identifiers searched followed by every provider match
+     */
+    private buildSubjectIdentifierList(data: EvidencePackData): string[] {
+        const identifiers = data.subjectIdentifiers || [{ kind: 'email', value: data.email }];
+        const lines = identifiers.map(identifier => `Searched ${identifier.kind}: ${identifier.value}`);
+
+        for (const provider of data.providers || []) {
+            for (const match of provider.matches) {
+                lines.push(`${provider.displayName} matched ${match.kind} ${match.identifier} via ${match.method} (${match.confidence} confidence)${match.evidence ? `: ${match.evidence}` : ''}`);
+            }
+        }
+        return lines;
+    }
+
     /**
      * Generate CSV mapping file
      */
@@ -364,6 +491,85 @@ export class EvidencePackBuilder {
     }
 }
 
+/**
+ * Add one or more pages listing lines under a heading, wrapping long lines
+ */
+export function addListPages(pdfDoc: PDFDocument, title: string, lines: string[], font: PDFFont, boldFont: PDFFont): void {
+    let page = pdfDoc.addPage([612, 792]);
+    let yPosition = 750;
+
+    page.drawText(title, {
+        x: 50,
+        y: yPosition,
+        size: 18,
+        font: boldFont
+    });
+    yPosition -= 40;
+
+    for (const line of lines) {
+        for (const segment of wrapText(line, 90)) {
+            if (yPosition < 60) {
+                page = pdfDoc.addPage([612, 792]);
+                yPosition = 750;
+            }
+            page.drawText(encodableText(segment, font), {
+                x: 50,
+                y: yPosition,
+                size: 10,
+                font: font
+            });
+            yPosition -= 14;
+        }
+        yPosition -= 4;
+    }
+}
+
+// Code points each embedded font can encode, looked up once per font
+const fontCharacterSets = new WeakMap<PDFFont, Set<number>>();
+
+/**
+ * Replace characters the font cannot encode with their code point, such as <U+8BF7>
+ *
+ * The standard PDF fonts only cover WinAnsi; drawing an object key or notice in
+ * another script would otherwise fail the whole document.
+ */
+export function encodableText(text: string, font: PDFFont): string {
+    let supported = fontCharacterSets.get(font);
+    if (!supported) {
+        supported = new Set(font.getCharacterSet());
+        fontCharacterSets.set(font, supported);
+    }
+
+    return Array.from(text, character => {
+        const codePoint = character.codePointAt(0)!;
+        return supported!.has(codePoint)
+            ? character
+            : `<U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}>`;
+    }).join('');
+}
+
+/**
+ * Split text into lines of at most maxLength characters on word boundaries
+ */
+export function wrapText(text: string, maxLength: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/)) {
+        if (current && (current + ' ' + word).length > maxLength) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) {
+        lines.push(current);
+    }
+
+    return lines;
+}
+
 /**
  * Convenience function to generate evidence pack
  */
@@ -0,0 +1,307 @@
+/**
+ * Evidence Pipeline
+ * Runs one data subject through provider export, PII scrubbing, GDPR
+ * classification, evidence pack generation, the optional portability export
+ * and archiving
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { listSubjectIdentifiers } from '../providers/subject.js';
+import { runProviderExport } from '../providers/registry.js';
+import { DataSourceProvider, DataSubject, ProviderExport, ProviderFactory } from '../providers/types.js';
+import { ArchiveCreator, ArchiveEntry, ArchiveResult } from './archive.js';
+import { CheckpointStore } from './checkpoint.js';
+import { ClassificationResult, GDPRClassifier } from './classify.js';
+import { Limiter, createLimiter } from './concurrency.js';
+import { EvidencePackBuilder, EvidencePackResult, ProviderSummary } from './pack.js';
+import { PerformanceMonitor } from './performance.js';
+import { PortabilityExportBuilder } from './portability.js';
+import { withTimeout } from './retry.js';
+import { PIIScrubber } from './scrub.js';
+
+export interface EvidencePipelineOptions {
+    providers: Array<{ factory: ProviderFactory; provider: DataSourceProvider }>;
+    /** Providers reported as skipped after the exports */
+    skipped?: ProviderFactory[];
+    archivePassword: string;
+    openaiApiKey?: string;
+    outputDir?: string;
+    /** Subjects each provider may export at the same time, shared across runs */
+    providerConcurrency?: number;
+    /** Seconds a provider export may take before the run fails (0 for no limit) */
+    providerTimeout?: number;
+    /** Per-provider overrides of providerTimeout, keyed by provider id */
+    providerTimeouts?: Record<string, number>;
+    /** Directory checkpointed attachments are restored into */
+    attachmentDir?: string;
+    /** Also write the Art. 20 portability export into the archive */
+    portability?: boolean;
+    perfMonitor?: PerformanceMonitor;
+    log?: (message: string) => void;
+}
+
+export interface SubjectRunResult {
+    subject: DataSubject;
+    providers: ProviderSummary[];
+    evidence: EvidencePackResult;
+    archive: ArchiveResult;
+}
+
+export class EvidencePipeline {
+    private options: EvidencePipelineOptions;
+    private limiters = new Map<string, Limiter>();
+    private log: (message: string) => void;
+
+    constructor(options: EvidencePipelineOptions) {
+        this.options = options;
+        this.log = options.log || (() => {});
+        for (const { provider } of options.providers) {
+            this.limiters.set(provider.id, createLimiter(options.providerConcurrency || 1));
+        }
+    }
+
+    /**
+     * Export one subject and write their evidence pack and archive
+     *
+     * With a checkpoint store, every completed stage is saved and stages already
+     * completed by an earlier attempt are restored instead of run again.
+     */
+    async run(subject: DataSubject, checkpoints?: CheckpointStore): Promise<SubjectRunResult> {
+        const { providers, perfMonitor } = this.options;
+        const subjectIdentifiers = listSubjectIdentifiers(subject);
+        const totalSteps = providers.length + (this.options.portability ? 6 : 5);
+        let step = 0;
+
+        // Provider exports run in parallel; each result is reported as it completes
+        const pending = providers.map(({ factory, provider }) => {
+            step++;
+            this.log(`${factory.icon} Step ${step}: Exporting ${provider.displayName} data...`);
+            return this.exportProvider(factory, provider, subject, checkpoints);
+        });
+        const settled = await Promise.allSettled(pending);
+        perfMonitor?.updateProgress('provider-export', step, totalSteps);
+
+        const failed = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (failed) {
+            // Files downloaded by the providers that did finish are not archived
+            for (const outcome of settled) {
+                if (outcome.status === 'fulfilled') {
+                    outcome.value.attachments.forEach(attachment => rmSync(attachment.path, { force: true }));
+                }
+            }
+            throw failed.reason;
+        }
+        const providerExports = settled.map(outcome => (outcome as PromiseFulfilledResult<ProviderExport>).value);
+        perfMonitor?.forceGarbageCollection();
+
+        for (const factory of this.options.skipped || []) {
+            this.log(`⏭️  ${factory.displayName}: Not configured, skipping ${factory.displayName} export\n`);
+        }
+
+        // Merge data
+        step++;
+        perfMonitor?.updateProgress('data-merge', step, totalSteps);
+        this.log(`🔗 Step ${step}: Merging data sources...`);
+        const githubOrgs = Object.keys(providerExports.find(({ providerId }) => providerId === 'github')?.data.organizations || {});
+        let mergedData = checkpoints?.load<Record<string, any>>('merge');
+        if (mergedData) {
+            this.log('   ♻️  Restored from checkpoint');
+        } else {
+            mergedData = {
+                email: subject.email,
+                githubOrgs,
+                exportTimestamp: new Date().toISOString(),
+            };
+            for (const providerExport of providerExports) {
+                mergedData[providerExport.providerId] = providerExport.data;
+            }
+            checkpoints?.save('merge', mergedData);
+        }
+
+        const dataSize = JSON.stringify(mergedData).length;
+        this.log(`   ✅ Merged data: ${dataSize} bytes total`);
+        this.logMemory();
+
+        // PII Scrubbing
+        step++;
+        perfMonitor?.updateProgress('pii-scrubbing', step, totalSteps);
+        this.log(`🧹 Step ${step}: Scrubbing PII...`);
+        let scrubbed = checkpoints?.load<{ data: any; stats: ReturnType<PIIScrubber['getScrubStats']> }>('scrub');
+        if (scrubbed) {
+            this.log('   ♻️  Restored from checkpoint');
+        } else {
+            const scrubber = new PIIScrubber({ subjectIdentifiers: subjectIdentifiers.map(identifier => identifier.value) });
+            const data = scrubber.scrubObject(mergedData);
+            scrubbed = { data, stats: scrubber.getScrubStats(JSON.stringify(mergedData), JSON.stringify(data)) };
+            checkpoints?.save('scrub', scrubbed);
+        }
+        const { data: scrubbedData, stats: scrubStats } = scrubbed;
+        const itemsFound = scrubStats.emailsFound + scrubStats.phonesFound + scrubStats.ssnsFound
+            + scrubStats.creditCardsFound + scrubStats.apiKeysFound + scrubStats.subjectIdentifiersFound;
+        this.log(`   ✅ PII scrubbing: ${itemsFound} items found, ${scrubStats.totalReductions} bytes reduced`);
+        this.logMemory();
+
+        perfMonitor?.forceGarbageCollection();
+
+        // GDPR Classification
+        step++;
+        perfMonitor?.updateProgress('gdpr-classification', step, totalSteps);
+        this.log(`⚖️  Step ${step}: GDPR classification...`);
+        let gdprAnalysis: ClassificationResult | null = null;
+
+        if (checkpoints?.has('classify')) {
+            gdprAnalysis = checkpoints.load<ClassificationResult | null>('classify')!;
+            this.log('   ♻️  Restored from checkpoint');
+        } else if (this.options.openaiApiKey) {
+            const classifier = new GDPRClassifier(this.options.openaiApiKey);
+            gdprAnalysis = await classifier.classifyData(scrubbedData);
+            this.log(`   ✅ GDPR analysis: ${gdprAnalysis.classifications.length} fields classified`);
+            checkpoints?.save('classify', gdprAnalysis);
+        } else {
+            this.log('   ⏭️  GDPR: No OpenAI API key provided, skipping GDPR classification');
+            checkpoints?.save('classify', null);
+        }
+        this.logMemory();
+
+        perfMonitor?.forceGarbageCollection();
+
+        // Evidence Pack Generation
+        step++;
+        perfMonitor?.updateProgress('evidence-generation', step, totalSteps);
+        this.log(`📄 Step ${step}: Building evidence pack...`);
+        const outputDir = this.options.outputDir || '.';
+        const packBuilder = new EvidencePackBuilder(outputDir);
+        const providerSummaries = providerExports.map(({ data, ...summary }) => summary);
+        let evidenceFiles = checkpoints?.load<EvidencePackResult>('pack');
+        // The pack files are removed once archived, so they are rebuilt if missing
+        if (evidenceFiles && evidenceFiles.filesCreated.every(file => existsSync(file))) {
+            this.log('   ♻️  Restored from checkpoint');
+        } else {
+            evidenceFiles = await packBuilder.generateEvidencePack({
+                email: subject.email,
+                subjectIdentifiers,
+                githubOrgs,
+                exportTimestamp: new Date().toISOString(),
+                original: mergedData,
+                scrubbed: scrubbedData,
+                scrubStats,
+                gdprClassification: gdprAnalysis,
+                providers: providerSummaries
+            });
+            checkpoints?.save('pack', evidenceFiles);
+        }
+        this.log(`   ✅ Evidence pack: ${evidenceFiles.pdfPath} (${evidenceFiles.summary.pdfSize} bytes)`);
+        this.log(`   ✅ CSV mapping: ${evidenceFiles.csvPath} (${evidenceFiles.summary.csvSize} bytes)`);
+        this.logMemory();
+
+        perfMonitor?.forceGarbageCollection();
+
+        // Portability Export, built from the unredacted data so the subject can reuse it elsewhere
+        let portabilityDir: string | undefined;
+        let portabilityFiles: ArchiveEntry[] = [];
+        if (this.options.portability) {
+            step++;
+            perfMonitor?.updateProgress('portability-export', step, totalSteps);
+            this.log(`📤 Step ${step}: Writing portability export...`);
+            portabilityDir = mkdtempSync(join(tmpdir(), 'autopv-portability-'));
+            const portability = new PortabilityExportBuilder(portabilityDir).generate(
+                subject.email,
+                mergedData.exportTimestamp,
+                providerExports.map(({ providerId, displayName, categories }) => {
+                    const provider = providers.find(entry => entry.provider.id === providerId)!.provider;
+                    return { providerId, displayName, categories, records: provider.listRecords?.(mergedData![providerId]) };
+                })
+            );
+            portabilityFiles = portability.entries;
+            this.log(`   ✅ Portability export: ${portability.manifest.files.length} NDJSON files (schema ${portability.manifest.schemaVersion})`);
+            for (const name of portability.manifest.excluded) {
+                this.log(`   ⚠️  ${name} records are not included in the portability export`);
+            }
+        }
+
+        // Encrypted Archive
+        step++;
+        perfMonitor?.updateProgress('archive-creation', step, totalSteps);
+        this.log(`🔐 Step ${step}: Creating encrypted archive...`);
+        const attachments = providerExports.flatMap(providerExport => providerExport.attachments);
+        const archiveCreator = new ArchiveCreator(outputDir, this.options.archivePassword);
+        const archiveResult = await archiveCreator.createEncryptedArchive(
+            [...evidenceFiles.filesCreated, ...portabilityFiles, ...attachments.map(({ path, name }) => ({ path, name }))],
+            `evidence_pack_${subject.email.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().replace(/[:.]/g, '-')}.zip`
+        );
+        for (const attachment of attachments) {
+            rmSync(attachment.path, { force: true });
+        }
+        if (portabilityDir) {
+            rmSync(portabilityDir, { recursive: true, force: true });
+        }
+
+        if (archiveResult.success) {
+            this.log(`   ✅ Archive created: ${archiveResult.archivePath}`);
+            this.log(`   📦 Archive size: ${Math.round(archiveResult.archiveSize / 1024)} KB`);
+            this.log(`   🧹 Cleanup: ${archiveResult.filesArchived.length} files archived`);
+        } else {
+            this.log(`   ❌ Archive creation failed: ${archiveResult.error}`);
+        }
+
+        return { subject, providers: providerSummaries, evidence: evidenceFiles, archive: archiveResult };
+    }
+
+    /**
+     * Export one provider within its concurrency slot and timeout, then log the outcome
+     */
+    private async exportProvider(
+        factory: ProviderFactory,
+        provider: DataSourceProvider,
+        subject: DataSubject,
+        checkpoints?: CheckpointStore
+    ): Promise<ProviderExport> {
+        const restored = checkpoints?.loadExport(provider.id, this.options.attachmentDir || tmpdir());
+        if (restored) {
+            this.log(`   ♻️  ${provider.displayName}: restored from checkpoint`);
+            return restored;
+        }
+
+        const started = Date.now();
+        const timeout = this.options.providerTimeouts?.[provider.id] ?? this.options.providerTimeout ?? 0;
+        let providerExport: ProviderExport;
+
+        try {
+            providerExport = await this.limiters.get(provider.id)!(() => withTimeout(
+                runProviderExport(provider, subject),
+                timeout * 1000,
+                `${provider.displayName} export timed out after ${timeout}s`
+            ));
+        } catch (error: any) {
+            this.log(`   ❌ ${provider.displayName}: ${error.message}`);
+            throw error;
+        }
+        checkpoints?.saveExport(providerExport);
+
+        const counts = providerExport.categories
+            .map(category => `${providerExport.counts[category.key] || 0} ${category.label.toLowerCase()}`)
+            .join(', ');
+        const match = providerExport.matches[0];
+        this.log(`   ✅ ${provider.displayName}: ${counts} (${((Date.now() - started) / 1000).toFixed(1)}s)`);
+        this.log(match
+            ? `   🔎 Matched ${match.kind} ${match.identifier} via ${match.method} (${match.confidence} confidence)`
+            : `   🔎 No matching ${provider.displayName} account found for ${subject.email}`);
+        if (providerExport.attachments.length > 0) {
+            this.log(`   📎 ${providerExport.attachments.length} attachments downloaded`);
+        }
+        for (const notice of providerExport.notices) {
+            this.log(`   ⚠️  ${notice}`);
+        }
+        this.logMemory();
+
+        return providerExport;
+    }
+
+    private logMemory(): void {
+        if (this.options.perfMonitor) {
+            this.log(`   📊 Memory: ${this.options.perfMonitor.getCurrentMemoryMB().toFixed(1)}MB\n`);
+        }
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * Data Portability Export
+ * Writes the subject's records as one NDJSON file per provider with a versioned
+ * schema, a manifest and a README, for Art. 20 GDPR portability requests
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { DataCategory } from '../providers/types.js';
+import { ArchiveEntry } from './archive.js';
+
+/**
+ * Version of the file layout described by schema.json; the major version changes
+ * when existing fields change meaning or are removed, the minor version when fields are added
+ */
+export const PORTABILITY_SCHEMA_VERSION = '1.0.0';
+
+// Folder the portability files are stored under inside the archive
+const ARCHIVE_FOLDER = 'portability';
+
+// Keys that only mean something inside the provider's own API
+const NOISE_KEYS = new Set(['node_id', 'gravatar_id', '__typename', '_links']);
+
+export interface PortabilityProviderInput {
+    providerId: string;
+    displayName: string;
+    categories: DataCategory[];
+    /** Records per category key; undefined when the provider cannot list its records */
+    records?: Record<string, unknown[]>;
+}
+
+export interface PortabilityRecordType {
+    type: string;
+    label: string;
+    description: string;
+    count: number;
+}
+
+export interface PortabilityManifest {
+    format: 'autopv-portability';
+    schemaVersion: string;
+    subject: string;
+    exportedAt: string;
+    files: Array<{ file: string; provider: string; name: string; recordTypes: PortabilityRecordType[] }>;
+    /** Providers whose records could not be included */
+    excluded: string[];
+}
+
+export interface PortabilityExportResult {
+    manifest: PortabilityManifest;
+    /** Files to archive, named under portability/ */
+    entries: ArchiveEntry[];
+}
+
+export class PortabilityExportBuilder {
+    private outputDir: string;
+
+    constructor(outputDir: string = '.') {
+        this.outputDir = outputDir;
+    }
+
+    /**
+     * Write the NDJSON files, manifest.json, schema.json and README.md
+     */
+    generate(email: string, exportTimestamp: string, providers: PortabilityProviderInput[]): PortabilityExportResult {
+        const manifest: PortabilityManifest = {
+            format: 'autopv-portability',
+            schemaVersion: PORTABILITY_SCHEMA_VERSION,
+            subject: email,
+            exportedAt: exportTimestamp,
+            files: [],
+            excluded: []
+        };
+        const files: string[] = [];
+
+        for (const provider of providers) {
+            if (!provider.records) {
+                manifest.excluded.push(provider.displayName);
+                continue;
+            }
+
+            const file = `${provider.providerId.replace(/[^a-zA-Z0-9_-]/g, '_')}.ndjson`;
+            const lines: string[] = [];
+            const recordTypes = provider.categories.map(category => {
+                const type = `${provider.providerId}.${category.key}`;
+                const records = provider.records![category.key] || [];
+                for (const record of records) {
+                    lines.push(JSON.stringify({ type, record: stripNoise(record) }));
+                }
+                return { type, label: category.label, description: category.description, count: records.length };
+            });
+
+            writeFileSync(join(this.outputDir, file), lines.length > 0 ? `${lines.join('\n')}\n` : '');
+            manifest.files.push({ file, provider: provider.providerId, name: provider.displayName, recordTypes });
+            files.push(file);
+        }
+
+        writeFileSync(join(this.outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+        writeFileSync(join(this.outputDir, 'schema.json'), JSON.stringify(buildSchema(), null, 2));
+        writeFileSync(join(this.outputDir, 'README.md'), buildReadme(manifest));
+        files.push('manifest.json', 'schema.json', 'README.md');
+
+        return {
+            manifest,
+            entries: files.map(file => ({ path: join(this.outputDir, file), name: `${ARCHIVE_FOLDER}/${file}` }))
+        };
+    }
+}
+
+/**
+ * Drop provider-internal fields: GraphQL node IDs, type names, HAL links and API URLs
+ *
+ * Links meant for people, such as GitHub's html_url, are kept.
+ */
+export function stripNoise(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(stripNoise);
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        if (NOISE_KEYS.has(key) || (/url$/i.test(key) && typeof item === 'string' && isApiUrl(item))) {
+            continue;
+        }
+        cleaned[key] = stripNoise(item);
+    }
+    return cleaned;
+}
+
+function isApiUrl(value: string): boolean {
+    try {
+        // GitHub returns URI templates such as ".../following{/other_user}"
+        const url = new URL(value.replace(/\{[^}]*\}/g, ''));
+        return url.hostname.startsWith('api.') || url.pathname.startsWith('/api/');
+    } catch {
+        return false;
+    }
+}
+
+function buildSchema(): Record<string, unknown> {
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $id: `urn:autopv:portability:${PORTABILITY_SCHEMA_VERSION}`,
+        title: 'AutoPrivacy portability export',
+        description: 'manifest.json follows #/$defs/manifest; every line of a .ndjson file follows #/$defs/recordLine',
+        $defs: {
+            manifest: {
+                type: 'object',
+                required: ['format', 'schemaVersion', 'subject', 'exportedAt', 'files', 'excluded'],
+                properties: {
+                    format: { const: 'autopv-portability' },
+                    schemaVersion: { type: 'string', description: 'Semantic version of this schema' },
+                    subject: { type: 'string', description: 'Primary email of the data subject' },
+                    exportedAt: { type: 'string', format: 'date-time' },
+                    files: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['file', 'provider', 'name', 'recordTypes'],
+                            properties: {
+                                file: { type: 'string' },
+                                provider: { type: 'string' },
+                                name: { type: 'string' },
+                                recordTypes: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        required: ['type', 'label', 'description', 'count'],
+                                        properties: {
+                                            type: { type: 'string', pattern: '^[^.]+\\..+$' },
+                                            label: { type: 'string' },
+                                            description: { type: 'string' },
+                                            count: { type: 'integer', minimum: 0 }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    excluded: { type: 'array', items: { type: 'string' }, description: 'Systems whose records are not included' }
+                }
+            },
+            recordLine: {
+                type: 'object',
+                required: ['type', 'record'],
+                additionalProperties: false,
+                properties: {
+                    type: { type: 'string', description: 'Record type, "<provider>.<category>", listed in the manifest' },
+                    record: { description: 'The record as held by the source system, without provider-internal fields' }
+                }
+            }
+        }
+    };
+}
+
+function buildReadme(manifest: PortabilityManifest): string {
+    const lines = [
+        '# Your Data Export',
+        '',
+        `This folder holds the personal data about ${manifest.subject} held in each system, exported on ${manifest.exportedAt}`,
+        'under Art. 20 GDPR (right to data portability).',
+        '',
+        '## Format',
+        '',
+        '- Each `.ndjson` file holds the records of one system, one JSON object per line:',
+        '  `{"type": "<system>.<record type>", "record": { ... }}`.',
+        '- `manifest.json` lists every file with its record types and counts.',
+        `- \`schema.json\` is the JSON Schema of both, version ${manifest.schemaVersion}. The major version changes when`,
+        '  fields change meaning or are removed; the minor version when fields are added.',
+        '- Records are as held by each system, minus fields that only mean something inside that',
+        '  system\'s API (internal node IDs and API URLs).',
+        ''
+    ];
+
+    for (const file of manifest.files) {
+        lines.push(`## ${file.name} (\`${file.file}\`)`, '', '| Record type | Records | Description |', '| --- | --- | --- |');
+        for (const recordType of file.recordTypes) {
+            lines.push(`| \`${recordType.type}\` | ${recordType.count} | ${recordType.label}: ${recordType.description} |`);
+        }
+        lines.push('');
+    }
+
+    if (manifest.excluded.length > 0) {
+        lines.push('## Not Included', '', ...manifest.excluded.map(name => `- ${name}: see the evidence pack`), '');
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,264 @@
+/**
+ * Rectification Requests
+ * Plans Art. 16 corrections of the subject's records, applies them and records
+ * each field's value before and after the change
+ */
+
+import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+    DataSourceProvider,
+    DataSubject,
+    ProviderFactory,
+    RectificationChange,
+    RectificationOutcome,
+    SubjectMatch
+} from '../providers/types.js';
+import { addListPages, encodableText } from './pack.js';
+
+/**
+ * Fields a correction may name; each provider maps the ones it holds onto its own records
+ */
+export const RECTIFIABLE_FIELDS = [
+    'name',
+    'email',
+    'phone',
+    'address.line1',
+    'address.line2',
+    'address.city',
+    'address.state',
+    'address.postal_code',
+    'address.country'
+];
+
+export interface ProviderRectificationPlan {
+    providerId: string;
+    displayName: string;
+    matches: SubjectMatch[];
+    changes: RectificationChange[];
+}
+
+export interface RectificationPlan {
+    subject: DataSubject;
+    corrections: Record<string, string>;
+    createdAt: string;
+    providers: ProviderRectificationPlan[];
+    /** Configured providers that cannot update data; their records must be corrected manually */
+    unsupported: string[];
+    /** Corrected fields no record held a different value for */
+    unchanged: string[];
+}
+
+export interface RectificationReport {
+    plan: RectificationPlan;
+    executedAt: string;
+    outcomes: RectificationOutcome[];
+    summary: { updated: number; failed: number };
+}
+
+export interface RectificationEvidenceResult {
+    pdfPath: string;
+    jsonPath: string;
+    filesCreated: string[];
+}
+
+type ProviderEntry = { factory: ProviderFactory; provider: DataSourceProvider };
+
+/**
+ * Check the corrected field names and values
+ */
+export function validateCorrections(corrections: Record<string, string>): Record<string, string> {
+    if (Object.keys(corrections).length === 0) {
+        throw new Error('Pass at least one correction as field=value');
+    }
+    for (const [field, value] of Object.entries(corrections)) {
+        if (!RECTIFIABLE_FIELDS.includes(field)) {
+            throw new Error(`Unknown field ${field}; corrections can change ${RECTIFIABLE_FIELDS.join(', ')}`);
+        }
+        if (field === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+            throw new Error(`Invalid email correction: ${value}`);
+        }
+    }
+    return corrections;
+}
+
+/**
+ * Read the current values from every provider that supports updates
+ */
+export async function buildRectificationPlan(
+    providers: ProviderEntry[],
+    subject: DataSubject,
+    corrections: Record<string, string>
+): Promise<RectificationPlan> {
+    const supported = providers.filter(({ provider }) => provider.planRectification);
+
+    const plans = await Promise.all(supported.map(async ({ provider }) => {
+        const matches = await provider.identifySubject(subject);
+        return {
+            providerId: provider.id,
+            displayName: provider.displayName,
+            matches,
+            changes: await provider.planRectification!(subject, matches, corrections)
+        };
+    }));
+
+    const changed = new Set(plans.flatMap(plan => plan.changes.map(change => change.field)));
+    return {
+        subject,
+        corrections,
+        createdAt: new Date().toISOString(),
+        providers: plans,
+        unsupported: providers.filter(({ provider }) => !provider.planRectification).map(({ provider }) => provider.displayName),
+        unchanged: Object.keys(corrections).filter(field => !changed.has(field))
+    };
+}
+
+/**
+ * Apply the planned changes provider by provider
+ */
+export async function executeRectificationPlan(
+    plan: RectificationPlan,
+    providers: ProviderEntry[],
+    onOutcome?: (change: RectificationChange, outcome: RectificationOutcome) => void
+): Promise<RectificationReport> {
+    const outcomes: RectificationOutcome[] = [];
+
+    for (const providerPlan of plan.providers) {
+        if (providerPlan.changes.length === 0) continue;
+
+        const provider = providers.find(entry => entry.provider.id === providerPlan.providerId)!.provider;
+        let results: RectificationOutcome[];
+        try {
+            results = await provider.executeRectification!(plan.subject, providerPlan.matches, providerPlan.changes);
+        } catch (error: any) {
+            results = providerPlan.changes.map(change => failedOutcome(change, error.message));
+        }
+
+        for (const change of providerPlan.changes) {
+            const outcome = results.find(result => result.changeId === change.id) || failedOutcome(change, 'The provider reported no outcome');
+            outcomes.push(outcome);
+            onOutcome?.(change, outcome);
+        }
+    }
+
+    return {
+        plan,
+        executedAt: new Date().toISOString(),
+        outcomes,
+        summary: {
+            updated: outcomes.filter(outcome => outcome.status === 'updated').length,
+            failed: outcomes.filter(outcome => outcome.status === 'failed').length
+        }
+    };
+}
+
+/**
+ * One-line description of a planned change
+ */
+export function describeRectificationChange(change: RectificationChange): string {
+    return `${change.target} ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+/**
+ * Writes the rectification evidence record as a PDF for people and JSON for systems
+ */
+export class RectificationEvidenceBuilder {
+    private outputDir: string;
+
+    constructor(outputDir: string = '.') {
+        this.outputDir = outputDir;
+    }
+
+    async generate(report: RectificationReport): Promise<RectificationEvidenceResult> {
+        const timestamp = report.executedAt.replace(/[:.]/g, '-');
+        const emailSafe = report.plan.subject.email.replace(/[^a-zA-Z0-9]/g, '_');
+
+        const pdfPath = join(this.outputDir, `rectification_${emailSafe}_${timestamp}.pdf`);
+        const jsonPath = join(this.outputDir, `rectification_${emailSafe}_${timestamp}.json`);
+
+        writeFileSync(pdfPath, await this.generatePDF(report));
+        writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+
+        return { pdfPath, jsonPath, filesCreated: [pdfPath, jsonPath] };
+    }
+
+    private async generatePDF(report: RectificationReport): Promise<Uint8Array> {
+        const pdfDoc = await PDFDocument.create();
+        const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+        const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        const { plan } = report;
+
+        // Cover page
+        const page = pdfDoc.addPage([612, 792]);
+        let yPosition = 750;
+
+        page.drawText('RECTIFICATION EVIDENCE RECORD', { x: 50, y: yPosition, size: 24, font: boldFont, color: rgb(0, 0, 0.8) });
+        yPosition -= 40;
+        page.drawText(encodableText(`Art. 16 GDPR rectification request for ${plan.subject.email}`, font), { x: 50, y: yPosition, size: 14, font, color: rgb(0.2, 0.2, 0.2) });
+        yPosition -= 60;
+
+        const info = [
+            `Plan Reviewed: ${new Date(plan.createdAt).toLocaleString()}`,
+            `Changes Applied: ${new Date(report.executedAt).toLocaleString()}`,
+            `Data Subject: ${plan.subject.email}`,
+            `Fields Corrected: ${Object.keys(plan.corrections).join(', ')}`,
+            `Changes Updated: ${report.summary.updated}`,
+            `Changes Failed: ${report.summary.failed}`,
+            `Generated by: AutoPrivacy CLI`,
+        ];
+        page.drawText('RECTIFICATION SUMMARY', { x: 50, y: yPosition, size: 16, font: boldFont });
+        yPosition -= 30;
+        for (const line of info) {
+            page.drawText(encodableText(line, font), { x: 70, y: yPosition, size: 12, font });
+            yPosition -= 20;
+        }
+
+        const sections: Array<[string, RectificationOutcome['status']]> = [
+            ['UPDATED', 'updated'],
+            ['FAILED', 'failed']
+        ];
+        for (const [title, status] of sections) {
+            const lines = this.buildChangeLines(report, status);
+            if (lines.length > 0) {
+                addListPages(pdfDoc, title, lines, font, boldFont);
+            }
+        }
+
+        const manual = [
+            ...plan.unchanged.map(field => `${field}: no record held a different value`),
+            ...plan.unsupported.map(name => `${name}: this system has no automated updates; correct its records manually`)
+        ];
+        if (manual.length > 0) {
+            addListPages(pdfDoc, 'NOT CHANGED AUTOMATICALLY', manual, font, boldFont);
+        }
+
+        return pdfDoc.save();
+    }
+
+    private buildChangeLines(report: RectificationReport, status: RectificationOutcome['status']): string[] {
+        const lines: string[] = [];
+        for (const providerPlan of report.plan.providers) {
+            for (const change of providerPlan.changes) {
+                const outcome = report.outcomes.find(candidate => candidate.changeId === change.id);
+                if (outcome?.status !== status) continue;
+
+                lines.push(`${providerPlan.displayName}: ${change.target} at ${outcome.completedAt}`);
+                lines.push(`- ${change.field} before: ${formatValue(change.before)}`);
+                lines.push(status === 'updated'
+                    ? `- ${change.field} after: ${formatValue(outcome.value ?? null)}`
+                    : `- ${change.field} requested: ${formatValue(change.after)}`);
+                if (outcome.error) lines.push(`- Error: ${outcome.error}`);
+            }
+        }
+        return lines;
+    }
+}
+
+function formatValue(value: string | null): string {
+    return value === null || value === '' ? '(empty)' : `"${value}"`;
+}
+
+function failedOutcome(change: RectificationChange, error: string): RectificationOutcome {
+    return { changeId: change.id, status: 'failed', error, completedAt: new Date().toISOString() };
+}
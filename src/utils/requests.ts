@@ -0,0 +1,273 @@
+/**
+ * Request Tracking
+ * Local store of data subject requests with their Art. 12(3) GDPR deadlines,
+ * identity verification status and the outputs produced for them, encrypted
+ * with the archive password
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { decrypt, deriveKey, encrypt } from './encryption.js';
+
+export const DEFAULT_REQUESTS_PATH = join(homedir(), '.autopv', 'requests.enc');
+
+export const REQUEST_TYPES = ['access', 'erasure', 'rectification', 'portability', 'restriction', 'objection'] as const;
+export const VERIFICATION_STATUSES = ['pending', 'verified', 'failed'] as const;
+export const CLOSE_OUTCOMES = ['fulfilled', 'refused', 'withdrawn'] as const;
+
+// Art. 12(3): one month from receipt, extendable by two further months
+const RESPONSE_MONTHS = 1;
+const EXTENSION_MONTHS = 2;
+
+const SALT_LENGTH = 16;
+
+export type RequestType = typeof REQUEST_TYPES[number];
+export type VerificationStatus = typeof VERIFICATION_STATUSES[number];
+export type CloseOutcome = typeof CLOSE_OUTCOMES[number];
+
+export interface RequestOutput {
+    /** Command that produced the output */
+    command: string;
+    path: string;
+    linkedAt: string;
+}
+
+export interface DsarRequest {
+    /** DSAR-<year>-<sequence> */
+    id: string;
+    type: RequestType;
+    /** Primary email of the data subject */
+    subject: string;
+    /** Date of receipt, YYYY-MM-DD */
+    receivedAt: string;
+    verification: {
+        status: VerificationStatus;
+        /** How the identity was checked, or why the check failed */
+        method?: string;
+        updatedAt: string;
+    };
+    /** Response deadline without extension, YYYY-MM-DD */
+    deadline: string;
+    extension?: {
+        deadline: string;
+        reason: string;
+        extendedAt: string;
+    };
+    status: 'open' | 'closed';
+    closure?: {
+        outcome: CloseOutcome;
+        closedAt: string;
+        /** False when the request was closed after its deadline */
+        onTime: boolean;
+        note?: string;
+    };
+    outputs: RequestOutput[];
+    notes?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface NewRequest {
+    type: RequestType;
+    subject: string;
+    receivedAt: Date;
+    verification?: VerificationStatus;
+    verificationMethod?: string;
+    notes?: string;
+}
+
+export class RequestStore {
+    readonly path: string;
+    private key: Buffer;
+    private salt: Buffer;
+    private requests: DsarRequest[];
+
+    private constructor(path: string, key: Buffer, salt: Buffer, requests: DsarRequest[]) {
+        this.path = path;
+        this.key = key;
+        this.salt = salt;
+        this.requests = requests;
+    }
+
+    /**
+     * Open the store, starting an empty one when none exists yet
+     */
+    static open(password: string, path: string = DEFAULT_REQUESTS_PATH): RequestStore {
+        if (!existsSync(path)) {
+            const salt = randomBytes(SALT_LENGTH);
+            return new RequestStore(path, deriveKey(password, salt), salt, []);
+        }
+
+        const payload = readFileSync(path);
+        const salt = payload.subarray(0, SALT_LENGTH);
+        const key = deriveKey(password, salt);
+        let requests: DsarRequest[];
+        try {
+            requests = JSON.parse(decrypt(payload.subarray(SALT_LENGTH), key).toString('utf8'));
+        } catch {
+            throw new Error(`Request store ${path} could not be decrypted; was the archive password changed?`);
+        }
+        return new RequestStore(path, key, salt, requests);
+    }
+
+    /**
+     * Requests ordered by the date they are due
+     */
+    list(): DsarRequest[] {
+        return [...this.requests].sort((a, b) => dueDate(a).localeCompare(dueDate(b)) || a.id.localeCompare(b.id));
+    }
+
+    get(id: string): DsarRequest {
+        const request = this.requests.find(candidate => candidate.id === id.toUpperCase());
+        if (!request) {
+            throw new Error(`No request ${id}; run autopv requests list to see tracked requests`);
+        }
+        return request;
+    }
+
+    /**
+     * Record a newly received request and its deadline
+     */
+    create(input: NewRequest, now: Date = new Date()): DsarRequest {
+        if (toDate(input.receivedAt) > toDate(now)) {
+            throw new Error(`The received date ${toDate(input.receivedAt)} is in the future`);
+        }
+
+        const year = now.getUTCFullYear();
+        const prefix = `DSAR-${year}-`;
+        const sequence = Math.max(0, ...this.requests
+            .filter(request => request.id.startsWith(prefix))
+            .map(request => Number(request.id.slice(prefix.length)))) + 1;
+
+        const request: DsarRequest = {
+            id: `${prefix}${String(sequence).padStart(4, '0')}`,
+            type: input.type,
+            subject: input.subject,
+            receivedAt: toDate(input.receivedAt),
+            verification: { status: input.verification || 'pending', method: input.verificationMethod, updatedAt: now.toISOString() },
+            deadline: toDate(addMonths(input.receivedAt, RESPONSE_MONTHS)),
+            status: 'open',
+            outputs: [],
+            notes: input.notes,
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString()
+        };
+        this.requests.push(request);
+        this.save();
+        return request;
+    }
+
+    /**
+     * Extend the deadline by two further months; the subject has to be told why
+     * within the first month, so this is only possible before the original deadline
+     */
+    extend(id: string, reason: string, now: Date = new Date()): DsarRequest {
+        const request = this.getOpen(id);
+        if (request.extension) {
+            throw new Error(`Request ${request.id} was already extended to ${request.extension.deadline}`);
+        }
+        if (!reason.trim()) {
+            throw new Error('An extension needs a reason to give the data subject');
+        }
+        if (toDate(now) > request.deadline) {
+            throw new Error(`Request ${request.id} can no longer be extended: the subject had to be told by ${request.deadline}`);
+        }
+
+        request.extension = {
+            deadline: toDate(addMonths(parseDate(request.receivedAt), RESPONSE_MONTHS + EXTENSION_MONTHS)),
+            reason: reason.trim(),
+            extendedAt: now.toISOString()
+        };
+        return this.touch(request, now);
+    }
+
+    /**
+     * Record the outcome of the identity check
+     */
+    verify(id: string, status: VerificationStatus, method?: string, now: Date = new Date()): DsarRequest {
+        const request = this.getOpen(id);
+        request.verification = { status, method, updatedAt: now.toISOString() };
+        return this.touch(request, now);
+    }
+
+    /**
+     * Link an output, such as an evidence pack archive, to the request
+     */
+    linkOutput(id: string, command: string, path: string, now: Date = new Date()): DsarRequest {
+        const request = this.getOpen(id);
+        request.outputs.push({ command, path, linkedAt: now.toISOString() });
+        return this.touch(request, now);
+    }
+
+    /**
+     * Close the request; fulfilling it requires a verified identity
+     */
+    close(id: string, outcome: CloseOutcome, note?: string, now: Date = new Date()): DsarRequest {
+        const request = this.getOpen(id);
+        if (outcome === 'fulfilled' && request.verification.status !== 'verified') {
+            throw new Error(`The identity for request ${request.id} is ${request.verification.status}; verify it before closing the request as fulfilled`);
+        }
+
+        request.status = 'closed';
+        request.closure = { outcome, closedAt: now.toISOString(), onTime: toDate(now) <= dueDate(request), note };
+        return this.touch(request, now);
+    }
+
+    /**
+     * Look up a request that can still be changed
+     */
+    getOpen(id: string): DsarRequest {
+        const request = this.get(id);
+        if (request.status === 'closed') {
+            throw new Error(`Request ${request.id} was closed on ${toDate(new Date(request.closure!.closedAt))}`);
+        }
+        return request;
+    }
+
+    private touch(request: DsarRequest, now: Date): DsarRequest {
+        request.updatedAt = now.toISOString();
+        this.save();
+        return request;
+    }
+
+    private save(): void {
+        mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+        const payload = encrypt(Buffer.from(JSON.stringify(this.requests)), this.key);
+        writeFileSync(this.path, Buffer.concat([this.salt, payload]), { mode: 0o600 });
+    }
+}
+
+/**
+ * The deadline in force: the extended one when the request was extended
+ */
+export function dueDate(request: DsarRequest): string {
+    return request.extension?.deadline || request.deadline;
+}
+
+/**
+ * Calendar days until the request is due; negative once it is overdue
+ */
+export function daysRemaining(request: DsarRequest, now: Date = new Date()): number {
+    return Math.round((parseDate(dueDate(request)).getTime() - parseDate(toDate(now)).getTime()) / 86400000);
+}
+
+/**
+ * Add calendar months; a day the target month lacks falls back to its last day,
+ * so a request received on 31 January is due on the last day of February
+ */
+export function addMonths(date: Date, months: number): Date {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function toDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function parseDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
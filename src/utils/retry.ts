@@ -0,0 +1,212 @@
+/**
+ * Retry and Timeout Utilities
+ * Retries rate-limited and transient API failures with exponential backoff,
+ * honouring Retry-After and GitHub's rate limit headers
+ */
+
+export interface RetryOptions {
+    /** Attempts made after the first one */
+    retries?: number;
+    /** Backoff before the first retry; doubles on every attempt */
+    minDelayMs?: number;
+    maxDelayMs?: number;
+    /** Longest wait a server may ask for before the request fails instead */
+    maxWaitMs?: number;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+}
+
+export type ResponseHeaders = Record<string, string | string[] | number | undefined>;
+
+export const DEFAULT_RETRY: Required<Omit<RetryOptions, 'sleep' | 'random'>> = {
+    retries: 4,
+    minDelayMs: 1000,
+    maxDelayMs: 60_000,
+    maxWaitMs: 10 * 60_000
+};
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit without Retry-After
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60_000;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'EAI_AGAIN',
+    'EPIPE',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * How long to wait before retrying a response, or undefined when it should not be retried
+ */
+export function retryDelay(
+    status: number,
+    headers: ResponseHeaders,
+    attempt: number,
+    options: RetryOptions = {},
+    message: string = ''
+): number | undefined {
+    const retryAfter = parseRetryAfter(header(headers, 'retry-after'));
+    const rateLimited = header(headers, 'x-ratelimit-remaining') === '0';
+    const secondaryRateLimit = /secondary rate limit|abuse detection/i.test(message);
+
+    // 403 is only transient when it reports a rate limit
+    if (!RETRYABLE_STATUSES.has(status) && !(status === 403 && (retryAfter !== undefined || rateLimited || secondaryRateLimit))) {
+        return undefined;
+    }
+
+    if (retryAfter !== undefined) {
+        return retryAfter;
+    }
+    if (rateLimited) {
+        const reset = Number(header(headers, 'x-ratelimit-reset'));
+        if (reset > 0) {
+            return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+        }
+    }
+    const backoff = backoffDelay(attempt, options);
+    return secondaryRateLimit ? Math.max(backoff, SECONDARY_RATE_LIMIT_WAIT_MS) : backoff;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of minDelay * 2^attempt
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const { minDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+    const random = options.random || Math.random;
+    const delay = Math.min(minDelayMs * 2 ** attempt, maxDelayMs);
+    return Math.round(delay / 2 + random() * delay / 2);
+}
+
+/**
+ * Run a request, retrying thrown rate limit, server and network errors
+ *
+ * Errors carrying `status` (Octokit) or `statusCode` (Stripe) and response headers are
+ * classified by retryDelay; anything else is rethrown immediately.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { retries, maxWaitMs } = { ...DEFAULT_RETRY, ...options };
+    const sleep = options.sleep || defaultSleep;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error: any) {
+            const status = error?.status ?? error?.statusCode;
+            const delay = typeof status === 'number'
+                ? retryDelay(status, error.response?.headers || error.headers || {}, attempt, options, error.message)
+                : isNetworkError(error) ? backoffDelay(attempt, options) : undefined;
+
+            if (delay === undefined || attempt >= retries || delay > maxWaitMs) {
+                if (attempt > 0 && error instanceof Error) {
+                    error.message = `${error.message} (gave up after ${attempt + 1} attempts)`;
+                }
+                throw error;
+            }
+            await sleep(delay);
+        }
+    }
+}
+
+/**
+ * Send a request, retrying network errors and rate-limited or failing responses
+ *
+ * `describe` reads a response's status and headers; once retries are exhausted the
+ * last response is returned as is so the caller reports the API's own error.
+ */
+export async function retryRequest<R>(
+    send: () => Promise<R>,
+    describe: (response: R) => { status: number; headers: ResponseHeaders; message?: string },
+    options: RetryOptions = {},
+    discard?: (response: R) => Promise<void>
+): Promise<R> {
+    const { retries, maxWaitMs } = { ...DEFAULT_RETRY, ...options };
+    const sleep = options.sleep || defaultSleep;
+
+    for (let attempt = 0; ; attempt++) {
+        let response: R;
+        try {
+            response = await send();
+        } catch (error) {
+            if (!isNetworkError(error) || attempt >= retries) {
+                throw error;
+            }
+            await sleep(backoffDelay(attempt, options));
+            continue;
+        }
+
+        const { status, headers, message } = describe(response);
+        const delay = retryDelay(status, headers, attempt, options, message);
+        if (delay === undefined || attempt >= retries || delay > maxWaitMs) {
+            return response;
+        }
+        // Release the connection before waiting
+        await discard?.(response);
+        await sleep(delay);
+    }
+}
+
+/**
+ * fetch() with retryRequest's handling of rate limits, server errors and network failures
+ */
+export function fetchWithRetry(url: string | URL, init: RequestInit = {}, options: RetryOptions = {}): Promise<Response> {
+    return retryRequest(
+        () => fetch(url, init),
+        response => ({ status: response.status, headers: Object.fromEntries(response.headers), message: response.statusText }),
+        options,
+        async response => { await response.body?.cancel(); }
+    );
+}
+
+/**
+ * Reject with `message` when the promise does not settle within `ms` (0 disables the limit)
+ *
+ * The underlying work is not cancelled; its eventual result is ignored.
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    if (!ms || ms <= 0) {
+        return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Parse Retry-After as delay seconds or an HTTP date, in milliseconds
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+        return Math.round(Number(value) * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function header(headers: ResponseHeaders, name: string): string | undefined {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+    const value = key === undefined ? undefined : headers[key];
+    return Array.isArray(value) ? value[0] : value === undefined ? undefined : String(value);
+}
+
+function isNetworkError(error: any): boolean {
+    const code = error?.code ?? error?.cause?.code;
+    return NETWORK_ERROR_CODES.has(code) || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
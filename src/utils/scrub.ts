@@ -10,6 +10,8 @@ export interface ScrubConfig {
     maskCreditCards?: boolean;
     maskIPAddresses?: boolean;
     maskCustomPatterns?: RegExp[];
+    /** The data subject's own identifiers (logins, customer IDs, user IDs), always masked */
+    subjectIdentifiers?: string[];
     placeholder?: string;
 }
 
@@ -43,6 +45,8 @@ export class PIIScrubber {
         stripeKey: /\b(?:sk|pk)_(?:test|live)_[a-zA-Z0-9]{24,}\b/g,
     };
 
+    private subjectPattern: RegExp | null;
+
     constructor(config: ScrubConfig = {}) {
         this.config = {
             maskEmails: config.maskEmails ?? true,
@@ -51,8 +55,17 @@ export class PIIScrubber {
             maskCreditCards: config.maskCreditCards ?? true,
             maskIPAddresses: config.maskIPAddresses ?? false, // Often needed for logs
             maskCustomPatterns: config.maskCustomPatterns ?? [],
+            subjectIdentifiers: config.subjectIdentifiers ?? [],
             placeholder: config.placeholder ?? '[REDACTED]'
         };
+
+        // Longest first so one alias never masks only part of another
+        const identifiers = [...new Set(this.config.subjectIdentifiers.filter(Boolean))]
+            .sort((a, b) => b.length - a.length)
+            .map(value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        this.subjectPattern = identifiers.length > 0
+            ? new RegExp(`(?<![A-Za-z0-9_-])(?:${identifiers.join('|')})(?![A-Za-z0-9_-])`, 'gi')
+            : null;
     }
 
     /**
@@ -86,6 +99,11 @@ export class PIIScrubber {
         scrubbed = scrubbed.replace(PIIScrubber.PATTERNS.githubToken, this.config.placeholder);
         scrubbed = scrubbed.replace(PIIScrubber.PATTERNS.stripeKey, this.config.placeholder);
 
+        // Mask the subject's own identifiers, which the generic patterns miss
+        if (this.subjectPattern) {
+            scrubbed = scrubbed.replace(this.subjectPattern, this.config.placeholder);
+        }
+
         // Apply custom patterns
         for (const pattern of this.config.maskCustomPatterns) {
             scrubbed = scrubbed.replace(pattern, this.config.placeholder);
@@ -137,6 +155,7 @@ export class PIIScrubber {
         creditCardsFound: number;
         ipAddressesFound: number;
         apiKeysFound: number;
+        subjectIdentifiersFound: number;
         totalReductions: number;
     } {
         return {
@@ -148,6 +167,7 @@ export class PIIScrubber {
             apiKeysFound: (original.match(PIIScrubber.PATTERNS.apiKey) || []).length + 
                          (original.match(PIIScrubber.PATTERNS.githubToken) || []).length +
                          (original.match(PIIScrubber.PATTERNS.stripeKey) || []).length,
+            subjectIdentifiersFound: this.subjectPattern ? (original.match(this.subjectPattern) || []).length : 0,
             totalReductions: original.length - scrubbed.length
         };
     }
@@ -0,0 +1,89 @@
+/**
+ * Report Signing
+ * Signs reports with an Ed25519 key kept on disk, encrypted with the archive
+ * password, so auditors can check a report was not altered after it was issued
+ */
+
+import { KeyObject, createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+export const DEFAULT_SIGNING_KEY_PATH = join(homedir(), '.autopv', 'signing-key.pem');
+
+export interface ReportSignature {
+    algorithm: 'Ed25519';
+    /** SPKI PEM of the key that signed the report */
+    publicKey: string;
+    /** SHA-256 of the public key, for comparing against the key on file */
+    keyFingerprint: string;
+    /** Base64 signature over the canonical JSON of `report` */
+    value: string;
+}
+
+export interface SignedReport<T> {
+    report: T;
+    signature: ReportSignature;
+}
+
+/**
+ * Load the signing key, creating it on first use
+ */
+export function loadSigningKey(password: string, path: string = DEFAULT_SIGNING_KEY_PATH): KeyObject {
+    if (!existsSync(path)) {
+        const { privateKey } = generateKeyPairSync('ed25519');
+        mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+        writeFileSync(path, privateKey.export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: password }), { mode: 0o600 });
+        return privateKey;
+    }
+
+    try {
+        return createPrivateKey({ key: readFileSync(path), format: 'pem', passphrase: password });
+    } catch {
+        throw new Error(`Signing key ${path} could not be decrypted; was the archive password changed?`);
+    }
+}
+
+/**
+ * Sign a report; its canonical JSON (keys sorted) is what the signature covers
+ */
+export function signReport<T>(report: T, privateKey: KeyObject): SignedReport<T> {
+    const publicKey = createPublicKey(privateKey);
+    return {
+        report,
+        signature: {
+            algorithm: 'Ed25519',
+            publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            keyFingerprint: keyFingerprint(publicKey),
+            value: sign(null, Buffer.from(canonicalJson(report), 'utf8'), privateKey).toString('base64')
+        }
+    };
+}
+
+/**
+ * Check a signed report against the public key it carries
+ */
+export function verifyReportSignature(signed: SignedReport<unknown>): boolean {
+    try {
+        const publicKey = createPublicKey(signed.signature.publicKey);
+        return verify(null, Buffer.from(canonicalJson(signed.report), 'utf8'), publicKey, Buffer.from(signed.signature.value, 'base64'));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * SHA-256 fingerprint of a public key's DER encoding
+ */
+export function keyFingerprint(publicKey: KeyObject): string {
+    return createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so the same report always serializes to the same bytes
+ */
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, item) => item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : item);
+}